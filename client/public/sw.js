@@ -0,0 +1,233 @@
+// Service worker for the installed app and Web Push. Keeps the client bundle
+// and the PDF template around so the app opens without the server, caches
+// completed and aborted reports with their PDFs for reading offline, shows
+// the notification the server sends and opens the report when it's clicked.
+
+const SHELL_CACHE = "formplay-shell-v1";
+// Reports and who is logged in, so it's emptied on login and logout
+const DATA_CACHE = "formplay-data-v1";
+
+const STATIC_URLS = ["/manifest.webmanifest", "/icon-192.png", "/icon-512.png"];
+const CURRENT_TEMPLATE_URL = "/api/templates/current/pdf";
+const FINAL_STATUSES = ["completed", "aborted", "expired"];
+
+// API responses worth keeping for the last report list to open offline
+const SESSION_API_PATHS = ["/api/me", "/api/tps-reports", "/api/stats"];
+const REPORT_PATH = /^\/api\/tps-reports\/(\d+)$/;
+const REPORT_DETAIL_PATH = /^\/api\/tps-reports\/(\d+)\/(pdf|revisions|logs)$/;
+const TEMPLATE_PATH = /^\/api\/templates\/(\d+)\/pdf$/;
+
+function offlineResponse() {
+  return new Response(JSON.stringify({ message: "You're offline and this isn't saved on your device" }), {
+    status: 503,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// Caches index.html along with the bundle it points to, dropping bundles of
+// earlier builds. Built file names are hashed, so a cached one never changes.
+async function updateShell(response) {
+  const html = await response.clone().text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.put("/", response);
+
+  for (const asset of assets) {
+    if (!(await cache.match(asset))) await cache.add(asset);
+  }
+  for (const request of await cache.keys()) {
+    const path = new URL(request.url).pathname;
+    if (path.startsWith("/assets/") && !assets.includes(path)) await cache.delete(request);
+  }
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll([...STATIC_URLS, CURRENT_TEMPLATE_URL]);
+  const response = await fetch("/", { cache: "no-cache" });
+  if (response.ok) await updateShell(response);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    precacheShell()
+      .catch((error) => console.error("Precache error:", error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith("formplay-") && name !== SHELL_CACHE && name !== DATA_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function handleNavigation(event) {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) event.waitUntil(updateShell(response.clone()));
+    return response;
+  } catch (error) {
+    // Every route renders from the same index.html
+    return (await caches.match("/")) || offlineResponse();
+  }
+}
+
+// Keeps finished reports from the list, fetching the PDF and template each
+// one needs to render. The list has the same shape as the report itself, so
+// its entries stand in for the report without logging a view of it.
+async function cacheFinalReports(reports) {
+  const cache = await caches.open(DATA_CACHE);
+
+  for (const report of reports) {
+    if (!FINAL_STATUSES.includes(report.status)) continue;
+
+    await cache.put(`/api/tps-reports/${report.id}`, new Response(JSON.stringify(report), {
+      headers: { "Content-Type": "application/json" }
+    }));
+
+    const pdfUrl = `/api/tps-reports/${report.id}/pdf`;
+    if (!(await cache.match(pdfUrl))) {
+      await cache.add(pdfUrl).catch((error) => console.error("Cache report PDF error:", error));
+    }
+
+    const templateUrl = report.template_id ? `/api/templates/${report.template_id}/pdf` : CURRENT_TEMPLATE_URL;
+    if (!(await caches.match(templateUrl))) {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.add(templateUrl).catch((error) => console.error("Cache template error:", error));
+    }
+  }
+}
+
+// Only finished reports are cached: anything still in progress would be
+// stale the moment the partner acts on it
+async function shouldCache(path, response) {
+  if (SESSION_API_PATHS.includes(path)) return true;
+
+  const report = path.match(REPORT_PATH);
+  if (report) {
+    const data = await response.clone().json();
+    return FINAL_STATUSES.includes(data.status);
+  }
+
+  const detail = path.match(REPORT_DETAIL_PATH);
+  if (detail) {
+    const cache = await caches.open(DATA_CACHE);
+    return !!(await cache.match(`/api/tps-reports/${detail[1]}`));
+  }
+
+  return false;
+}
+
+async function handleApi(event, url) {
+  const request = event.request;
+
+  try {
+    const response = await fetch(request);
+
+    if (response.ok && (await shouldCache(url.pathname, response))) {
+      const cache = await caches.open(DATA_CACHE);
+      await cache.put(request, response.clone());
+
+      // Any page of the list, whatever it was filtered by
+      if (url.pathname === "/api/tps-reports") {
+        event.waitUntil(response.clone().json().then((page) => cacheFinalReports(page.items)));
+      }
+    }
+    return response;
+  } catch (error) {
+    const cache = await caches.open(DATA_CACHE);
+    return (await cache.match(request)) || offlineResponse();
+  }
+}
+
+function isOfflineApi(path) {
+  return SESSION_API_PATHS.includes(path) || REPORT_PATH.test(path) || REPORT_DETAIL_PATH.test(path);
+}
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method !== "GET") {
+    // A new session must not see what the last one cached
+    if (url.pathname === "/api/login" || url.pathname === "/api/logout") {
+      event.waitUntil(caches.delete(DATA_CACHE));
+    }
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(event));
+  } else if (url.pathname.startsWith("/assets/") || STATIC_URLS.includes(url.pathname) || TEMPLATE_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (url.pathname === CURRENT_TEMPLATE_URL) {
+    // A newer template can be uploaded at any time
+    event.respondWith(
+      fetch(request)
+        .then(async (response) => {
+          if (response.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            await cache.put(request, response.clone());
+          }
+          return response;
+        })
+        .catch(async () => (await caches.match(request)) || offlineResponse())
+    );
+  } else if (isOfflineApi(url.pathname)) {
+    event.respondWith(handleApi(event, url));
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let data = { title: "FormPlay", body: "There has been an update to your TPS report.", url: "/" };
+  try {
+    data = { ...data, ...event.data.json() };
+  } catch (error) {
+    // Keep the generic message for payloads that aren't JSON
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title, {
+      body: data.body,
+      icon: "/icon-192.png",
+      tag: data.url,
+      data: { url: data.url }
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || "/";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => "focus" in client);
+      if (existing) {
+        existing.navigate(url);
+        return existing.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
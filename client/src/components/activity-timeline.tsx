@@ -0,0 +1,118 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ActivityPage, describeActivity } from "@shared/activity";
+import { FieldChange } from "@shared/revisions";
+import { ChangeList } from "@/components/revision-history";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+export interface ActivityFilters {
+  report_id?: number;
+  // Left unset for the server's default, which leaves out views
+  action?: string[];
+  user_id?: number;
+  from?: string;
+  to?: string;
+}
+
+interface ActivityTimelineProps {
+  filters: ActivityFilters;
+  // Links each entry to its report, for the feed across reports
+  showReport?: boolean;
+}
+
+function buildActivityUrl(filters: ActivityFilters, cursor: number | null): string {
+  const params = new URLSearchParams();
+  if (filters.report_id !== undefined) params.set("report_id", String(filters.report_id));
+  if (filters.action) params.set("action", filters.action.join(","));
+  if (filters.user_id !== undefined) params.set("user_id", String(filters.user_id));
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (cursor !== null) params.set("cursor", String(cursor));
+
+  const query = params.toString();
+  return query ? `/api/activity?${query}` : "/api/activity";
+}
+
+function formatTimestamp(timestamp: string | Date): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+}
+
+// What happened to reports, newest first, a page at a time
+export default function ActivityTimeline({ filters, showReport }: ActivityTimelineProps) {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/activity", filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", buildActivityUrl(filters, pageParam));
+      return await res.json() as ActivityPage;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+  });
+
+  const entries = data?.pages.flatMap(page => page.items) || [];
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading activity...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No activity yet.</p>;
+  }
+
+  return (
+    <div>
+      <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+        {entries.map(entry => {
+          const changes: FieldChange[] = (entry.details as any)?.changes || [];
+
+          return (
+            <li key={entry.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-indigo-400" />
+              <p className="text-sm text-gray-900">{describeActivity(entry, entry.user_name)}</p>
+              <p className="text-xs text-gray-500">
+                {formatTimestamp(entry.timestamp)}
+                {showReport && (
+                  <>
+                    {" · "}
+                    <Link href={`/reports/${entry.tps_id}`} className="text-indigo-600 hover:underline">
+                      Report #{entry.tps_id}{entry.report_date ? ` for ${formatDate(entry.report_date)}` : ""}
+                    </Link>
+                  </>
+                )}
+              </p>
+              {changes.length > 0 && (
+                <details className="mt-2">
+                  <summary className="text-xs text-gray-600 cursor-pointer">
+                    {changes.length === 1 ? "1 field changed" : `${changes.length} fields changed`}
+                  </summary>
+                  <div className="mt-2">
+                    <ChangeList changes={changes} participantNames={entry.participant_names} />
+                  </div>
+                </details>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-4"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { AlertCircle, Check, CloudOff, Loader2 } from "lucide-react";
+import { AutosaveStatus } from "@/hooks/use-autosave";
+
+// Where the draft's latest edits are: on their way, on the server, or
+// waiting in the browser for the server to come back
+export default function AutosaveIndicator({ status }: { status: AutosaveStatus }) {
+  switch (status) {
+    case "saving":
+      return (
+        <span className="flex items-center text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          Saving...
+        </span>
+      );
+    case "saved":
+      return (
+        <span className="flex items-center text-sm text-green-600">
+          <Check className="h-4 w-4 mr-1" />
+          Saved
+        </span>
+      );
+    case "offline":
+      return (
+        <span
+          className="flex items-center text-sm text-amber-600"
+          title="Your changes are kept in this browser and sent once the server is reachable again"
+        >
+          <CloudOff className="h-4 w-4 mr-1" />
+          Offline, saved locally
+        </span>
+      );
+    case "error":
+      return (
+        <span className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          Not saved
+        </span>
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AvailabilityWindow } from "@shared/schema";
+import { WEEKDAY_LABELS, describeWindow } from "@shared/scheduling";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Trash2 } from "lucide-react";
+
+type AvailabilityWindowWithOwner = AvailabilityWindow & { user_name: string; is_own: boolean };
+
+// Times either partner can't make, such as the kids' bedtime or a work
+// trip. Reports planned over them need confirming before they're submitted.
+export default function AvailabilityWindows() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState("");
+  const [repeat, setRepeat] = useState<"weekly" | "dates">("weekly");
+  const [days, setDays] = useState<number[]>([]);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [allDay, setAllDay] = useState(false);
+  const [timeStart, setTimeStart] = useState("19:00");
+  const [timeEnd, setTimeEnd] = useState("20:30");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: windows = [] } = useQuery<AvailabilityWindowWithOwner[]>({
+    queryKey: ['/api/availability'],
+  });
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setDays(current => checked ? [...current, day].sort() : current.filter(other => other !== day));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", "/api/availability", {
+        label,
+        days_of_week: repeat === "weekly" ? days : [],
+        start_date: repeat === "dates" ? startDate : "",
+        end_date: repeat === "dates" ? endDate : "",
+        time_start: allDay ? "" : timeStart,
+        time_end: allDay ? "" : timeEnd
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/availability'] });
+
+      setLabel("");
+      setDays([]);
+      setStartDate("");
+      setEndDate("");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Failed to add the unavailable time",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await apiRequest("DELETE", `/api/availability/${id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/availability'] });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to remove the unavailable time",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 border-b">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Unavailable Times</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Times you can't make, every week or for a stretch of days. Reports planned over
+          your or your partner's unavailable times are flagged before they're submitted.
+        </p>
+      </div>
+      <div className="px-4 py-5 sm:px-6 space-y-6 max-w-2xl">
+        {windows.length > 0 ? (
+          <ul className="divide-y divide-gray-200 border rounded">
+            {windows.map(window => (
+              <li key={window.id} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{window.label}</p>
+                  <p className="text-sm text-gray-500">
+                    {describeWindow(window)}
+                    {!window.is_own && ` · ${window.user_name}`}
+                  </p>
+                </div>
+                {window.is_own && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(window.id)} title="Remove">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No unavailable times yet.</p>
+        )}
+
+        <form className="space-y-4" onSubmit={handleAdd}>
+          <div>
+            <Label htmlFor="window_label">Label</Label>
+            <Input
+              id="window_label"
+              className="mt-1"
+              placeholder="Kids' bedtime"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              required
+            />
+          </div>
+
+          <RadioGroup
+            className="flex space-x-6"
+            value={repeat}
+            onValueChange={(value) => setRepeat(value as "weekly" | "dates")}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem id="window_weekly" value="weekly" />
+              <Label htmlFor="window_weekly">Every week</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem id="window_dates" value="dates" />
+              <Label htmlFor="window_dates">Dates</Label>
+            </div>
+          </RadioGroup>
+
+          {repeat === "weekly" ? (
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAY_LABELS.map((dayLabel, day) => (
+                <div key={dayLabel} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`window_day_${day}`}
+                    checked={days.includes(day)}
+                    onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                  />
+                  <Label htmlFor={`window_day_${day}`}>{dayLabel}</Label>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex space-x-4">
+              <div>
+                <Label htmlFor="window_start_date">From</Label>
+                <Input
+                  id="window_start_date"
+                  type="date"
+                  className="mt-1"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="window_end_date">Until</Label>
+                <Input
+                  id="window_end_date"
+                  type="date"
+                  className="mt-1"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="window_all_day"
+              checked={allDay}
+              onCheckedChange={(checked) => setAllDay(checked === true)}
+            />
+            <Label htmlFor="window_all_day">All day</Label>
+          </div>
+
+          {!allDay && (
+            <div className="flex space-x-4">
+              <div>
+                <Label htmlFor="window_time_start">From</Label>
+                <Input
+                  id="window_time_start"
+                  type="time"
+                  className="mt-1"
+                  value={timeStart}
+                  onChange={(e) => setTimeStart(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="window_time_end">Until</Label>
+                <Input
+                  id="window_time_end"
+                  type="time"
+                  className="mt-1"
+                  value={timeEnd}
+                  onChange={(e) => setTimeEnd(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          {!allDay && timeEnd <= timeStart && (
+            <p className="text-xs text-gray-500">Ends the next day</p>
+          )}
+
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Adding..." : "Add Unavailable Time"}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
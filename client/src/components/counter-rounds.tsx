@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { FieldChange } from "@shared/revisions";
+import { MAX_COUNTER_ROUNDS } from "@shared/workflow";
+import { formatDate } from "@/lib/utils";
+import { ChangeList } from "@/components/revision-history";
+
+interface CounterLog {
+  id: number;
+  action: string;
+  timestamp: string;
+  user_name: string;
+  details: {
+    round: number;
+    note: string;
+    changes: FieldChange[];
+  };
+}
+
+interface CounterRoundsProps {
+  reportId: number;
+  participantNames: {
+    creator: string;
+    receiver: string;
+  };
+}
+
+// Counter-proposals sent back on a report, newest first, with the note and
+// the items that were struck or changed in each round
+export default function CounterRounds({ reportId, participantNames }: CounterRoundsProps) {
+  const { data: logs = [] } = useQuery<CounterLog[]>({
+    queryKey: [`/api/tps-reports/${reportId}/logs`],
+  });
+
+  const rounds = logs
+    .filter(log => log.action === "countered")
+    .sort((a, b) => b.details.round - a.details.round);
+
+  if (rounds.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h5 className="font-medium text-gray-700 mb-2">Counter-Proposals</h5>
+      <ol className="space-y-4">
+        {rounds.map(round => (
+          <li key={round.id} className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+            <p className="text-sm text-gray-500 mb-2">
+              <span className="font-medium text-gray-700">
+                Round {round.details.round} of {MAX_COUNTER_ROUNDS}
+              </span>
+              {" • "}{round.user_name}{" • "}{formatDate(round.timestamp)}
+            </p>
+            <p className="text-sm text-gray-900 italic mb-3">"{round.details.note}"</p>
+            <ChangeList changes={round.details.changes || []} participantNames={participantNames} />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -1,10 +1,24 @@
 import { Link } from "wouter";
+import { BarChart3, History, LogOut } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import NotificationBell from "@/components/notification-bell";
+import ReportSearch from "@/components/report-search";
 
 interface HeaderProps {
   username: string;
 }
 
 export default function Header({ username }: HeaderProps) {
+  const handleLogout = async () => {
+    try {
+      await apiRequest('POST', '/api/logout');
+    } finally {
+      // Reload so the app starts over at the login screen
+      queryClient.clear();
+      window.location.href = '/';
+    }
+  };
+
   return (
     <header className="bg-white shadow-sm">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -20,10 +34,34 @@ export default function Header({ username }: HeaderProps) {
           <div className="flex items-center">
             <div className="ml-3 relative">
               <div className="flex items-center space-x-4">
-                <span className="text-sm font-medium text-gray-700">{username}</span>
-                <div className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center">
-                  <span className="text-xs font-medium text-gray-600">{username[0]?.toUpperCase()}</span>
-                </div>
+                <ReportSearch />
+                <Link href="/activity">
+                  <span className="text-gray-400 hover:text-gray-600 cursor-pointer" title="Activity">
+                    <History className="h-5 w-5" />
+                  </span>
+                </Link>
+                <Link href="/insights">
+                  <span className="text-gray-400 hover:text-gray-600 cursor-pointer" title="Insights">
+                    <BarChart3 className="h-5 w-5" />
+                  </span>
+                </Link>
+                <NotificationBell />
+                <Link href="/account">
+                  <div className="flex items-center space-x-4 cursor-pointer" title="Account">
+                    <span className="text-sm font-medium text-gray-700">{username}</span>
+                    <div className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center">
+                      <span className="text-xs font-medium text-gray-600">{username[0]?.toUpperCase()}</span>
+                    </div>
+                  </div>
+                </Link>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-gray-600"
+                  onClick={handleLogout}
+                  title="Log out"
+                >
+                  <LogOut className="h-5 w-5" />
+                </button>
               </div>
             </div>
           </div>
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Download, Share, WifiOff, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useInstallPrompt, useOnlineStatus } from "@/hooks/use-pwa";
+
+const DISMISSED_KEY = "formplay-install-dismissed";
+
+// Offers installing FormPlay on phones, and says so when the list shown is
+// the copy saved on the device
+export default function InstallBanner() {
+  const isMobile = useIsMobile();
+  const online = useOnlineStatus();
+  const { canPrompt, needsInstructions, install } = useInstallPrompt();
+  const [dismissed, setDismissed] = useState(() => localStorage.getItem(DISMISSED_KEY) === "true");
+
+  const dismiss = () => {
+    localStorage.setItem(DISMISSED_KEY, "true");
+    setDismissed(true);
+  };
+
+  if (!online) {
+    return (
+      <div className="mb-6 flex items-center rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-800">
+        <WifiOff className="h-5 w-5 mr-3 flex-shrink-0" />
+        You're offline. Finished reports you've loaded before are still available.
+      </div>
+    );
+  }
+
+  if (!isMobile || dismissed || (!canPrompt && !needsInstructions)) return null;
+
+  return (
+    <div className="mb-6 flex items-center rounded-lg bg-indigo-50 px-4 py-3">
+      <img src="/icon-192.png" alt="" className="h-10 w-10 rounded-lg mr-3 flex-shrink-0" />
+      <div className="flex-1 text-sm text-indigo-900">
+        <p className="font-medium">Install FormPlay</p>
+        {canPrompt ? (
+          <p className="text-indigo-700">Open it from your home screen and read past reports offline.</p>
+        ) : (
+          <p className="text-indigo-700">
+            Tap <Share className="inline h-4 w-4 mx-0.5" /> then "Add to Home Screen".
+          </p>
+        )}
+      </div>
+      {canPrompt && (
+        <Button size="sm" className="ml-3" onClick={install}>
+          <Download className="h-4 w-4 mr-1" />
+          Install
+        </Button>
+      )}
+      <button
+        type="button"
+        className="ml-2 text-indigo-400 hover:text-indigo-600"
+        onClick={dismiss}
+        title="Dismiss"
+      >
+        <X className="h-5 w-5" />
+      </button>
+    </div>
+  );
+}
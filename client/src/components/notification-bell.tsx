@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from "@/lib/push";
+import { useToast } from "@/hooks/use-toast";
+
+interface NotificationItem {
+  id: number;
+  tps_id: number | null;
+  title: string;
+  body: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationList {
+  notifications: NotificationItem[];
+  unread: number;
+}
+
+export default function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [pushEnabled, setPushEnabled] = useState(false);
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ['/api/notifications'],
+  });
+
+  const notifications = data?.notifications || [];
+  const unread = data?.unread || 0;
+
+  useEffect(() => {
+    getPushSubscription()
+      .then(subscription => setPushEnabled(!!subscription))
+      .catch(() => setPushEnabled(false));
+  }, []);
+
+  const markRead = async (ids?: number[]) => {
+    try {
+      await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    } catch (error) {
+      console.error("Mark notifications read error:", error);
+    }
+  };
+
+  const openNotification = (notification: NotificationItem) => {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.tps_id) setLocation(`/reports/${notification.tps_id}`);
+  };
+
+  const togglePush = async () => {
+    try {
+      if (pushEnabled) {
+        await disablePush();
+        setPushEnabled(false);
+        return;
+      }
+
+      const enabled = await enablePush();
+      setPushEnabled(enabled);
+      if (!enabled) {
+        toast({
+          title: "Notifications blocked",
+          description: "Allow notifications for FormPlay in your browser settings to turn them on",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Push notification error:", error);
+      toast({
+        title: "Error",
+        description: "Could not change browser notifications",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="relative text-gray-400 hover:text-gray-600"
+          title="Notifications"
+        >
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1rem] h-4 px-1 rounded-full bg-pink-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <button
+              type="button"
+              className="px-2 text-xs text-indigo-600 hover:text-indigo-800"
+              onClick={() => markRead()}
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-2 py-4 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start space-y-1 cursor-pointer"
+                onSelect={() => openNotification(notification)}
+              >
+                <div className="flex items-center w-full">
+                  {!notification.read_at && (
+                    <span className="h-2 w-2 mr-2 rounded-full bg-indigo-500 flex-shrink-0" />
+                  )}
+                  <span className={`text-sm ${notification.read_at ? "text-gray-700" : "font-medium text-gray-900"}`}>
+                    {notification.title}
+                  </span>
+                </div>
+                <span className="text-xs text-gray-500">{notification.body}</span>
+                <span className="text-xs text-gray-400">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+        {isPushSupported() && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="cursor-pointer text-sm" onSelect={togglePush}>
+              {pushEnabled ? "Turn off browser notifications" : "Turn on browser notifications"}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
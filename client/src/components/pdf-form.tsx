@@ -3,6 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { TpsStatus, PdfFormField } from "@shared/schema";
+import { toPdfFieldValues, fromPdfFieldValues } from "@shared/form-data";
+import { TPS_TEMPLATE, getColumnPdfValues, getColumnValuesFromPdf } from "@shared/form-template";
 import { 
   loadPdfForm, 
   renderPdfToCanvas, 
@@ -11,7 +13,8 @@ import {
   convertToPdfFormFields,
   createFieldsFromPdfFormData,
   createFilledPdf,
-  savePdfToFile
+  savePdfToFile,
+  getTemplatePdfUrl
 } from "@/lib/pdf";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
@@ -50,6 +53,12 @@ export default function PdfForm({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const formOverlayRef = useRef<HTMLDivElement>(null);
   
+  // Map participant names in template field names to their role in this report
+  const creatorIsUser = mode === "create" || initialData?.creator_id === userId;
+  const participantNames = creatorIsUser
+    ? { creator: userNames.user, receiver: userNames.partner }
+    : { creator: userNames.partner, receiver: userNames.user };
+  
   // Load PDF and extract form fields
   useEffect(() => {
     async function loadPdf() {
@@ -57,7 +66,7 @@ export default function PdfForm({
         console.log('Attempting to load PDF template...');
         
         // First check if we can access the template
-        const templateResponse = await fetch('/api/templates/tps-vanilla');
+        const templateResponse = await fetch(getTemplatePdfUrl(initialData?.template_id));
         if (!templateResponse.ok) {
           throw new Error(`Failed to fetch PDF template: ${templateResponse.status} ${templateResponse.statusText}`);
         }
@@ -89,10 +98,12 @@ export default function PdfForm({
             });
             
             // If we have initial data from a saved report, use that
-            if (initialData?.form_data?.fields) {
-              Object.keys(initialData.form_data.fields).forEach(key => {
-                initialFormValues[key] = initialData.form_data.fields[key];
-              });
+            if (initialData) {
+              Object.assign(
+                initialFormValues,
+                getColumnPdfValues(initialData, participantNames),
+                toPdfFieldValues(initialData.form_data, participantNames)
+              );
             }
             
             setFormValues(initialFormValues);
@@ -136,12 +147,17 @@ export default function PdfForm({
     }));
   };
   
-  // Initialize minimal metadata with defaults
-  const metaValues = {
-    date: new Date().toISOString().split('T')[0],
-    time_start: "21:30",
-    time_end: "22:00",
-  };
+  // Report columns mirror their template fields, with defaults for new reports
+  const getColumnValues = () => ({
+    ...(mode === "create" ? {
+      date: new Date().toISOString().split('T')[0],
+      time_start: "21:30",
+      time_end: "22:00",
+      location: "",
+      sound: "",
+    } : {}),
+    ...getColumnValuesFromPdf(formValues, participantNames)
+  });
   
   // Handle form submission
   const handleSubmit = async (type: "save" | "submit" | "approve" | "deny") => {
@@ -166,19 +182,11 @@ export default function PdfForm({
       
       // Prepare payload with merged data
       const payload = {
-        ...metaValues,
+        ...getColumnValues(),
         status,
         creator_id: mode === "create" ? userId : initialData?.creator_id,
         receiver_id: mode === "create" ? partnerId : initialData?.receiver_id,
-        form_data: {
-          // Store form fields directly
-          fields: formValues,
-          // Include any additional metadata if needed
-          metadata: {
-            matt_notes: initialData?.form_data?.metadata?.matt_notes || "",
-            mina_notes: initialData?.form_data?.metadata?.mina_notes || "",
-          }
-        }
+        form_data: fromPdfFieldValues(formValues, participantNames, initialData?.form_data?.metadata)
       };
       
       // Make API request to save the form
@@ -234,7 +242,7 @@ export default function PdfForm({
     
     try {
       // Create filled PDF with form data
-      const filledPdf = await createFilledPdf(formValues);
+      const filledPdf = await createFilledPdf(formValues, reportId);
       
       // Save to file
       savePdfToFile(filledPdf, `tps_report_${reportId || 'new'}.pdf`);
@@ -268,6 +276,8 @@ export default function PdfForm({
         return <Badge variant="outline">Completed</Badge>;
       case TpsStatus.ABORTED:
         return <Badge variant="destructive">Aborted</Badge>;
+      case TpsStatus.EXPIRED:
+        return <Badge variant="outline">Expired</Badge>;
       default:
         return null;
     }
@@ -276,7 +286,7 @@ export default function PdfForm({
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="px-4 py-5 sm:px-6 border-b flex justify-between items-center">
-        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v1.2</h3>
+        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v{initialData?.template_version || TPS_TEMPLATE.version}</h3>
         {getStatusBadge()}
       </div>
       
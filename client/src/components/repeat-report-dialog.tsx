@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { TpsReport } from "@shared/schema";
+import { WEEKDAY_LABELS } from "@shared/scheduling";
+import { RecurrenceRule, formatRecurrenceRule } from "@shared/recurrence";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+
+type Frequency = "weekly" | "biweekly" | "monthly" | "custom";
+
+interface RepeatReportDialogProps {
+  report: TpsReport;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sets up a recurring schedule from a finished report. The common cases are
+// picked from a list, anything else can be written as an RRULE.
+export default function RepeatReportDialog({ report, open, onOpenChange }: RepeatReportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [frequency, setFrequency] = useState<Frequency>("weekly");
+  const [days, setDays] = useState<number[]>(() => [new Date(`${report.date}T00:00:00Z`).getUTCDay()]);
+  const [customRule, setCustomRule] = useState("FREQ=WEEKLY;BYDAY=FR");
+  const [timeStart, setTimeStart] = useState(report.time_start);
+  const [timeEnd, setTimeEnd] = useState(report.time_end);
+  const [leadDays, setLeadDays] = useState("3");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setDays(current => checked ? [...current, day].sort() : current.filter(other => other !== day));
+  };
+
+  const buildRule = (): string => {
+    if (frequency === "custom") return customRule;
+
+    const rule: RecurrenceRule = {
+      freq: frequency === "monthly" ? "MONTHLY" : "WEEKLY",
+      interval: frequency === "biweekly" ? 2 : 1,
+      byDay: frequency === "monthly" ? [] : days.map(weekday => ({ weekday })),
+      byMonthDay: []
+    };
+    return formatRecurrenceRule(rule);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", "/api/schedules", {
+        source_report_id: report.id,
+        rule: buildRule(),
+        time_start: timeStart,
+        time_end: timeEnd,
+        lead_days: parseInt(leadDays)
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tps-reports'] });
+
+      toast({
+        title: "Schedule created",
+        description: `A draft will be ready ${leadDays} days before each date. Manage schedules on the Account page.`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Failed to create the schedule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Repeat this TPS Report</DialogTitle>
+          <DialogDescription>
+            A copy of this report is created as a draft ahead of each date, with a reset
+            emotional state, and you're notified to finish it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div>
+            <Label>Repeat</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as Frequency)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">Every week</SelectItem>
+                <SelectItem value="biweekly">Every other week</SelectItem>
+                <SelectItem value="monthly">Every month on day {parseInt(report.date.split("-")[2])}</SelectItem>
+                <SelectItem value="custom">Custom rule</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(frequency === "weekly" || frequency === "biweekly") && (
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAY_LABELS.map((dayLabel, day) => (
+                <div key={dayLabel} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`repeat_day_${day}`}
+                    checked={days.includes(day)}
+                    onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                  />
+                  <Label htmlFor={`repeat_day_${day}`}>{dayLabel}</Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {frequency === "custom" && (
+            <div>
+              <Label htmlFor="repeat_rule">Rule</Label>
+              <Input
+                id="repeat_rule"
+                className="mt-1 font-mono"
+                value={customRule}
+                onChange={(e) => setCustomRule(e.target.value)}
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                An RRULE such as FREQ=MONTHLY;BYDAY=-1FR for the last Friday of every month
+              </p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <div>
+              <Label htmlFor="repeat_time_start">From</Label>
+              <Input
+                id="repeat_time_start"
+                type="time"
+                className="mt-1"
+                value={timeStart}
+                onChange={(e) => setTimeStart(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="repeat_time_end">Until</Label>
+              <Input
+                id="repeat_time_end"
+                type="time"
+                className="mt-1"
+                value={timeEnd}
+                onChange={(e) => setTimeEnd(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="repeat_lead_days">Days ahead</Label>
+              <Input
+                id="repeat_lead_days"
+                type="number"
+                min={0}
+                max={30}
+                className="mt-1 w-24"
+                value={leadDays}
+                onChange={(e) => setLeadDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || (frequency !== "monthly" && frequency !== "custom" && days.length === 0)}
+            >
+              {isSubmitting ? "Saving..." : "Create Schedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
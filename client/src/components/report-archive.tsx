@@ -0,0 +1,89 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ArchiveImportSummary } from "@shared/archive";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError } from "@/lib/queryClient";
+import { Download, Upload } from "lucide-react";
+
+// Export everything to a file, or restore such a file into a fresh instance
+export default function ReportArchive() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      // Sent raw rather than through apiRequest, which would JSON-encode it
+      const res = await fetch("/api/archive", {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new ApiError(res.status, (await res.text()) || res.statusText);
+      }
+
+      const summary: ArchiveImportSummary = await res.json();
+      queryClient.invalidateQueries();
+      toast({
+        title: "Archive restored",
+        description: `${summary.reports} reports, ${summary.revisions} revisions and ${summary.pdfs} PDFs imported`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Failed to import the archive",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 border-b">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Archive</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Download every report you share with your partner, with its history and PDF. An archive
+          can be restored while neither of you has any reports, such as on a new server.
+        </p>
+      </div>
+      <div className="px-4 py-5 sm:px-6 flex flex-wrap gap-3">
+        <Button variant="outline" asChild>
+          <a href="/api/archive?format=zip" download>
+            <Download className="h-4 w-4 mr-2" />
+            Export ZIP
+          </a>
+        </Button>
+        <Button variant="outline" asChild>
+          <a href="/api/archive?format=json" download>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </a>
+        </Button>
+        <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isImporting}>
+          <Upload className="h-4 w-4 mr-2" />
+          {isImporting ? "Importing..." : "Import Archive"}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".zip,.json,application/zip,application/json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+}
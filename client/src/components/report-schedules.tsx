@@ -0,0 +1,99 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ReportSchedule } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate, formatTimeRange } from "@/lib/utils";
+import { Pause, Play, Trash2 } from "lucide-react";
+
+type ReportScheduleWithDetails = ReportSchedule & { description: string; next_occurrence: string | null };
+
+// The user's recurring reports, set up with "Repeat..." on a finished report
+export default function ReportSchedules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedules = [] } = useQuery<ReportScheduleWithDetails[]>({
+    queryKey: ['/api/schedules'],
+  });
+
+  const handleToggle = async (schedule: ReportScheduleWithDetails) => {
+    try {
+      await apiRequest("PUT", `/api/schedules/${schedule.id}`, { active: !schedule.active });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    } catch {
+      toast({
+        title: "Error",
+        description: schedule.active ? "Failed to pause the schedule" : "Failed to resume the schedule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await apiRequest("DELETE", `/api/schedules/${id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to remove the schedule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 border-b">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Recurring Reports</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Drafts copied from a report ahead of each date. Set one up with "Repeat..." on a finished
+          report.
+        </p>
+      </div>
+      <div className="px-4 py-5 sm:px-6 max-w-2xl">
+        {schedules.length > 0 ? (
+          <ul className="divide-y divide-gray-200 border rounded">
+            {schedules.map(schedule => (
+              <li key={schedule.id} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {schedule.description}, {formatTimeRange(schedule.time_start, schedule.time_end)}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    From <Link href={`/reports/${schedule.source_report_id}`} className="text-indigo-600 hover:underline">
+                      report #{schedule.source_report_id}
+                    </Link>
+                    {" · "}
+                    {schedule.active
+                      ? schedule.next_occurrence
+                        ? `next on ${formatDate(schedule.next_occurrence)}`
+                        : "no dates left"
+                      : "paused"}
+                  </p>
+                </div>
+                <div className="flex space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleToggle(schedule)}
+                    title={schedule.active ? "Pause" : "Resume"}
+                  >
+                    {schedule.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule.id)} title="Remove">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No recurring reports yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ReportSearchResult, SearchField, SearchSnippet } from "@shared/search";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate, getStatusLabel } from "@/lib/utils";
+import { Search } from "lucide-react";
+
+function getFieldLabel(field: SearchField, result: ReportSearchResult): string {
+  switch (field) {
+    case "creator_notes":
+      return `${result.creator_name}'s notes`;
+    case "receiver_notes":
+      return `${result.receiver_name}'s notes`;
+    case "details":
+      return "Details";
+  }
+}
+
+function Snippet({ snippet, result }: { snippet: SearchSnippet; result: ReportSearchResult }) {
+  return (
+    <p className="text-xs text-gray-600">
+      <span className="font-medium text-gray-700">{getFieldLabel(snippet.field, result)}: </span>
+      {snippet.parts.map((part, index) => part.highlight
+        ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">{part.text}</mark>
+        : <span key={index}>{part.text}</span>
+      )}
+    </p>
+  );
+}
+
+// Search palette over every report's notes and free text, opened from the
+// header or with Ctrl+K / ⌘K
+export default function ReportSearch() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const { data: userData } = useQuery<any>({
+    queryKey: ['/api/me'],
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Search once typing pauses rather than on every key
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: results = [], isFetching } = useQuery<ReportSearchResult[]>({
+    queryKey: ["/api/search", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search?q=${encodeURIComponent(query)}`);
+      return await res.json();
+    },
+    enabled: open && query.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  const handleSelect = (id: number) => {
+    setOpen(false);
+    setInput("");
+    setLocation(`/reports/${id}`);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className="text-gray-400 hover:text-gray-600"
+        onClick={() => setOpen(true)}
+        title="Search reports (Ctrl+K)"
+      >
+        <Search className="h-5 w-5" />
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search reports</DialogTitle>
+          {/* Results come filtered from the server, so cmdk shouldn't filter them again */}
+          <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+            <CommandInput
+              placeholder="Search notes, shows, places..."
+              value={input}
+              onValueChange={setInput}
+            />
+            <CommandList>
+              {query && !isFetching && (
+                <CommandEmpty>No reports match "{query}"</CommandEmpty>
+              )}
+              {query && results.length > 0 && (
+                <CommandGroup heading="Reports">
+                  {results.map(result => (
+                    <CommandItem
+                      key={result.id}
+                      value={String(result.id)}
+                      onSelect={() => handleSelect(result.id)}
+                      className="flex flex-col items-start space-y-1"
+                    >
+                      <p className="text-sm font-medium text-gray-900">
+                        {formatDate(result.date)} at {result.time_start}
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {getStatusLabel(result.status, result.creator_id === userData?.user?.id)}
+                        </span>
+                      </p>
+                      {result.snippets.map(snippet => (
+                        <Snippet key={snippet.field} snippet={snippet} result={result} />
+                      ))}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { FieldChange, RevisionRound } from "@shared/revisions";
+import { formatDate, getStatusLabel } from "@/lib/utils";
+
+type Round = RevisionRound & { user_name: string };
+
+interface RevisionHistoryProps {
+  reportId: number;
+  participantNames: {
+    creator: string;
+    receiver: string;
+  };
+  isCreator: boolean;
+  // Shows this user's latest round on top, e.g. the receiver's review while
+  // the creator decides whether to approve it
+  highlightUserId?: number;
+}
+
+const CHANGE_STYLES: Record<FieldChange["kind"], string> = {
+  added: "bg-green-50 border-green-200",
+  removed: "bg-red-50 border-red-200",
+  changed: "bg-yellow-50 border-yellow-200"
+};
+
+export function ChangeList({ changes, participantNames }: { changes: FieldChange[]; participantNames: RevisionHistoryProps["participantNames"] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No field changes</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {changes.map(change => (
+        <li key={change.path} className={`border rounded px-3 py-2 text-sm ${CHANGE_STYLES[change.kind]}`}>
+          <span className="font-medium text-gray-700">
+            {change.role ? `${participantNames[change.role]}'s ${change.label}` : change.label}
+          </span>
+          <span className="ml-2">
+            {change.kind === "added" && (
+              <span className="text-green-800">{change.after}</span>
+            )}
+            {change.kind === "removed" && (
+              <span className="text-red-700 line-through">{change.before}</span>
+            )}
+            {change.kind === "changed" && (
+              <>
+                <span className="text-red-700 line-through">{change.before}</span>
+                <span className="mx-1 text-gray-500">→</span>
+                <span className="text-green-800">{change.after}</span>
+              </>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function RevisionHistory({ reportId, participantNames, isCreator, highlightUserId }: RevisionHistoryProps) {
+  const { data: rounds = [] } = useQuery<Round[]>({
+    queryKey: [`/api/tps-reports/${reportId}/revisions`],
+  });
+
+  if (rounds.length === 0) return null;
+
+  const highlighted = highlightUserId
+    ? [...rounds].reverse().find(round => round.user_id === highlightUserId && round.changes.length > 0)
+    : undefined;
+
+  return (
+    <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 border-b">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Revision History</h3>
+      </div>
+
+      {highlighted && (
+        <div className="px-4 py-5 sm:px-6 border-b bg-indigo-50">
+          <h4 className="font-medium text-indigo-800 mb-1">
+            What {highlighted.user_name} changed
+          </h4>
+          <p className="text-sm text-indigo-700 mb-3">
+            Review these changes before you approve the report
+          </p>
+          <ChangeList changes={highlighted.changes} participantNames={participantNames} />
+        </div>
+      )}
+
+      <ol className="divide-y divide-gray-200">
+        {[...rounds].reverse().map(round => (
+          <li key={round.revision} className="px-4 py-4 sm:px-6">
+            <p className="text-sm text-gray-500 mb-2">
+              <span className="font-medium text-gray-700">Revision {round.revision}</span>
+              {" • "}{round.user_name}{" • "}{formatDate(round.created_at)}
+              {round.status_from !== round.status_to && (
+                <span>
+                  {" • "}{getStatusLabel(round.status_from, isCreator)} → {getStatusLabel(round.status_to, isCreator)}
+                </span>
+              )}
+            </p>
+            <ChangeList changes={round.changes} participantNames={participantNames} />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { AlertTriangle } from "lucide-react";
+import { ScheduleConflict, TimeRangeError } from "@shared/scheduling";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ScheduleConflictResponse } from "@/lib/queryClient";
+
+function ConflictList({ conflicts }: { conflicts: ScheduleConflict[] }) {
+  return (
+    <ul className="list-disc pl-5 space-y-1">
+      {conflicts.map(conflict => (
+        <li key={conflict.kind === "report" ? `report-${conflict.report_id}` : `window-${conflict.window_id}`}>
+          {conflict.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Shown under the form while the chosen time doesn't work out, so it can be
+// changed before submitting
+export function ScheduleWarning({
+  errors,
+  conflicts
+}: {
+  errors: TimeRangeError[];
+  conflicts: ScheduleConflict[];
+}) {
+  if (errors.length === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="flex rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-800">
+      <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0" />
+      <div>
+        {errors.length > 0 ? (
+          <ul className="space-y-1">
+            {errors.map(error => <li key={`${error.field}-${error.message}`}>{error.message}</li>)}
+          </ul>
+        ) : (
+          <>
+            <p className="font-medium mb-1">This time has scheduling conflicts</p>
+            <ConflictList conflicts={conflicts} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ScheduleConflictDialogProps {
+  conflict: ScheduleConflictResponse | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks before submitting a report whose time the server found conflicts for
+export default function ScheduleConflictDialog({ conflict, onConfirm, onCancel }: ScheduleConflictDialogProps) {
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={open => !open && onCancel()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Scheduling conflict</AlertDialogTitle>
+          <AlertDialogDescription>
+            The time you picked overlaps with the following. Change the time, or submit anyway.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {conflict && (
+          <div className="max-h-64 overflow-y-auto text-sm text-gray-700">
+            <ConflictList conflicts={conflict.conflicts} />
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Change the time</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Submit anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -3,9 +3,27 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { TpsStatus } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { canWriteFormPath } from "@shared/permissions";
+import { getPdfFieldPath, toPdfFieldValues, fromPdfFieldValues } from "@shared/form-data";
+import { TPS_TEMPLATE, getColumnPdfValues, getColumnValuesFromPdf } from "@shared/form-template";
+import { mergeReportEdits } from "@shared/revisions";
+import {
+  apiRequest,
+  queryClient,
+  ApiError,
+  StaleReportConflict,
+  isStaleReportConflict,
+  ScheduleConflictResponse,
+  isScheduleConflict
+} from "@/lib/queryClient";
+import { fetchReportPdf, savePdfToFile, getTemplatePdfUrl } from "@/lib/pdf";
 import { useLocation } from "wouter";
 import { Check, X, Save, FileDown } from "lucide-react";
+import StaleReportDialog from "@/components/stale-report-dialog";
+import ScheduleConflictDialog, { ScheduleWarning } from "@/components/schedule-conflicts";
+import AutosaveIndicator from "@/components/autosave-indicator";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useScheduleConflicts } from "@/hooks/use-schedule-conflicts";
 
 // Import PDF.js directly
 import * as pdfjsLib from 'pdfjs-dist';
@@ -13,6 +31,16 @@ import * as pdfjsLib from 'pdfjs-dist';
 // Set up PDF.js with fake worker for simplicity
 pdfjsLib.GlobalWorkerOptions.workerSrc = '';
 
+type SubmitType = "save" | "submit" | "approve" | "deny";
+
+// A save the server refused because the partner saved first, kept until
+// the user picks how to resolve it
+interface PendingSave {
+  type: SubmitType;
+  payload: Record<string, any>;
+  base: any;
+}
+
 interface SimplePdfFormProps {
   reportId?: number;
   initialData?: any;
@@ -41,11 +69,51 @@ export default function SimplePdfForm({
   const [isLoading, setIsLoading] = useState(true);
   const [formValues, setFormValues] = useState<Record<string, any>>({});
   const [pdfBytes, setPdfBytes] = useState<Uint8Array | null>(null);
+  
+  // The version being edited. It follows the live report until the user
+  // changes a field, so a partner's save can't wipe their edits; the server
+  // catches the conflict on save instead.
+  const [base, setBase] = useState(initialData);
+  const [isDirty, setIsDirty] = useState(false);
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+  const [conflict, setConflict] = useState<StaleReportConflict | null>(null);
+  const [scheduleConflict, setScheduleConflict] = useState<{ save: PendingSave; response: ScheduleConflictResponse } | null>(null);
+  
+  // The report as the server last confirmed it, which autosaves move ahead
+  // of the version being rendered. New reports get an id on their first save.
+  const savedRef = useRef<any>(initialData);
+  const [savedReportId, setSavedReportId] = useState(reportId);
+  
+  useEffect(() => {
+    if (!isDirty) {
+      setBase(initialData);
+      savedRef.current = initialData;
+    }
+  }, [initialData]);
 
   // Refs for canvas and form overlay
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const formOverlayRef = useRef<HTMLDivElement>(null);
   
+  // Template fields are prefixed with participant names, but form_data is
+  // keyed by role, so map each name to the role it plays in this report
+  const creatorIsUser = mode === "create" || initialData?.creator_id === userId;
+  const participantNames = creatorIsUser
+    ? { creator: userNames.user, receiver: userNames.partner }
+    : { creator: userNames.partner, receiver: userNames.user };
+  
+  // Fields follow the same write masks the server applies, so each
+  // participant can only fill in what's theirs at this stage
+  const canEditField = (fieldName: string) => {
+    if (mode === "view") return false;
+    
+    return canWriteFormPath(
+      getPdfFieldPath(fieldName, participantNames),
+      initialData?.status || TpsStatus.DRAFT,
+      creatorIsUser ? "creator" : "receiver"
+    );
+  };
+  
   // Load and render PDF
   useEffect(() => {
     async function loadAndRenderPdf() {
@@ -54,7 +122,7 @@ export default function SimplePdfForm({
       try {
         // 1. Fetch the PDF template
         console.log('Attempting to load PDF template directly...');
-        const response = await fetch('/api/templates/tps-vanilla');
+        const response = await fetch(getTemplatePdfUrl(base?.template_id));
         
         if (!response.ok) {
           throw new Error(`Failed to fetch PDF template: ${response.status} ${response.statusText}`);
@@ -121,10 +189,12 @@ export default function SimplePdfForm({
         });
         
         // 9. If we have data from a saved report, use that
-        if (initialData?.form_data?.fields) {
-          Object.keys(initialData.form_data.fields).forEach(key => {
-            initialFormValues[key] = initialData.form_data.fields[key];
-          });
+        if (base) {
+          Object.assign(
+            initialFormValues,
+            getColumnPdfValues(base, participantNames),
+            toPdfFieldValues(base.form_data, participantNames)
+          );
         }
         
         setFormValues(initialFormValues);
@@ -141,8 +211,9 @@ export default function SimplePdfForm({
                 ...prev,
                 [fieldName]: value
               }));
+              setIsDirty(true);
             },
-            (mode === "approve") || (mode === "review" && initialData?.status === TpsStatus.PENDING_APPROVAL)
+            (fieldName) => !canEditField(fieldName)
           );
         }
         
@@ -159,7 +230,7 @@ export default function SimplePdfForm({
     }
     
     loadAndRenderPdf();
-  }, [initialData, toast]);
+  }, [base, toast]);
   
   // Function to create interactive form elements overlaid on the canvas
   function createInteractiveFormElements(
@@ -168,7 +239,7 @@ export default function SimplePdfForm({
     fields: any[],
     values: Record<string, any>,
     onChange: (fieldName: string, value: any) => void,
-    readOnly: boolean = false
+    isReadOnly: (fieldName: string) => boolean
   ) {
     // Clear existing elements
     while (container.firstChild) {
@@ -204,6 +275,7 @@ export default function SimplePdfForm({
       
       let element: HTMLElement;
       const currentValue = values[field.name] || field.value || '';
+      const readOnly = isReadOnly(field.name);
       
       switch (field.type) {
         case 'text':
@@ -319,59 +391,73 @@ export default function SimplePdfForm({
     });
   }
   
+  const buildPayload = (status: TpsStatus) => {
+    // Report columns mirror their template fields. New reports fall back to
+    // defaults for anything the PDF left empty.
+    const columnValues = {
+      ...(mode === "create" ? {
+        date: new Date().toISOString().split('T')[0],
+        time_start: "21:30",
+        time_end: "22:00",
+        location: "",
+        sound: "",
+      } : {}),
+      ...getColumnValuesFromPdf(formValues, participantNames)
+    };
+    
+    // Prepare payload with form data
+    return {
+      ...columnValues,
+      status,
+      creator_id: mode === "create" ? userId : initialData?.creator_id,
+      receiver_id: mode === "create" ? partnerId : initialData?.receiver_id,
+      form_data: fromPdfFieldValues(formValues, participantNames, base?.form_data?.metadata)
+    };
+  };
+  
   // Handle form submission
-  const handleSubmit = async (type: "save" | "submit" | "approve" | "deny") => {
+  const handleSubmit = (type: SubmitType) => {
+    // Determine status based on submission type
+    let status;
+    switch (type) {
+      case "save":
+        status = TpsStatus.DRAFT;
+        break;
+      case "submit":
+        status = TpsStatus.PENDING_REVIEW;
+        break;
+      case "approve":
+        status = mode === "review" ? TpsStatus.PENDING_APPROVAL : TpsStatus.COMPLETED;
+        break;
+      case "deny":
+        status = TpsStatus.ABORTED;
+        break;
+    }
+    
+    return sendReport(type, buildPayload(status));
+  };
+  
+  // Without an editBase the save is made on whatever was saved last, once
+  // any autosave still under way has answered
+  const sendReport = async (type: SubmitType, payload: Record<string, any>, editBase?: any) => {
+    let base = editBase;
     setIsSubmitting(true);
     
     try {
-      // Determine status based on submission type
-      let status;
-      switch (type) {
-        case "save":
-          status = TpsStatus.DRAFT;
-          break;
-        case "submit":
-          status = TpsStatus.PENDING_REVIEW;
-          break;
-        case "approve":
-          status = mode === "review" ? TpsStatus.PENDING_APPROVAL : TpsStatus.COMPLETED;
-          break;
-        case "deny":
-          status = TpsStatus.ABORTED;
-          break;
-      }
-      
-      // Prepare minimal metadata
-      const metaValues = {
-        date: new Date().toISOString().split('T')[0],
-        time_start: "21:30",
-        time_end: "22:00",
-      };
-      
-      // Prepare payload with form data
-      const payload = {
-        ...metaValues,
-        status,
-        creator_id: mode === "create" ? userId : initialData?.creator_id,
-        receiver_id: mode === "create" ? partnerId : initialData?.receiver_id,
-        form_data: {
-          fields: formValues,
-          metadata: {
-            matt_notes: initialData?.form_data?.metadata?.matt_notes || "",
-            mina_notes: initialData?.form_data?.metadata?.mina_notes || "",
-          }
-        }
-      };
-      
-      // Make API request
-      let res;
-      if (mode === "create") {
-        res = await apiRequest("POST", "/api/tps-reports", payload);
-      } else {
-        res = await apiRequest("PUT", `/api/tps-reports/${reportId}`, payload);
-      }
+      // Make API request, updates only apply to the version they were made
+      // on. A new report that autosaved already exists.
+      const res = await autosave.run(() => {
+        if (base === undefined) base = savedRef.current;
+        const id = base?.id ?? reportId;
+        return id
+          ? apiRequest("PUT", `/api/tps-reports/${id}`, { ...payload, version: base?.version })
+          : apiRequest("POST", "/api/tps-reports", payload);
+      });
       
       if (res.ok) {
+        savedRef.current = await res.json();
+        setIsDirty(false);
+        
         // Show success message
         toast({
           title: "Success!",
@@ -398,6 +484,17 @@ export default function SimplePdfForm({
         throw new Error(error.message || "Failed to save TPS Report");
       }
     } catch (error: any) {
+      if (error instanceof ApiError && isStaleReportConflict(error.data)) {
+        setPendingSave({ type, payload, base });
+        setConflict(error.data);
+        return;
+      }
+      
+      if (error instanceof ApiError && isScheduleConflict(error.data)) {
+        setScheduleConflict({ save: { type, payload, base }, response: error.data });
+        return;
+      }
+      
       toast({
         title: "Error",
         description: error.message || "Failed to save TPS Report",
@@ -408,23 +505,68 @@ export default function SimplePdfForm({
     }
   };
   
+  // Keep the fields this user changed and take the partner's version of
+  // everything else, then save on top of their version
+  const handleMerge = (staleConflict: StaleReportConflict) => {
+    if (!pendingSave) return;
+    
+    const merged = mergeReportEdits(pendingSave.base, pendingSave.payload, staleConflict.current);
+    setConflict(null);
+    sendReport(pendingSave.type, merged, staleConflict.current);
+  };
+  
+  const handleReload = (staleConflict: StaleReportConflict) => {
+    setConflict(null);
+    setPendingSave(null);
+    setIsDirty(false);
+    setBase(staleConflict.current);
+    savedRef.current = staleConflict.current;
+    queryClient.setQueryData([`/api/tps-reports/${reportId}`], staleConflict.current);
+  };
+  
+  // The user saw the conflicts and wants the time anyway
+  const handleConfirmSchedule = () => {
+    if (!scheduleConflict) return;
+    
+    const { save } = scheduleConflict;
+    setScheduleConflict(null);
+    sendReport(save.type, { ...save.payload, allow_conflicts: true }, save.base);
+  };
+  
+  // Only the creator picks the time, so only they are warned about it
+  const canSchedule = mode === "create" || mode === "edit";
+  const schedule = useScheduleConflicts(
+    canSchedule && !isLoading ? { ...base, ...buildPayload(TpsStatus.DRAFT) } : {},
+    savedReportId,
+    canSchedule && !isLoading
+  );
+  
+  // Drafts save themselves shortly after each edit
+  const isDraft = mode === "create" || (mode === "edit" && base?.status === TpsStatus.DRAFT);
+  const autosave = useAutosave({
+    enabled: isDraft && isDirty && !isSubmitting && !conflict,
+    reportId: savedReportId,
+    changes: formValues,
+    getPayload: () => buildPayload(TpsStatus.DRAFT),
+    getBase: () => savedRef.current,
+    onSaved: report => {
+      savedRef.current = report;
+      setSavedReportId(report.id);
+    },
+    onConflict: (staleConflict, payload) => {
+      setPendingSave({ type: "save", payload, base: savedRef.current });
+      setConflict(staleConflict);
+    }
+  });
+  
   // Handle PDF download
-  const handleDownloadPdf = () => {
+  const handleDownloadPdf = async () => {
     if (!pdfBytes) return;
     
     try {
-      // Create a blob from the PDF data
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      
-      // Create a temporary link to download the file
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `tps_report_${reportId || 'new'}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Saved reports download the filled copy generated on the server
+      const bytes = reportId ? await fetchReportPdf(reportId) : pdfBytes;
+      savePdfToFile(bytes, `tps_report_${reportId || 'new'}.pdf`);
     } catch (error) {
       console.error('Error downloading PDF:', error);
       toast({
@@ -455,6 +597,8 @@ export default function SimplePdfForm({
         return <Badge variant="outline">Completed</Badge>;
       case TpsStatus.ABORTED:
         return <Badge variant="destructive">Aborted</Badge>;
+      case TpsStatus.EXPIRED:
+        return <Badge variant="outline">Expired</Badge>;
       default:
         return null;
     }
@@ -463,8 +607,11 @@ export default function SimplePdfForm({
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="px-4 py-5 sm:px-6 border-b flex justify-between items-center">
-        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v1.2</h3>
-        {getStatusBadge()}
+        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v{initialData?.template_version || TPS_TEMPLATE.version}</h3>
+        <div className="flex items-center space-x-3">
+          {isDraft && <AutosaveIndicator status={autosave.status} />}
+          {getStatusBadge()}
+        </div>
       </div>
       
       <div className="px-4 py-5 sm:px-6">
@@ -485,6 +632,8 @@ export default function SimplePdfForm({
               </div>
             </div>
             
+            <ScheduleWarning errors={schedule.errors} conflicts={schedule.conflicts} />
+            
             {/* Action Buttons */}
             <div className="flex flex-wrap gap-3 justify-end mt-8">
               {/* Download PDF button always available */}
@@ -563,6 +712,23 @@ export default function SimplePdfForm({
           </>
         )}
       </div>
+      
+      {pendingSave && (
+        <StaleReportDialog
+          base={pendingSave.base}
+          conflict={conflict}
+          partnerName={userNames.partner}
+          onMerge={handleMerge}
+          onReload={handleReload}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+      
+      <ScheduleConflictDialog
+        conflict={scheduleConflict?.response ?? null}
+        onConfirm={handleConfirmSchedule}
+        onCancel={() => setScheduleConflict(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
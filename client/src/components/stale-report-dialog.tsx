@@ -0,0 +1,71 @@
+import { TpsReport } from "@shared/schema";
+import { diffSnapshots, getRevisionSnapshot } from "@shared/revisions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChangeList } from "@/components/revision-history";
+import { StaleReportConflict } from "@/lib/queryClient";
+
+interface StaleReportDialogProps {
+  base: TpsReport;
+  conflict: StaleReportConflict | null;
+  partnerName: string;
+  onMerge: (conflict: StaleReportConflict) => void;
+  onReload: (conflict: StaleReportConflict) => void;
+  onCancel: () => void;
+}
+
+// Shown when the partner saved the report while this user was editing it,
+// listing what they changed so the user can decide whose edits to keep
+export default function StaleReportDialog({
+  base,
+  conflict,
+  partnerName,
+  onMerge,
+  onReload,
+  onCancel
+}: StaleReportDialogProps) {
+  const changes = conflict
+    ? diffSnapshots(getRevisionSnapshot(base), getRevisionSnapshot(conflict.current))
+    : [];
+
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={open => !open && onCancel()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{partnerName} changed this report</AlertDialogTitle>
+          <AlertDialogDescription>
+            They saved while you were editing. Merge your edits into their version, or
+            reload their version and discard your edits.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {conflict && (
+          <div className="max-h-64 overflow-y-auto">
+            <ChangeList
+              changes={changes}
+              participantNames={{
+                creator: conflict.current.creator_name,
+                receiver: conflict.current.receiver_name
+              }}
+            />
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => conflict && onReload(conflict)}>
+            Reload their version
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => conflict && onMerge(conflict)}>
+            Merge my edits
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -3,9 +3,24 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { TpsStatus, TpsFormData, PdfFormField } from "@shared/schema";
+import { ParticipantRole } from "@shared/workflow";
+import { canWriteColumn, canWriteFormPath } from "@shared/permissions";
+import { createEmptyFormData } from "@shared/form-data";
+import {
+  TPS_TEMPLATE,
+  TemplateField,
+  TemplateSection,
+  CHECKED_VALUE,
+  getFieldColumn,
+  getOptionColumnValue,
+  isChecked
+} from "@shared/form-template";
 import { 
   loadPdfForm, 
   renderPdfToCanvas, 
@@ -14,11 +29,42 @@ import {
   convertToPdfFormFields,
   createFieldsFromPdfFormData,
   createFilledPdf,
-  savePdfToFile
+  savePdfToFile,
+  getTemplatePdfUrl
 } from "@/lib/pdf";
-import { apiRequest } from "@/lib/queryClient";
+import { mergeReportEdits } from "@shared/revisions";
+import {
+  apiRequest,
+  queryClient,
+  ApiError,
+  StaleReportConflict,
+  isStaleReportConflict,
+  ScheduleConflictResponse,
+  isScheduleConflict
+} from "@/lib/queryClient";
 import { useLocation } from "wouter";
-import { CalendarDays, Clock, Check, X, Save, FilePdf, Download } from "lucide-react";
+import { Check, X, Save, FilePdf, Download } from "lucide-react";
+import StaleReportDialog from "@/components/stale-report-dialog";
+import ScheduleConflictDialog, { ScheduleWarning } from "@/components/schedule-conflicts";
+import AutosaveIndicator from "@/components/autosave-indicator";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useScheduleConflicts } from "@/hooks/use-schedule-conflicts";
+
+// Background colours for the activity groups, in template order
+const GROUP_STYLES = [
+  { box: "bg-indigo-50", heading: "text-indigo-700" },
+  { box: "bg-pink-50", heading: "text-pink-700" },
+  { box: "bg-purple-50", heading: "text-purple-700" }
+];
+
+type SubmitType = "save" | "submit" | "approve" | "deny";
+
+// A save the server refused because the partner saved first
+interface PendingSave {
+  type: SubmitType;
+  payload: Record<string, any>;
+  base: any;
+}
 
 interface TpsFormProps {
   reportId?: number;
@@ -48,6 +94,15 @@ export default function TpsForm({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPdf, setShowPdf] = useState(false);
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+  const [conflict, setConflict] = useState<StaleReportConflict | null>(null);
+  const [scheduleConflict, setScheduleConflict] = useState<{ save: PendingSave; response: ScheduleConflictResponse } | null>(null);
+  
+  // The form starts from the report as it was on mount, so saves are made
+  // against that version. Autosaves move it along, and give a new report
+  // its id.
+  const baseRef = useRef(initialData);
+  const [savedReportId, setSavedReportId] = useState(reportId);
   
   const form = useForm({
     defaultValues: initialData || {
@@ -57,28 +112,7 @@ export default function TpsForm({
       location: "",
       location_other: "",
       sound: "",
-      form_data: {
-        emotional_state: {
-          matt: "",
-          mina: ""
-        },
-        physical_conditions: {
-          matt: [],
-          mina: []
-        },
-        matt_notes: "",
-        mina_notes: "",
-        alterations: [],
-        kids: [],
-        activities: {
-          affection: [],
-          light_intimacy: [],
-          moderate_intimacy: [],
-          intense_intimacy: [],
-          intercourse: []
-        },
-        netflix_show: ""
-      },
+      form_data: createEmptyFormData(),
       creator_notes: "",
       receiver_notes: "",
       creator_initials: "",
@@ -92,7 +126,7 @@ export default function TpsForm({
   useEffect(() => {
     async function loadPdf() {
       try {
-        const pdfBytes = await loadPdfForm('/api/templates/tps-vanilla');
+        const pdfBytes = await loadPdfForm(getTemplatePdfUrl(initialData?.template_id));
         if (canvasRef.current) {
           await renderPdfToCanvas(pdfBytes, canvasRef.current);
           setPdfLoaded(true);
@@ -110,44 +144,51 @@ export default function TpsForm({
     loadPdf();
   }, []);
 
-  const handleSubmit = async (type: "save" | "submit" | "approve" | "deny") => {
+  const buildPayload = (status: TpsStatus) => ({
+    ...form.getValues(),
+    status,
+    creator_id: mode === "create" ? userId : initialData?.creator_id,
+    receiver_id: mode === "create" ? partnerId : initialData?.receiver_id
+  });
+
+  const handleSubmit = (type: SubmitType) => {
+    // Determine status based on submission type
+    let status;
+    switch (type) {
+      case "save":
+        status = TpsStatus.DRAFT;
+        break;
+      case "submit":
+        status = TpsStatus.PENDING_REVIEW;
+        break;
+      case "approve":
+        status = mode === "review" ? TpsStatus.PENDING_APPROVAL : TpsStatus.COMPLETED;
+        break;
+      case "deny":
+        status = TpsStatus.ABORTED;
+        break;
+    }
+    
+    return sendReport(type, buildPayload(status));
+  };
+  
+  // Without an editBase the save is made on whatever was saved last, once
+  // any autosave still under way has answered
+  const sendReport = async (type: SubmitType, payload: Record<string, any>, editBase?: any) => {
+    let base = editBase;
     setIsSubmitting(true);
     try {
-      const formValues = form.getValues();
-      
-      // Determine status based on submission type
-      let status;
-      switch (type) {
-        case "save":
-          status = TpsStatus.DRAFT;
-          break;
-        case "submit":
-          status = TpsStatus.PENDING_REVIEW;
-          break;
-        case "approve":
-          status = mode === "review" ? TpsStatus.PENDING_APPROVAL : TpsStatus.COMPLETED;
-          break;
-        case "deny":
-          status = TpsStatus.ABORTED;
-          break;
-      }
-      
-      const payload = {
-        ...formValues,
-        status,
-        creator_id: mode === "create" ? userId : initialData?.creator_id,
-        receiver_id: mode === "create" ? partnerId : initialData?.receiver_id
-      };
-      
-      let res;
-      if (mode === "create") {
-        res = await apiRequest("POST", "/api/tps-reports", payload);
-      } else {
-        res = await apiRequest("PUT", `/api/tps-reports/${reportId}`, payload);
-      }
+      const res = await autosave.run(() => {
+        if (base === undefined) base = baseRef.current;
+        const id = base?.id ?? reportId;
+        return id
+          ? apiRequest("PUT", `/api/tps-reports/${id}`, { ...payload, version: base?.version })
+          : apiRequest("POST", "/api/tps-reports", payload);
+      });
       
       if (res.ok) {
         const data = await res.json();
+        baseRef.current = data;
         
         toast({
           title: "Success!",
@@ -173,6 +214,17 @@ export default function TpsForm({
         throw new Error(error.message || "Failed to save TPS Report");
       }
     } catch (error: any) {
+      if (error instanceof ApiError && isStaleReportConflict(error.data)) {
+        setPendingSave({ type, payload, base });
+        setConflict(error.data);
+        return;
+      }
+      
+      if (error instanceof ApiError && isScheduleConflict(error.data)) {
+        setScheduleConflict({ save: { type, payload, base }, response: error.data });
+        return;
+      }
+      
       toast({
         title: "Error",
         description: error.message || "Failed to save TPS Report",
@@ -182,11 +234,271 @@ export default function TpsForm({
       setIsSubmitting(false);
     }
   };
+  
+  // Keep the fields this user changed and take the partner's version of
+  // everything else, then save on top of their version
+  const handleMerge = (staleConflict: StaleReportConflict) => {
+    if (!pendingSave) return;
+    
+    const merged = mergeReportEdits(pendingSave.base, pendingSave.payload, staleConflict.current);
+    setConflict(null);
+    sendReport(pendingSave.type, merged, staleConflict.current);
+  };
+  
+  const handleReload = (staleConflict: StaleReportConflict) => {
+    setConflict(null);
+    setPendingSave(null);
+    baseRef.current = staleConflict.current;
+    form.reset(staleConflict.current);
+    queryClient.setQueryData([`/api/tps-reports/${reportId}`], staleConflict.current);
+  };
+
+  // The user saw the conflicts and wants the time anyway
+  const handleConfirmSchedule = () => {
+    if (!scheduleConflict) return;
+    
+    const { save } = scheduleConflict;
+    setScheduleConflict(null);
+    sendReport(save.type, { ...save.payload, allow_conflicts: true }, save.base);
+  };
+
+  // Drafts save themselves shortly after each edit
+  const isDraft = mode === "create" || (mode === "edit" && baseRef.current?.status === TpsStatus.DRAFT);
+  const autosave = useAutosave({
+    enabled: isDraft && form.formState.isDirty && !isSubmitting && !conflict,
+    reportId: savedReportId,
+    changes: JSON.stringify(formData),
+    getPayload: () => buildPayload(TpsStatus.DRAFT),
+    getBase: () => baseRef.current,
+    onSaved: report => {
+      baseRef.current = report;
+      setSavedReportId(report.id);
+    },
+    onConflict: (staleConflict, payload) => {
+      setPendingSave({ type: "save", payload, base: baseRef.current });
+      setConflict(staleConflict);
+    }
+  });
+
+  // Only the creator picks the time, so only they are warned about it
+  const schedule = useScheduleConflicts(
+    { date: formData.date, time_start: formData.time_start, time_end: formData.time_end },
+    savedReportId,
+    mode === "create" || mode === "edit"
+  );
 
   const isCreator = mode === "create" || mode === "approve";
   const isReceiver = mode === "review";
   const isReadOnly = (isCreator && mode === "approve") || (isReceiver && initialData?.status === TpsStatus.PENDING_APPROVAL);
   
+  // One column per participant for the fields each of them fills in
+  const participants: { role: ParticipantRole; name: string }[] = [
+    { role: "creator", name: isCreator ? userNames.user : userNames.partner },
+    { role: "receiver", name: isReceiver ? userNames.user : userNames.partner }
+  ];
+  
+  // Fields follow the same write masks the server applies
+  const status = initialData?.status || TpsStatus.DRAFT;
+  const userRole: ParticipantRole = isCreator ? "creator" : "receiver";
+  
+  // Where a field lives inside form_data, as the server's write masks see it
+  const getFormDataPath = (field: TemplateField, role?: ParticipantRole): string[] =>
+    field.owner === "participant"
+      ? ["participants", role as ParticipantRole, "fields", field.name]
+      : ["fields", field.name];
+  
+  // Fields mirrored to a report column are edited there, everything else
+  // lives in form_data
+  const getFieldPath = (field: TemplateField, role?: ParticipantRole): string => {
+    const column = getFieldColumn(field, role);
+    if (column) return column;
+    return ["form_data", ...getFormDataPath(field, role)].join(".");
+  };
+  
+  const canEditField = (field: TemplateField, role?: ParticipantRole) => {
+    const column = getFieldColumn(field, role);
+    if (column) return canWriteColumn(column, status, userRole);
+    return canWriteFormPath(getFormDataPath(field, role), status, userRole);
+  };
+  
+  const getValue = (field: TemplateField, role?: ParticipantRole) => form.watch(getFieldPath(field, role) as any);
+  const setValue = (field: TemplateField, value: any, role?: ParticipantRole) => {
+    form.setValue(getFieldPath(field, role) as any, value);
+  };
+  
+  const findField = (section: TemplateSection, name?: string) => section.fields.find(f => f.name === name);
+  
+  const renderOtherInput = (section: TemplateSection, field: TemplateField, enabled: boolean) => {
+    const otherField = findField(section, field.otherField);
+    if (!otherField) return null;
+    return (
+      <Input
+        className="w-48 h-8"
+        value={getValue(otherField) || ""}
+        onChange={(e) => setValue(otherField, e.target.value)}
+        disabled={!enabled || !canEditField(otherField)}
+      />
+    );
+  };
+  
+  const renderField = (section: TemplateSection, field: TemplateField, role?: ParticipantRole) => {
+    const id = role ? `${role}_${field.name}` : field.name;
+    const value = getValue(field, role);
+    const disabled = !canEditField(field, role);
+    
+    switch (field.type) {
+      case "radio": {
+        // Columns keep short codes, form_data keeps the PDF export values
+        const column = getFieldColumn(field, role);
+        return (
+          <RadioGroup value={value} onValueChange={(v) => setValue(field, v, role)} disabled={disabled}>
+            <div className="space-y-2">
+              {field.options!.map(option => {
+                const optionValue = column ? getOptionColumnValue(option) : option.value;
+                return (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={optionValue} id={`${id}_${option.value}`} />
+                    <Label htmlFor={`${id}_${option.value}`}>{option.label}</Label>
+                    {option.value === "Other" && renderOtherInput(section, field, value === optionValue)}
+                  </div>
+                );
+              })}
+            </div>
+          </RadioGroup>
+        );
+      }
+      
+      case "checkboxes": {
+        const current: string[] = Array.isArray(value) ? value : value ? [value] : [];
+        return (
+          <div className="space-y-2">
+            {field.options!.map(option => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${id}_${option.value}`}
+                  checked={current.includes(option.value)}
+                  onCheckedChange={(checked) => {
+                    setValue(field, checked
+                      ? [...current, option.value]
+                      : current.filter(v => v !== option.value), role);
+                  }}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${id}_${option.value}`}>{option.label}</Label>
+                {option.value === "Other" && renderOtherInput(section, field, current.includes(option.value))}
+              </div>
+            ))}
+          </div>
+        );
+      }
+      
+      case "checkbox": {
+        const children = section.fields.filter(child => child.parent === field.name);
+        return (
+          <>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={id}
+                checked={isChecked(value)}
+                onCheckedChange={(checked) => setValue(field, checked ? CHECKED_VALUE : false, role)}
+                disabled={disabled}
+              />
+              <Label htmlFor={id}>{field.label}</Label>
+            </div>
+            {isChecked(value) && children.map(child => (
+              <div key={child.name} className="ml-6 mt-1">
+                <Input
+                  placeholder={child.placeholder}
+                  value={getValue(child) || ""}
+                  onChange={(e) => setValue(child, e.target.value)}
+                  disabled={!canEditField(child)}
+                />
+              </div>
+            ))}
+          </>
+        );
+      }
+      
+      case "textarea":
+        return (
+          <Textarea
+            id={id}
+            className="mt-1"
+            value={value || ""}
+            onChange={(e) => setValue(field, e.target.value, role)}
+            disabled={disabled}
+          />
+        );
+      
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type}
+            className="mt-1"
+            placeholder={field.placeholder}
+            value={value || ""}
+            onChange={(e) => setValue(field, e.target.value, role)}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+  
+  // Participant fields get a column per participant, single checkboxes are
+  // listed under their group, everything else is laid out side by side
+  const renderSection = (section: TemplateSection) => {
+    const fields = section.fields.filter(field => !field.parent);
+    const groups = Array.from(new Set(fields.map(field => field.group).filter(Boolean))) as string[];
+    
+    return (
+      <div key={section.id}>
+        <h4 className="text-lg font-medium text-gray-900 mb-4 mt-8">{section.title}</h4>
+        {section.description && (
+          <p className="text-sm text-gray-500 mb-4">{section.description}</p>
+        )}
+        
+        {groups.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {groups.map((group, index) => {
+              const style = GROUP_STYLES[index % GROUP_STYLES.length];
+              return (
+                <div key={group} className={`${style.box} p-4 rounded-lg`}>
+                  <h5 className={`text-sm font-medium ${style.heading} mb-3`}>{group}</h5>
+                  <div className="space-y-2">
+                    {fields.filter(field => field.group === group).map(field => (
+                      <div key={field.name}>{renderField(section, field)}</div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {fields.map(field => (
+              <div key={field.name}>
+                <h5 className="text-sm font-medium text-gray-700 mb-3">{field.label}</h5>
+                {field.owner === "participant" ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    {participants.map(({ role, name }) => (
+                      <div key={role}>
+                        <p className="text-xs font-medium text-gray-500 mb-2">{name}</p>
+                        {renderField(section, field, role)}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  renderField(section, field)
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+  
   const getStatusBadge = () => {
     if (!initialData) return null;
     
@@ -201,6 +513,8 @@ export default function TpsForm({
         return <Badge variant="success">Completed</Badge>;
       case TpsStatus.ABORTED:
         return <Badge variant="danger">Aborted</Badge>;
+      case TpsStatus.EXPIRED:
+        return <Badge variant="outline">Expired</Badge>;
       default:
         return null;
     }
@@ -209,8 +523,11 @@ export default function TpsForm({
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="px-4 py-5 sm:px-6 border-b flex justify-between items-center">
-        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v1.2</h3>
-        {getStatusBadge()}
+        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v{initialData?.template_version || TPS_TEMPLATE.version}</h3>
+        <div className="flex items-center space-x-3">
+          {isDraft && <AutosaveIndicator status={autosave.status} />}
+          {getStatusBadge()}
+        </div>
       </div>
       
       <div className="border-t border-gray-200">
@@ -241,534 +558,9 @@ export default function TpsForm({
           )}
           
           <form className="space-y-6">
-            {/* Form Header */}
-            <div className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="date" className="flex items-center">
-                    <CalendarDays className="h-4 w-4 mr-2" />
-                    Date
-                  </Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    className="mt-1"
-                    {...form.register("date")}
-                    disabled={isReadOnly}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="time_start" className="flex items-center">
-                    <Clock className="h-4 w-4 mr-2" />
-                    Time (Start)
-                  </Label>
-                  <Input
-                    id="time_start"
-                    type="time"
-                    className="mt-1"
-                    {...form.register("time_start")}
-                    disabled={isReadOnly}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="time_end" className="flex items-center">
-                    <Clock className="h-4 w-4 mr-2" />
-                    Time (Estimated End)
-                  </Label>
-                  <Input
-                    id="time_end"
-                    type="time"
-                    className="mt-1"
-                    {...form.register("time_end")}
-                    disabled={isReadOnly}
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Emotional and Physical Check-In */}
-            <div>
-              <h4 className="text-lg font-medium text-gray-900 mb-4">1) Emotional and Physical Check-In</h4>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Emotional State */}
-                <div>
-                  <h5 className="text-sm font-medium text-gray-700 mb-3">Emotional State</h5>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <p className="text-xs font-medium text-gray-500 mb-2">Matt</p>
-                      <RadioGroup 
-                        value={formData.form_data?.emotional_state?.matt} 
-                        onValueChange={(value) => {
-                          form.setValue("form_data.emotional_state.matt", value);
-                        }}
-                        disabled={!isCreator || isReadOnly}
-                      >
-                        <div className="space-y-2">
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="calm" id="matt_emotional_calm" />
-                            <Label htmlFor="matt_emotional_calm">Calm or relaxed</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="anxious" id="matt_emotional_anxious" />
-                            <Label htmlFor="matt_emotional_anxious">Anxious or nervous</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="curious" id="matt_emotional_curious" />
-                            <Label htmlFor="matt_emotional_curious">Curious or open</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="not" id="matt_emotional_not" />
-                            <Label htmlFor="matt_emotional_not">Not into this</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="other" id="matt_emotional_other" />
-                            <Label htmlFor="matt_emotional_other">Other (explain below)</Label>
-                          </div>
-                        </div>
-                      </RadioGroup>
-                    </div>
-                    
-                    <div>
-                      <p className="text-xs font-medium text-gray-500 mb-2">Mina</p>
-                      <RadioGroup 
-                        value={formData.form_data?.emotional_state?.mina} 
-                        onValueChange={(value) => {
-                          form.setValue("form_data.emotional_state.mina", value);
-                        }}
-                        disabled={!isReceiver || isReadOnly}
-                      >
-                        <div className="space-y-2">
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="calm" id="mina_emotional_calm" />
-                            <Label htmlFor="mina_emotional_calm">Calm or relaxed</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="anxious" id="mina_emotional_anxious" />
-                            <Label htmlFor="mina_emotional_anxious">Anxious or nervous</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="curious" id="mina_emotional_curious" />
-                            <Label htmlFor="mina_emotional_curious">Curious or open</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="not" id="mina_emotional_not" />
-                            <Label htmlFor="mina_emotional_not">Not into this</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="other" id="mina_emotional_other" />
-                            <Label htmlFor="mina_emotional_other">Other (explain below)</Label>
-                          </div>
-                        </div>
-                      </RadioGroup>
-                    </div>
-                  </div>
-                  
-                  <div className="mt-4">
-                    <Label htmlFor="matt_notes" className="block text-sm font-medium text-gray-700">
-                      Matt's Notes
-                    </Label>
-                    <Textarea
-                      id="matt_notes"
-                      className="mt-1"
-                      {...form.register("form_data.matt_notes")}
-                      disabled={!isCreator || isReadOnly}
-                    />
-                  </div>
-                  
-                  <div className="mt-4">
-                    <Label htmlFor="mina_notes" className="block text-sm font-medium text-gray-700">
-                      Mina's Notes
-                    </Label>
-                    <Textarea
-                      id="mina_notes"
-                      className="mt-1"
-                      {...form.register("form_data.mina_notes")}
-                      disabled={!isReceiver || isReadOnly}
-                    />
-                  </div>
-                </div>
+            {TPS_TEMPLATE.sections.map(renderSection)}
 
-                {/* Physical Conditions */}
-                <div>
-                  <h5 className="text-sm font-medium text-gray-700 mb-3">Physical Conditions</h5>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <p className="text-xs font-medium text-gray-500 mb-2">Matt</p>
-                      <div className="space-y-2">
-                        {["good", "fatigue", "headache", "hormonal", "sensitivities"].map((condition) => (
-                          <div key={condition} className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`matt_physical_${condition}`}
-                              checked={formData.form_data?.physical_conditions?.matt?.includes(condition)}
-                              onCheckedChange={(checked) => {
-                                const current = formData.form_data?.physical_conditions?.matt || [];
-                                const updated = checked
-                                  ? [...current, condition]
-                                  : current.filter(c => c !== condition);
-                                form.setValue("form_data.physical_conditions.matt", updated);
-                              }}
-                              disabled={!isCreator || isReadOnly}
-                            />
-                            <Label htmlFor={`matt_physical_${condition}`}>
-                              {condition === "good" ? "I'm good" :
-                               condition === "fatigue" ? "Fatigue" :
-                               condition === "headache" ? "Headache" :
-                               condition === "hormonal" ? "Hormonal changes" :
-                               "Sensitivities (explain in notes)"}
-                            </Label>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                    
-                    <div>
-                      <p className="text-xs font-medium text-gray-500 mb-2">Mina</p>
-                      <div className="space-y-2">
-                        {["good", "fatigue", "headache", "hormonal", "sensitivities"].map((condition) => (
-                          <div key={condition} className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`mina_physical_${condition}`}
-                              checked={formData.form_data?.physical_conditions?.mina?.includes(condition)}
-                              onCheckedChange={(checked) => {
-                                const current = formData.form_data?.physical_conditions?.mina || [];
-                                const updated = checked
-                                  ? [...current, condition]
-                                  : current.filter(c => c !== condition);
-                                form.setValue("form_data.physical_conditions.mina", updated);
-                              }}
-                              disabled={!isReceiver || isReadOnly}
-                            />
-                            <Label htmlFor={`mina_physical_${condition}`}>
-                              {condition === "good" ? "I'm good" :
-                               condition === "fatigue" ? "Fatigue" :
-                               condition === "headache" ? "Headache" :
-                               condition === "hormonal" ? "Hormonal changes" :
-                               "Sensitivities (explain in notes)"}
-                            </Label>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            {/* Setting and Atmosphere */}
-            <div>
-              <h4 className="text-lg font-medium text-gray-900 mb-4 mt-8">2) Setting and Atmosphere</h4>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Location */}
-                <div>
-                  <h5 className="text-sm font-medium text-gray-700 mb-3">Location</h5>
-                  <RadioGroup 
-                    value={formData.location} 
-                    onValueChange={(value) => {
-                      form.setValue("location", value);
-                    }}
-                    disabled={isReadOnly}
-                  >
-                    <div className="space-y-3">
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="master" id="location_master" />
-                        <Label htmlFor="location_master">Master bedroom</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="basement" id="location_basement" />
-                        <Label htmlFor="location_basement">Basement</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="other" id="location_other" />
-                        <Label htmlFor="location_other">Other:</Label>
-                        <Input
-                          className="w-48 h-8"
-                          value={formData.location_other || ""}
-                          onChange={(e) => form.setValue("location_other", e.target.value)}
-                          disabled={formData.location !== "other" || isReadOnly}
-                        />
-                      </div>
-                    </div>
-                  </RadioGroup>
-                </div>
-
-                {/* Sound */}
-                <div>
-                  <h5 className="text-sm font-medium text-gray-700 mb-3">Sound</h5>
-                  <RadioGroup 
-                    value={formData.sound} 
-                    onValueChange={(value) => {
-                      form.setValue("sound", value);
-                    }}
-                    disabled={isReadOnly}
-                  >
-                    <div className="space-y-3">
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="quiet" id="sound_quiet" />
-                        <Label htmlFor="sound_quiet">No music, quiet</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="soft" id="sound_soft" />
-                        <Label htmlFor="sound_soft">Soft background music</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="white" id="sound_white" />
-                        <Label htmlFor="sound_white">White noise / ambient</Label>
-                      </div>
-                    </div>
-                  </RadioGroup>
-                </div>
-
-                {/* Alterations */}
-                <div>
-                  <h5 className="text-sm font-medium text-gray-700 mb-3">Alterations</h5>
-                  <div className="space-y-2">
-                    {["drinks", "sober"].map((alteration) => (
-                      <div key={alteration} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`alterations_${alteration}`}
-                          checked={formData.form_data?.alterations?.includes(alteration)}
-                          onCheckedChange={(checked) => {
-                            const current = formData.form_data?.alterations || [];
-                            const updated = checked
-                              ? [...current, alteration]
-                              : current.filter(a => a !== alteration);
-                            form.setValue("form_data.alterations", updated);
-                          }}
-                          disabled={isReadOnly}
-                        />
-                        <Label htmlFor={`alterations_${alteration}`}>
-                          {alteration === "drinks" ? "Drinks" : "Sober (no weed)"}
-                        </Label>
-                      </div>
-                    ))}
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="alterations_other"
-                        checked={formData.form_data?.alterations?.includes("other")}
-                        onCheckedChange={(checked) => {
-                          const current = formData.form_data?.alterations || [];
-                          const updated = checked
-                            ? [...current, "other"]
-                            : current.filter(a => a !== "other");
-                          form.setValue("form_data.alterations", updated);
-                        }}
-                        disabled={isReadOnly}
-                      />
-                      <Label htmlFor="alterations_other">Other:</Label>
-                      <Input
-                        className="w-48 h-8"
-                        value={formData.form_data?.alterations_other || ""}
-                        onChange={(e) => form.setValue("form_data.alterations_other", e.target.value)}
-                        disabled={!formData.form_data?.alterations?.includes("other") || isReadOnly}
-                      />
-                    </div>
-                  </div>
-                </div>
-
-                {/* Kids */}
-                <div>
-                  <h5 className="text-sm font-medium text-gray-700 mb-3">Kids</h5>
-                  <div className="space-y-2">
-                    {["asleep", "movie"].map((kidStatus) => (
-                      <div key={kidStatus} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`kids_${kidStatus}`}
-                          checked={formData.form_data?.kids?.includes(kidStatus)}
-                          onCheckedChange={(checked) => {
-                            const current = formData.form_data?.kids || [];
-                            const updated = checked
-                              ? [...current, kidStatus]
-                              : current.filter(k => k !== kidStatus);
-                            form.setValue("form_data.kids", updated);
-                          }}
-                          disabled={isReadOnly}
-                        />
-                        <Label htmlFor={`kids_${kidStatus}`}>
-                          {kidStatus === "asleep" ? "Asleep" : "Watching a movie"}
-                        </Label>
-                      </div>
-                    ))}
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="kids_other"
-                        checked={formData.form_data?.kids?.includes("other")}
-                        onCheckedChange={(checked) => {
-                          const current = formData.form_data?.kids || [];
-                          const updated = checked
-                            ? [...current, "other"]
-                            : current.filter(k => k !== "other");
-                          form.setValue("form_data.kids", updated);
-                        }}
-                        disabled={isReadOnly}
-                      />
-                      <Label htmlFor="kids_other">Other:</Label>
-                      <Input
-                        className="w-48 h-8"
-                        value={formData.form_data?.kids_other || ""}
-                        onChange={(e) => form.setValue("form_data.kids_other", e.target.value)}
-                        disabled={!formData.form_data?.kids?.includes("other") || isReadOnly}
-                      />
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            {/* Levels of Physical Contact */}
-            <div>
-              <h4 className="text-lg font-medium text-gray-900 mb-4 mt-8">3) Levels of Physical Contact</h4>
-              <p className="text-sm text-gray-500 mb-4">
-                Check the box next to activities you feel like doing. Cross out checked suggestions you are uncomfortable with, if any.
-              </p>
-              
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {/* Affection */}
-                <div className="bg-indigo-50 p-4 rounded-lg">
-                  <h5 className="text-sm font-medium text-indigo-700 mb-3">Affection</h5>
-                  <div className="space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="affection_netflix"
-                        checked={formData.form_data?.activities?.affection?.includes("netflix")}
-                        onCheckedChange={(checked) => {
-                          const current = formData.form_data?.activities?.affection || [];
-                          const updated = checked
-                            ? [...current, "netflix"]
-                            : current.filter(a => a !== "netflix");
-                          form.setValue("form_data.activities.affection", updated);
-                        }}
-                        disabled={isReadOnly}
-                      />
-                      <Label htmlFor="affection_netflix">Netflix and Chill™</Label>
-                    </div>
-                    {formData.form_data?.activities?.affection?.includes("netflix") && (
-                      <div className="ml-6 mt-1">
-                        <Input
-                          placeholder="Show: (Optional)"
-                          value={formData.form_data?.netflix_show || ""}
-                          onChange={(e) => form.setValue("form_data.netflix_show", e.target.value)}
-                          disabled={isReadOnly}
-                        />
-                      </div>
-                    )}
-                    
-                    {["hands", "hug", "hair"].map((activity) => (
-                      <div key={activity} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`affection_${activity}`}
-                          checked={formData.form_data?.activities?.affection?.includes(activity)}
-                          onCheckedChange={(checked) => {
-                            const current = formData.form_data?.activities?.affection || [];
-                            const updated = checked
-                              ? [...current, activity]
-                              : current.filter(a => a !== activity);
-                            form.setValue("form_data.activities.affection", updated);
-                          }}
-                          disabled={isReadOnly}
-                        />
-                        <Label htmlFor={`affection_${activity}`}>
-                          {activity === "hands" ? "Hold hands for a little bit" : 
-                           activity === "hug" ? "Squeeze hug" : "Brush hair"}
-                        </Label>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Light Intimacy */}
-                <div className="bg-pink-50 p-4 rounded-lg">
-                  <h5 className="text-sm font-medium text-pink-700 mb-3">Light Intimacy</h5>
-                  <div className="space-y-2">
-                    {["massage", "cuddle", "kisses"].map((activity) => (
-                      <div key={activity} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`light_${activity}`}
-                          checked={formData.form_data?.activities?.light_intimacy?.includes(activity)}
-                          onCheckedChange={(checked) => {
-                            const current = formData.form_data?.activities?.light_intimacy || [];
-                            const updated = checked
-                              ? [...current, activity]
-                              : current.filter(a => a !== activity);
-                            form.setValue("form_data.activities.light_intimacy", updated);
-                          }}
-                          disabled={isReadOnly}
-                        />
-                        <Label htmlFor={`light_${activity}`}>
-                          {activity === "massage" ? "Back massage" : 
-                           activity === "cuddle" ? "Cuddle on the couch" : "Light kisses"}
-                        </Label>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Moderate Intimacy */}
-                <div className="bg-purple-50 p-4 rounded-lg">
-                  <h5 className="text-sm font-medium text-purple-700 mb-3">Moderate Intimacy</h5>
-                  <div className="space-y-2">
-                    {["deep", "touch"].map((activity) => (
-                      <div key={activity} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`moderate_${activity}`}
-                          checked={formData.form_data?.activities?.moderate_intimacy?.includes(activity)}
-                          onCheckedChange={(checked) => {
-                            const current = formData.form_data?.activities?.moderate_intimacy || [];
-                            const updated = checked
-                              ? [...current, activity]
-                              : current.filter(a => a !== activity);
-                            form.setValue("form_data.activities.moderate_intimacy", updated);
-                          }}
-                          disabled={isReadOnly}
-                        />
-                        <Label htmlFor={`moderate_${activity}`}>
-                          {activity === "deep" ? "Deep kissing" : "Above-clothes touching"}
-                        </Label>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            {/* Initials Section */}
-            <div className="mt-8 border-t pt-6">
-              <h5 className="text-sm font-medium text-gray-700 mb-3">Initials</h5>
-              <p className="text-xs text-gray-500 mb-4">
-                By initialing below, we agree that this reflects our understanding and comfort levels for the upcoming intimate encounter. 
-                We acknowledge that consent can be withdrawn at any time, and that this form is a starting point for discussion, not a binding contract. 
-                We acknowledge that only the items checked will be attempted. The purpose of this form is to ensure mutual respect, safety, and pleasure, 
-                and is actually serious and not a joke.
-              </p>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <Label htmlFor="matt_initials" className="block text-sm font-medium text-gray-700">
-                    Matt
-                  </Label>
-                  <Input
-                    id="matt_initials"
-                    placeholder="Initials"
-                    {...form.register("creator_initials")}
-                    disabled={!isCreator || (mode === "create")}
-                    className="mt-1 w-40"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="mina_initials" className="block text-sm font-medium text-gray-700">
-                    Mina
-                  </Label>
-                  <Input
-                    id="mina_initials"
-                    placeholder="Initials"
-                    {...form.register("receiver_initials")}
-                    disabled={!isReceiver || (mode === "create")}
-                    className="mt-1 w-40"
-                  />
-                </div>
-              </div>
-            </div>
+            <ScheduleWarning errors={schedule.errors} conflicts={schedule.conflicts} />
 
             {/* Action Buttons */}
             <div className="mt-8 flex justify-end space-x-3">
@@ -842,6 +634,23 @@ export default function TpsForm({
           </form>
         </div>
       </div>
+      
+      {pendingSave && (
+        <StaleReportDialog
+          base={pendingSave.base}
+          conflict={conflict}
+          partnerName={userNames.partner}
+          onMerge={handleMerge}
+          onReload={handleReload}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+      
+      <ScheduleConflictDialog
+        conflict={scheduleConflict?.response ?? null}
+        onConfirm={handleConfirmSchedule}
+        onCancel={() => setScheduleConflict(null)}
+      />
     </div>
   );
 }
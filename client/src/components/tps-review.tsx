@@ -5,12 +5,23 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import CounterRounds from "@/components/counter-rounds";
+import RepeatReportDialog from "@/components/repeat-report-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { TpsStatus } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient, ApiError, isStaleReportConflict } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { formatDate, formatTimeRange, getStatusBadgeColor } from "@/lib/utils";
-import { Check, X } from "lucide-react";
+import { Check, X, Undo2, Repeat } from "lucide-react";
+import { ParticipantRole, MAX_COUNTER_ROUNDS, isFinalStatus } from "@shared/workflow";
+import { TPS_TEMPLATE, getTemplateField, getFieldValue, getOptionLabel, getSelectedLabels, isChecked } from "@shared/form-template";
+
+const emotionalStateField = getTemplateField("EmotionalState")!;
+const notesField = getTemplateField("Notes")!;
+const locationField = getTemplateField("Location")!;
+const soundField = getTemplateField("Sound")!;
+const activityFields = TPS_TEMPLATE.sections.find(section => section.id === "activities")!.fields;
 
 interface TpsReviewProps {
   report: any;
@@ -33,6 +44,12 @@ export default function TpsReview({
   const [emotionalState, setEmotionalState] = useState("");
   const [notes, setNotes] = useState("");
   const [initials, setInitials] = useState("");
+  const [isCountering, setIsCountering] = useState(false);
+  const [struck, setStruck] = useState<string[]>([]);
+  const [counterTimeStart, setCounterTimeStart] = useState(report.time_start || "");
+  const [counterTimeEnd, setCounterTimeEnd] = useState(report.time_end || "");
+  const [counterNote, setCounterNote] = useState("");
+  const [showRepeat, setShowRepeat] = useState(false);
   
   const statusColors = getStatusBadgeColor(report.status);
   
@@ -50,6 +67,9 @@ export default function TpsReview({
     case TpsStatus.ABORTED:
       statusLabel = "Aborted";
       break;
+    case TpsStatus.EXPIRED:
+      statusLabel = "Expired";
+      break;
     default:
       statusLabel = report.status;
   }
@@ -83,26 +103,16 @@ export default function TpsReview({
         // If receiver is approving/denying
         updatedReport.receiver_initials = initials;
         
-        if (emotionalState) {
-          if (!updatedReport.form_data.emotional_state) {
-            updatedReport.form_data.emotional_state = {};
-          }
-          
-          // If Matt is the receiver
-          if (username.toLowerCase() === "matt") {
-            updatedReport.form_data.emotional_state.matt = emotionalState;
-          } else {
-            updatedReport.form_data.emotional_state.mina = emotionalState;
-          }
-        }
+        // The receiver's answers live in their own part of the form data
+        const formData = JSON.parse(JSON.stringify(report.form_data || {}));
+        formData.participants = formData.participants || {};
+        const receiverFields = formData.participants.receiver?.fields || {};
         
-        if (notes) {
-          if (username.toLowerCase() === "matt") {
-            updatedReport.form_data.matt_notes = notes;
-          } else {
-            updatedReport.form_data.mina_notes = notes;
-          }
-        }
+        if (emotionalState) receiverFields[emotionalStateField.name] = emotionalState;
+        if (notes) receiverFields[notesField.name] = notes;
+        
+        formData.participants.receiver = { fields: receiverFields };
+        updatedReport.form_data = formData;
         
         if (action === "approve") {
           updatedReport.status = TpsStatus.PENDING_APPROVAL;
@@ -135,6 +145,8 @@ export default function TpsReview({
         throw new Error(error.message || "Failed to update TPS Report");
       }
     } catch (error: any) {
+      if (showIfStale(error)) return;
+      
       toast({
         title: "Error",
         description: error.message || "Failed to update TPS Report",
@@ -145,6 +157,88 @@ export default function TpsReview({
     }
   };
   
+  // The summary shows the live report, so a stale save just swaps in the
+  // partner's version for the user to look over before trying again
+  const showIfStale = (error: any): boolean => {
+    if (!(error instanceof ApiError) || !isStaleReportConflict(error.data)) return false;
+    
+    queryClient.setQueryData([`/api/tps-reports/${report.id}`], error.data.current);
+    toast({
+      title: "Report Changed",
+      description: `${partnerName} changed this report in the meantime. Check their version and try again.`,
+      variant: "destructive"
+    });
+    return true;
+  };
+  
+  // Sends the report back to the receiver with the struck activities
+  // unchecked, any new times, and a note on why
+  const sendCounter = async () => {
+    if (!counterNote.trim()) {
+      toast({
+        title: "Note Required",
+        description: `Let ${partnerName} know why you're suggesting these changes`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setIsSubmitting(true);
+    
+    try {
+      const formData = JSON.parse(JSON.stringify(report.form_data || {}));
+      formData.fields = formData.fields || {};
+      struck.forEach(name => {
+        formData.fields[name] = false;
+        activityFields
+          .filter(field => field.parent === name)
+          .forEach(field => delete formData.fields[field.name]);
+      });
+      
+      const res = await apiRequest("POST", `/api/tps-reports/${report.id}/counter`, {
+        form_data: formData,
+        time_start: counterTimeStart,
+        time_end: counterTimeEnd,
+        note: counterNote,
+        version: report.version
+      });
+      
+      if (res.ok) {
+        toast({
+          title: "Counter-Proposal Sent",
+          description: `${partnerName} will review your changes`
+        });
+        
+        setIsCountering(false);
+        setStruck([]);
+        setCounterNote("");
+        
+        if (onSuccessAction) {
+          onSuccessAction();
+        } else {
+          setLocation("/");
+        }
+      } else {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to send counter-proposal");
+      }
+    } catch (error: any) {
+      if (showIfStale(error)) return;
+      
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send counter-proposal",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  const toggleStruck = (name: string, checked: boolean) => {
+    setStruck(current => checked ? [...current, name] : current.filter(n => n !== name));
+  };
+  
   const replicateReport = async () => {
     setIsSubmitting(true);
     
@@ -178,65 +272,57 @@ export default function TpsReview({
   
   const needsReview = report.status === TpsStatus.PENDING_REVIEW && !isCreator;
   const needsApproval = report.status === TpsStatus.PENDING_APPROVAL && isCreator;
-  const canReplicate = report.status === TpsStatus.COMPLETED || report.status === TpsStatus.ABORTED;
+  const canReplicate = isFinalStatus(report.status);
+  const counterRoundsLeft = MAX_COUNTER_ROUNDS - (report.counter_round || 0);
+  const canCounter = needsApproval && counterRoundsLeft > 0;
+  const checkedActivities = activityFields.filter(field =>
+    field.type === "checkbox" && !field.parent && isChecked(getFieldValue(report.form_data, field))
+  );
   
   const renderActivities = () => {
-    const activities = [];
-    
-    const formData = report.form_data;
-    if (!formData || !formData.activities) return null;
-    
-    if (formData.activities.affection?.includes("netflix")) {
-      activities.push(`Netflix and Chill™${formData.netflix_show ? ` (show: ${formData.netflix_show})` : ''}`);
-    }
-    
-    if (formData.activities.affection?.includes("hands")) {
-      activities.push("Hold hands for a little bit");
-    }
-    
-    if (formData.activities.affection?.includes("hug")) {
-      activities.push("Squeeze hug");
-    }
-    
-    if (formData.activities.affection?.includes("hair")) {
-      activities.push("Brush hair");
-    }
-    
-    if (formData.activities.light_intimacy?.includes("massage")) {
-      activities.push("Back massage");
-    }
-    
-    if (formData.activities.light_intimacy?.includes("cuddle")) {
-      activities.push("Cuddle on the couch");
-    }
-    
-    if (formData.activities.light_intimacy?.includes("kisses")) {
-      activities.push("Light kisses");
-    }
-    
-    if (formData.activities.moderate_intimacy?.includes("deep")) {
-      activities.push("Deep kissing");
-    }
-    
-    if (formData.activities.moderate_intimacy?.includes("touch")) {
-      activities.push("Above-clothes touching");
-    }
+    const activities = getSelectedLabels(report.form_data, "activities");
     
     if (activities.length === 0) return <p className="text-sm text-gray-500">No activities selected</p>;
     
     return (
       <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
         {activities.map((activity, index) => (
-          <li key={index}>{activity}</li>
+          <li key={index}>{activity.label}</li>
         ))}
       </ul>
     );
   };
   
+  const renderParticipantState = (role: ParticipantRole, name: string) => {
+    const state = getFieldValue(report.form_data, emotionalStateField, role);
+    const notes = getFieldValue(report.form_data, notesField, role);
+    
+    return (
+      <div>
+        <p className="text-sm font-medium text-gray-500">
+          {name}: 
+          <span className="text-gray-900 ml-1">
+            {state
+              ? getOptionLabel(emotionalStateField, state)
+              : role === "receiver" && needsReview
+              ? <span className="italic">To be filled during review</span>
+              : <span className="italic">Not specified</span>
+            }
+          </span>
+        </p>
+        {notes ? (
+          <p className="text-sm text-gray-900 mt-1">
+            Notes: {notes}
+          </p>
+        ) : null}
+      </div>
+    );
+  };
+  
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="px-4 py-5 sm:px-6 border-b flex justify-between items-center">
-        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v1.2</h3>
+        <h3 className="text-lg leading-6 font-medium text-gray-900">TPS Report v{report.template_version || TPS_TEMPLATE.version}</h3>
         <Badge className={`${statusColors.bgColor} ${statusColors.textColor}`}>
           {statusLabel}
         </Badge>
@@ -251,7 +337,9 @@ export default function TpsReview({
               </h4>
               <p className="mt-1 text-sm text-gray-500">
                 {(needsReview || needsApproval) 
-                  ? "Please review the details and approve or deny this request" 
+                  ? needsApproval && canCounter
+                    ? "Please review the details and approve, counter or deny this request"
+                    : "Please review the details and approve or deny this request"
                   : `This report is ${report.status.toLowerCase()}`}
               </p>
             </div>
@@ -274,19 +362,15 @@ export default function TpsReview({
               <div className="sm:col-span-1">
                 <dt className="text-sm font-medium text-gray-500">Location</dt>
                 <dd className="mt-1 text-sm text-gray-900">
-                  {report.location === "master" ? "Master bedroom" : 
-                   report.location === "basement" ? "Basement" : 
-                   report.location === "other" ? `Other: ${report.location_other}` : 
-                   report.location}
+                  {report.location === "other"
+                    ? `Other: ${report.location_other}`
+                    : getOptionLabel(locationField, report.location)}
                 </dd>
               </div>
               <div className="sm:col-span-1">
                 <dt className="text-sm font-medium text-gray-500">Sound</dt>
                 <dd className="mt-1 text-sm text-gray-900">
-                  {report.sound === "quiet" ? "No music, quiet" : 
-                   report.sound === "soft" ? "Soft background music" : 
-                   report.sound === "white" ? "White noise / ambient" : 
-                   report.sound}
+                  {getOptionLabel(soundField, report.sound)}
                 </dd>
               </div>
             </dl>
@@ -295,62 +379,8 @@ export default function TpsReview({
           <div className="mb-6">
             <h5 className="font-medium text-gray-700 mb-2">Emotional State</h5>
             <div className="grid grid-cols-1 gap-y-6 sm:grid-cols-2">
-              <div>
-                <p className="text-sm font-medium text-gray-500">
-                  {report.creator_name}: 
-                  <span className="text-gray-900 ml-1">
-                    {report.form_data?.emotional_state?.matt && report.creator_name === "Matt" 
-                      ? (report.form_data.emotional_state.matt === "calm" ? "Calm or relaxed" :
-                         report.form_data.emotional_state.matt === "anxious" ? "Anxious or nervous" :
-                         report.form_data.emotional_state.matt === "curious" ? "Curious or open" :
-                         report.form_data.emotional_state.matt === "not" ? "Not into this" :
-                         report.form_data.emotional_state.matt === "other" ? "Other" : "")
-                      : report.form_data?.emotional_state?.mina && report.creator_name === "Mina"
-                      ? (report.form_data.emotional_state.mina === "calm" ? "Calm or relaxed" :
-                         report.form_data.emotional_state.mina === "anxious" ? "Anxious or nervous" :
-                         report.form_data.emotional_state.mina === "curious" ? "Curious or open" :
-                         report.form_data.emotional_state.mina === "not" ? "Not into this" :
-                         report.form_data.emotional_state.mina === "other" ? "Other" : "")
-                      : <span className="italic">Not specified</span>
-                    }
-                  </span>
-                </p>
-                {(report.form_data?.matt_notes && report.creator_name === "Matt") || 
-                 (report.form_data?.mina_notes && report.creator_name === "Mina") ? (
-                  <p className="text-sm text-gray-900 mt-1">
-                    Notes: {report.creator_name === "Matt" ? report.form_data.matt_notes : report.form_data.mina_notes}
-                  </p>
-                ) : null}
-              </div>
-              <div>
-                <p className="text-sm font-medium text-gray-500">
-                  {report.receiver_name}: 
-                  <span className="text-gray-900 ml-1">
-                    {report.form_data?.emotional_state?.matt && report.receiver_name === "Matt" 
-                      ? (report.form_data.emotional_state.matt === "calm" ? "Calm or relaxed" :
-                         report.form_data.emotional_state.matt === "anxious" ? "Anxious or nervous" :
-                         report.form_data.emotional_state.matt === "curious" ? "Curious or open" :
-                         report.form_data.emotional_state.matt === "not" ? "Not into this" :
-                         report.form_data.emotional_state.matt === "other" ? "Other" : "")
-                      : report.form_data?.emotional_state?.mina && report.receiver_name === "Mina"
-                      ? (report.form_data.emotional_state.mina === "calm" ? "Calm or relaxed" :
-                         report.form_data.emotional_state.mina === "anxious" ? "Anxious or nervous" :
-                         report.form_data.emotional_state.mina === "curious" ? "Curious or open" :
-                         report.form_data.emotional_state.mina === "not" ? "Not into this" :
-                         report.form_data.emotional_state.mina === "other" ? "Other" : "")
-                      : needsReview
-                      ? <span className="italic">To be filled during review</span>
-                      : <span className="italic">Not specified</span>
-                    }
-                  </span>
-                </p>
-                {(report.form_data?.matt_notes && report.receiver_name === "Matt") || 
-                 (report.form_data?.mina_notes && report.receiver_name === "Mina") ? (
-                  <p className="text-sm text-gray-900 mt-1">
-                    Notes: {report.receiver_name === "Matt" ? report.form_data.matt_notes : report.form_data.mina_notes}
-                  </p>
-                ) : null}
-              </div>
+              {renderParticipantState("creator", report.creator_name)}
+              {renderParticipantState("receiver", report.receiver_name)}
             </div>
           </div>
           
@@ -359,8 +389,114 @@ export default function TpsReview({
             {renderActivities()}
           </div>
           
+          <CounterRounds
+            reportId={report.id}
+            participantNames={{ creator: report.creator_name, receiver: report.receiver_name }}
+          />
+          
+          {/* Counter-Proposal Section */}
+          {isCountering && canCounter && (
+            <div className="mt-8 border-t pt-6">
+              <h5 className="font-medium text-gray-700 mb-1">Counter-Proposal</h5>
+              <p className="text-sm text-gray-500 mb-4">
+                Strike anything you'd rather skip or change the time, and {partnerName} will review it again.
+                {" "}{counterRoundsLeft === 1
+                  ? "This is the last counter-proposal for this report."
+                  : `${counterRoundsLeft} counter-proposals left for this report.`}
+              </p>
+              
+              <div className="bg-gray-50 p-4 rounded-lg mb-6">
+                <div className="mb-4">
+                  <Label className="block text-sm font-medium text-gray-700 mb-2">
+                    Strike Activities
+                  </Label>
+                  {checkedActivities.length === 0 ? (
+                    <p className="text-sm text-gray-500">No activities selected</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {checkedActivities.map(field => (
+                        <div key={field.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`strike_${field.name}`}
+                            checked={struck.includes(field.name)}
+                            onCheckedChange={(checked) => toggleStruck(field.name, checked === true)}
+                          />
+                          <Label
+                            htmlFor={`strike_${field.name}`}
+                            className={struck.includes(field.name) ? "line-through text-gray-400" : ""}
+                          >
+                            {field.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                
+                <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="counter_time_start" className="block text-sm font-medium text-gray-700">
+                      Time (Start)
+                    </Label>
+                    <Input
+                      id="counter_time_start"
+                      type="time"
+                      value={counterTimeStart}
+                      onChange={(e) => setCounterTimeStart(e.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="counter_time_end" className="block text-sm font-medium text-gray-700">
+                      Time (End)
+                    </Label>
+                    <Input
+                      id="counter_time_end"
+                      type="time"
+                      value={counterTimeEnd}
+                      onChange={(e) => setCounterTimeEnd(e.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+                
+                <div>
+                  <Label htmlFor="counter_note" className="block text-sm font-medium text-gray-700">
+                    Note for {partnerName}
+                  </Label>
+                  <Textarea
+                    id="counter_note"
+                    rows={2}
+                    value={counterNote}
+                    onChange={(e) => setCounterNote(e.target.value)}
+                  />
+                </div>
+              </div>
+              
+              <div className="flex space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCountering(false)}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  variant="warning"
+                  onClick={sendCounter}
+                  disabled={isSubmitting || !counterNote.trim()}
+                >
+                  <Undo2 className="h-5 w-5 mr-2" />
+                  Send Counter-Proposal
+                </Button>
+              </div>
+            </div>
+          )}
+          
           {/* Approval/Review Section */}
-          {(needsReview || needsApproval) && (
+          {(needsReview || needsApproval) && !isCountering && (
             <div className="mt-8 border-t pt-6">
               <h5 className="font-medium text-gray-700 mb-3">Your Response</h5>
               
@@ -372,22 +508,12 @@ export default function TpsReview({
                     </Label>
                     <RadioGroup value={emotionalState} onValueChange={setEmotionalState}>
                       <div className="space-y-2">
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="calm" id="emotional_calm" />
-                          <Label htmlFor="emotional_calm">Calm or relaxed</Label>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="anxious" id="emotional_anxious" />
-                          <Label htmlFor="emotional_anxious">Anxious or nervous</Label>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="curious" id="emotional_curious" />
-                          <Label htmlFor="emotional_curious">Curious or open</Label>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="not" id="emotional_not" />
-                          <Label htmlFor="emotional_not">Not into this</Label>
-                        </div>
+                        {emotionalStateField.options!.map(option => (
+                          <div key={option.value} className="flex items-center space-x-2">
+                            <RadioGroupItem value={option.value} id={`emotional_${option.value}`} />
+                            <Label htmlFor={`emotional_${option.value}`}>{option.label}</Label>
+                          </div>
+                        ))}
                       </div>
                     </RadioGroup>
                   </div>
@@ -429,6 +555,17 @@ export default function TpsReview({
                   <X className="h-5 w-5 mr-2" />
                   Not Into This
                 </Button>
+                {canCounter && (
+                  <Button
+                    type="button"
+                    variant="warning"
+                    onClick={() => setIsCountering(true)}
+                    disabled={isSubmitting}
+                  >
+                    <Undo2 className="h-5 w-5 mr-2" />
+                    Counter
+                  </Button>
+                )}
                 <Button
                   type="button"
                   variant="success"
@@ -447,15 +584,32 @@ export default function TpsReview({
             <div className="mt-8 border-t pt-6">
               <h5 className="font-medium text-gray-700 mb-3">Replicate this TPS Report</h5>
               <p className="text-sm text-gray-500 mb-4">
-                Create a new TPS report with the same settings but reset date and emotional state.
+                Create a new TPS report with the same settings but reset date and emotional state,
+                once or on a recurring schedule.
               </p>
-              <Button
-                type="button"
-                onClick={replicateReport}
-                disabled={isSubmitting}
-              >
-                Replicate Report
-              </Button>
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  type="button"
+                  onClick={replicateReport}
+                  disabled={isSubmitting}
+                >
+                  Replicate Report
+                </Button>
+                {isCreator && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowRepeat(true)}
+                    disabled={isSubmitting}
+                  >
+                    <Repeat className="h-4 w-4 mr-2" />
+                    Repeat...
+                  </Button>
+                )}
+              </div>
+              {isCreator && (
+                <RepeatReportDialog report={report} open={showRepeat} onOpenChange={setShowRepeat} />
+              )}
             </div>
           )}
           
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { TpsReport } from "@shared/schema";
+import { ApiError, StaleReportConflict, isStaleReportConflict } from "@/lib/queryClient";
+import {
+  getQueueKey,
+  isOfflineError,
+  queueSave,
+  scheduleQueueReplay,
+  sendDraft,
+  subscribeQueue
+} from "@/lib/offline-queue";
+
+const AUTOSAVE_DELAY = 2000;
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "offline" | "error";
+
+export interface Autosave {
+  status: AutosaveStatus;
+  // Runs a save once the saves before it answered. The form's own saves go
+  // through here too, so none of them races an autosave.
+  run: <T>(save: () => Promise<T>) => Promise<T>;
+}
+
+interface UseAutosaveOptions {
+  // Only drafts autosave, and only once the user changed something
+  enabled: boolean;
+  reportId?: number;
+  // Changes identity on every edit, restarting the debounce
+  changes: unknown;
+  getPayload: () => Record<string, any>;
+  // The report as last saved, for its id and version
+  getBase: () => TpsReport | null;
+  onSaved: (report: TpsReport) => void;
+  onConflict: (conflict: StaleReportConflict, payload: Record<string, any>) => void;
+}
+
+// Saves a draft a moment after the last edit. While the server can't be
+// reached the save goes to the offline queue instead, and the status stays
+// "offline" until the queue delivers it. Saves go out one at a time, each
+// against the id and version the one before it returned, so a new report
+// isn't created twice and a save doesn't conflict with the user's own.
+export function useAutosave({
+  enabled,
+  reportId,
+  changes,
+  getPayload,
+  getBase,
+  onSaved,
+  onConflict
+}: UseAutosaveOptions): Autosave {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const queueKey = getQueueKey(reportId);
+
+  // The callbacks close over the form's latest state
+  const options = useRef({ getPayload, getBase, onSaved, onConflict });
+  options.current = { getPayload, getBase, onSaved, onConflict };
+
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+  const run = useCallback(<T,>(save: () => Promise<T>): Promise<T> => {
+    const next = queue.current.then(save);
+    queue.current = next.catch(() => undefined);
+    return next;
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = setTimeout(() => run(async () => {
+      const payload = options.current.getPayload();
+      const base = options.current.getBase();
+      setStatus("saving");
+
+      try {
+        const report = await sendDraft(base?.id ?? reportId, payload, base);
+        options.current.onSaved(report);
+        setStatus("saved");
+      } catch (error: any) {
+        if (isOfflineError(error) && "indexedDB" in window) {
+          await queueSave({
+            key: queueKey,
+            report_id: reportId,
+            payload,
+            base,
+            queued_at: new Date().toISOString()
+          });
+          scheduleQueueReplay();
+          setStatus("offline");
+          return;
+        }
+
+        if (error instanceof ApiError && isStaleReportConflict(error.data)) {
+          options.current.onConflict(error.data, payload);
+          setStatus("idle");
+          return;
+        }
+
+        console.error("Autosave error:", error);
+        setStatus("error");
+      }
+    }), AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [enabled, reportId, changes]);
+
+  // Hear back when a queued save of this report finally went out
+  useEffect(() => subscribeQueue(event => {
+    if (event.key !== queueKey) return;
+    if (event.report) {
+      options.current.onSaved(event.report);
+      setStatus("saved");
+    } else {
+      setStatus("error");
+    }
+  }), [queueKey]);
+
+  return { status, run };
+}
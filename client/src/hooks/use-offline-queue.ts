@@ -0,0 +1,11 @@
+import { useEffect } from "react";
+import { startQueueReplay } from "@/lib/offline-queue";
+
+// Sends draft saves queued while the server was unreachable, including ones
+// left over from a tab that was closed before they went out
+export function useOfflineQueue(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || !("indexedDB" in window)) return;
+    return startQueueReplay();
+  }, [enabled]);
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { getInstallPrompt, isIos, isStandalone, promptInstall, subscribeInstallPrompt } from "@/lib/pwa";
+
+export function useInstallPrompt() {
+  const [canPrompt, setCanPrompt] = useState(() => !!getInstallPrompt());
+  const [installed, setInstalled] = useState(() => isStandalone());
+
+  useEffect(() => subscribeInstallPrompt(() => setCanPrompt(!!getInstallPrompt())), []);
+
+  const install = async () => {
+    const accepted = await promptInstall();
+    if (accepted) setInstalled(true);
+  };
+
+  return {
+    installed,
+    canPrompt: canPrompt && !installed,
+    // iOS users install by hand, so they get instructions instead
+    needsInstructions: !installed && !canPrompt && isIos(),
+    install
+  };
+}
+
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+}
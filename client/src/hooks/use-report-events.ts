@@ -0,0 +1,96 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { REPORT_EVENTS_PATH, ReportEvent } from "@shared/events";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// Query keys that go stale when a report event arrives
+function getStaleQueryKeys(event: ReportEvent): string[] {
+  const reportKey = `/api/tps-reports/${event.report_id}`;
+
+  switch (event.type) {
+    case "report.created":
+      return ["/api/tps-reports", "/api/stats", "/api/stats/insights", "/api/activity"];
+    case "report.updated":
+      // The report itself is refreshed by refreshReport
+      return [
+        "/api/tps-reports", "/api/stats", "/api/stats/insights", "/api/activity",
+        `${reportKey}/revisions`, `${reportKey}/logs`
+      ];
+    case "notification.created":
+      return ["/api/notifications"];
+    case "report.log":
+      // Only the log itself: refetching the report would log another view
+      return [`${reportKey}/logs`, "/api/activity"];
+    default:
+      return [];
+  }
+}
+
+// Refetching a report through its query would log another view, so an open
+// report is fetched without one and written into the cache
+async function refreshReport(reportId: number) {
+  const reportKey = `/api/tps-reports/${reportId}`;
+  if (queryClient.getQueryData([reportKey]) === undefined) return;
+
+  const res = await fetch(`${reportKey}?log_view=false`, { credentials: "include" });
+  if (res.ok) {
+    queryClient.setQueryData([reportKey], await res.json());
+  } else {
+    queryClient.invalidateQueries({ queryKey: [reportKey] });
+  }
+}
+
+// Keeps cached reports in sync with changes the partner makes, while logged in
+export function useReportEvents(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REPORT_EVENTS_PATH}`);
+
+      socket.onopen = () => {
+        // Anything could have changed while we were disconnected
+        if (reconnectDelay > 1000) {
+          queryClient.invalidateQueries({ queryKey: ["/api/tps-reports"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+        }
+        reconnectDelay = 1000;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const event: ReportEvent = JSON.parse(message.data);
+          getStaleQueryKeys(event).forEach(key => {
+            queryClient.invalidateQueries({ queryKey: [key] });
+          });
+          if (event.type === "report.updated") {
+            refreshReport(event.report_id).catch(error => console.error("Report refresh error:", error));
+          }
+        } catch (error) {
+          console.error("Report event error:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+import { ScheduleConflict, TimeRangeError } from "@shared/scheduling";
+
+interface ScheduleCheck {
+  errors: TimeRangeError[];
+  conflicts: ScheduleConflict[];
+}
+
+// Checks the report's time against the couple's other reports and
+// unavailable times while the form is being filled in
+export function useScheduleConflicts(
+  range: { date?: string; time_start?: string; time_end?: string },
+  reportId?: number,
+  enabled = true
+): ScheduleCheck {
+  const params = new URLSearchParams({
+    date: range.date || "",
+    time_start: range.time_start || "",
+    time_end: range.time_end || ""
+  });
+  if (reportId) params.set("report_id", String(reportId));
+
+  const { data } = useQuery<ScheduleCheck>({
+    queryKey: [`/api/schedule/conflicts?${params}`],
+    enabled,
+    placeholderData: previous => previous
+  });
+
+  return data || { errors: [], conflicts: [] };
+}
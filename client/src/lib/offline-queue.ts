@@ -0,0 +1,178 @@
+// Draft saves that couldn't reach the server, kept in IndexedDB so they
+// survive a closed tab and are sent again once the server answers
+
+import { TpsReport } from "@shared/schema";
+import { mergeReportEdits } from "@shared/revisions";
+import { apiRequest, ApiError, isStaleReportConflict } from "@/lib/queryClient";
+
+const DB_NAME = "formplay";
+const STORE_NAME = "queued-saves";
+const RETRY_INTERVAL = 15000;
+
+export interface QueuedSave {
+  key: string;
+  report_id?: number; // Missing for a new report that was never saved
+  payload: Record<string, any>;
+  base: TpsReport | null; // Report the edits were made on, to merge if the partner saved since
+  queued_at: string;
+}
+
+export interface QueueEvent {
+  key: string;
+  report?: TpsReport;
+  error?: Error;
+}
+
+type QueueListener = (event: QueueEvent) => void;
+
+const listeners = new Set<QueueListener>();
+
+// One entry per report: a later save of the same report replaces the
+// earlier one, since each carries the whole draft
+export function getQueueKey(reportId?: number): string {
+  return reportId ? `report-${reportId}` : "new-report";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function getQueuedSaves(): Promise<QueuedSave[]> {
+  return withStore("readonly", store => store.getAll());
+}
+
+export async function queueSave(save: QueuedSave): Promise<void> {
+  await withStore("readwrite", store => store.put(save));
+}
+
+async function removeQueuedSave(key: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(key));
+}
+
+export function subscribeQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The request never got an answer from the app itself: no network, or a
+// proxy in front of it reporting the server down
+export function isOfflineError(error: any): boolean {
+  if (error instanceof ApiError) {
+    return error.status === 502 || error.status === 503 || error.status === 504;
+  }
+  return error instanceof TypeError;
+}
+
+// Saves a draft on the version it was edited from, creating the report on
+// its first save
+export async function sendDraft(reportId: number | undefined, payload: Record<string, any>, base: TpsReport | null): Promise<TpsReport> {
+  const res = reportId
+    ? await apiRequest("PUT", `/api/tps-reports/${reportId}`, { ...payload, version: base?.version })
+    : await apiRequest("POST", "/api/tps-reports", payload);
+  return res.json();
+}
+
+async function replaySave(save: QueuedSave): Promise<void> {
+  try {
+    const report = await sendDraft(save.report_id, save.payload, save.base);
+    await removeQueuedSave(save.key);
+    listeners.forEach(listener => listener({ key: save.key, report }));
+  } catch (error: any) {
+    if (isOfflineError(error) || (error instanceof ApiError && error.status === 401)) {
+      throw error;
+    }
+
+    // The partner saved while this was queued: keep the queued edits on top
+    // of their version and send that on the next pass
+    if (error instanceof ApiError && isStaleReportConflict(error.data)) {
+      const current = error.data.current;
+      await queueSave({ ...save, payload: mergeReportEdits(save.base || current, save.payload, current), base: current });
+      return;
+    }
+
+    // Refused for good, e.g. the report moved on past draft in the meantime
+    console.error("Queued save error:", error);
+    await removeQueuedSave(save.key);
+    listeners.forEach(listener => listener({ key: save.key, error }));
+  }
+}
+
+let replaying: Promise<boolean> | null = null;
+
+// Sends every queued save, oldest first, and resolves to whether the queue
+// is empty now
+export function replayQueuedSaves(): Promise<boolean> {
+  if (!replaying) {
+    replaying = (async () => {
+      try {
+        const saves = await getQueuedSaves();
+        saves.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+        for (const save of saves) {
+          await replaySave(save);
+        }
+        return (await getQueuedSaves()).length === 0;
+      } catch (error) {
+        // Still unreachable, or logged out; try again later
+        return false;
+      } finally {
+        replaying = null;
+      }
+    })();
+  }
+  return replaying;
+}
+
+let scheduleReplay: (() => void) | null = null;
+
+// Replays the queue when the browser comes back online and, since an
+// intranet server can be down while the network is fine, on a timer while
+// anything is left
+export function startQueueReplay(): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const replay = async () => {
+    clearTimeout(timer);
+    const empty = await replayQueuedSaves();
+    if (!empty) timer = setTimeout(replay, RETRY_INTERVAL);
+  };
+
+  scheduleReplay = () => {
+    clearTimeout(timer);
+    timer = setTimeout(replay, RETRY_INTERVAL);
+  };
+  window.addEventListener("online", replay);
+  replay();
+
+  return () => {
+    clearTimeout(timer);
+    scheduleReplay = null;
+    window.removeEventListener("online", replay);
+  };
+}
+
+// Makes sure a save that was just queued gets retried
+export function scheduleQueueReplay() {
+  scheduleReplay?.();
+}
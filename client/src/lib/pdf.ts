@@ -26,6 +26,12 @@ let currentPdfDocument: pdfjsLib.PDFDocumentProxy | null = null;
 let currentPdfFields: FormField[] = [];
 let currentPdfBytes: Uint8Array | null = null;
 
+// Saved reports render against the template they were created from, new
+// ones against the latest uploaded template
+export function getTemplatePdfUrl(templateId?: number | null): string {
+  return `/api/templates/${templateId || 'current'}/pdf`;
+}
+
 export async function loadPdfForm(url: string): Promise<Uint8Array> {
   try {
     const response = await fetch(url);
@@ -182,17 +188,28 @@ export function createFieldsFromPdfFormData(pdfFields: PdfFormField[]): Record<s
   return result;
 }
 
-export async function createFilledPdf(formData: Record<string, any>): Promise<Uint8Array> {
+export async function fetchReportPdf(reportId: number): Promise<Uint8Array> {
+  const response = await fetch(`/api/tps-reports/${reportId}/pdf`, { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch report PDF: ${response.status} ${response.statusText}`);
+  }
+  
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export async function createFilledPdf(formData: Record<string, any>, reportId?: number): Promise<Uint8Array> {
+  // Saved reports are filled (and flattened once finalized) on the server
+  if (reportId) {
+    return fetchReportPdf(reportId);
+  }
+  
   if (!currentPdfDocument || !currentPdfBytes) {
     throw new Error('No PDF document loaded');
   }
   
-  // In a real implementation, this would use a PDF manipulation library
-  // to fill in the form fields with the provided data.
-  
-  // For this demo, we'll just return the current PDF bytes
-  // In a production app, you would use a library like pdf-lib to fill the form
-  console.log('Creating filled PDF with form data:', formData);
+  // Unsaved forms have nothing on the server yet, so fall back to the template
+  console.log('Creating unsaved PDF with form data:', formData);
   return currentPdfBytes;
 }
 
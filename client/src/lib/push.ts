@@ -0,0 +1,64 @@
+// Browser side of Web Push: registers the service worker and hands the
+// browser's subscription to the server
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// The VAPID key comes base64url-encoded, PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register("/sw.js");
+  return navigator.serviceWorker.ready;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+export async function enablePush(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return false;
+
+  const keyResponse = await fetch("/api/push/key", { credentials: "include" });
+  if (!keyResponse.ok) throw new Error("Could not load the push key");
+  const { publicKey } = await keyResponse.json();
+
+  const registration = await getRegistration();
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey)
+  });
+
+  const res = await fetch("/api/push/subscribe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(subscription.toJSON()),
+    credentials: "include"
+  });
+  if (!res.ok) throw new Error("Could not save the push subscription");
+
+  return true;
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await fetch("/api/push/unsubscribe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+    credentials: "include"
+  });
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,75 @@
+// Installing FormPlay as an app: registers the service worker that keeps it
+// usable offline and holds on to the browser's install prompt until the
+// user asks for it
+
+export interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+let installPrompt: BeforeInstallPromptEvent | null = null;
+const installListeners = new Set<() => void>();
+
+function notifyInstallListeners() {
+  installListeners.forEach(listener => listener());
+}
+
+// Only production builds get the offline caches, since the dev server's
+// modules change on every edit
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(error => {
+      console.error("Service worker registration error:", error);
+    });
+  });
+}
+
+// The browser offers installing once, early, often before the home page is
+// on screen, so the prompt is kept here for later
+export function listenForInstallPrompt() {
+  window.addEventListener("beforeinstallprompt", event => {
+    event.preventDefault();
+    installPrompt = event as BeforeInstallPromptEvent;
+    notifyInstallListeners();
+  });
+
+  window.addEventListener("appinstalled", () => {
+    installPrompt = null;
+    notifyInstallListeners();
+  });
+}
+
+export function getInstallPrompt(): BeforeInstallPromptEvent | null {
+  return installPrompt;
+}
+
+export function subscribeInstallPrompt(listener: () => void): () => void {
+  installListeners.add(listener);
+  return () => {
+    installListeners.delete(listener);
+  };
+}
+
+export async function promptInstall(): Promise<boolean> {
+  if (!installPrompt) return false;
+
+  const prompt = installPrompt;
+  installPrompt = null;
+  notifyInstallListeners();
+
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  return outcome === "accepted";
+}
+
+export function isStandalone(): boolean {
+  return window.matchMedia("(display-mode: standalone)").matches ||
+    (navigator as Navigator & { standalone?: boolean }).standalone === true;
+}
+
+// Safari on iOS has no install prompt, the app is added from the share sheet
+export function isIos(): boolean {
+  return /iphone|ipad|ipod/i.test(navigator.userAgent);
+}
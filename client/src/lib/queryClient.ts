@@ -1,9 +1,53 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { TpsReport } from "@shared/schema";
+import { ScheduleConflict } from "@shared/scheduling";
+
+// Keeps the status and parsed JSON body, for callers that handle specific
+// errors such as a stale report
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(status: number, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+    this.status = status;
+    try {
+      this.data = JSON.parse(text);
+    } catch {
+      this.data = null;
+    }
+  }
+}
+
+// What the server sends back with a 409 when an edit was based on an older
+// version of the report
+export interface StaleReportConflict {
+  code: "stale_report";
+  message: string;
+  current: TpsReport & { creator_name: string; receiver_name: string };
+}
+
+export function isStaleReportConflict(data: any): data is StaleReportConflict {
+  return data?.code === "stale_report" && !!data.current;
+}
+
+// What the server sends back with a 409 when the report's time overlaps
+// another report or an unavailable time, until the user confirms it
+export interface ScheduleConflictResponse {
+  code: "schedule_conflict";
+  message: string;
+  conflicts: ScheduleConflict[];
+}
+
+export function isScheduleConflict(data: any): data is ScheduleConflictResponse {
+  return data?.code === "schedule_conflict" && Array.isArray(data.conflicts);
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -46,6 +46,8 @@ export function getStatusBadgeColor(status: string): {
       return { bgColor: 'bg-green-100', textColor: 'text-green-800' };
     case 'aborted':
       return { bgColor: 'bg-red-100', textColor: 'text-red-800' };
+    case 'expired':
+      return { bgColor: 'bg-orange-100', textColor: 'text-orange-800' };
     default:
       return { bgColor: 'bg-gray-100', textColor: 'text-gray-800' };
   }
@@ -63,6 +65,8 @@ export function getStatusLabel(status: string, isCreator: boolean): string {
       return 'Completed';
     case 'aborted':
       return 'Aborted';
+    case 'expired':
+      return 'Expired';
     default:
       return status;
   }
@@ -2,6 +2,10 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 import { Toaster } from "@/components/ui/toaster";
+import { registerServiceWorker, listenForInstallPrompt } from "@/lib/pwa";
+
+listenForInstallPrompt();
+registerServiceWorker();
 
 createRoot(document.getElementById("root")!).render(
   <>
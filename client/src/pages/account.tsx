@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import Header from "@/components/header";
+import AvailabilityWindows from "@/components/availability-windows";
+import ReportSchedules from "@/components/report-schedules";
+import ReportArchive from "@/components/report-archive";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Copy } from "lucide-react";
+
+export default function Account() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResettingCalendar, setIsResettingCalendar] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Get user info
+  const { data: userData } = useQuery<any>({
+    queryKey: ['/api/me'],
+  });
+
+  // Calendar feed URL, created on first request
+  const { data: calendar } = useQuery<{ url: string }>({
+    queryKey: ['/api/calendar'],
+  });
+
+  const username = userData?.user?.name || "User";
+
+  const handleCopyCalendarUrl = async () => {
+    if (!calendar) return;
+
+    try {
+      await navigator.clipboard.writeText(calendar.url);
+      toast({
+        title: "Link copied",
+        description: "Add it to your calendar app as a subscription",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the link, select it and copy it instead",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleResetCalendar = async () => {
+    setIsResettingCalendar(true);
+
+    try {
+      const res = await apiRequest("POST", "/api/calendar/reset");
+      queryClient.setQueryData(['/api/calendar'], await res.json());
+
+      toast({
+        title: "Calendar link reset",
+        description: "The old link no longer works. Subscribe again with the new one.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to reset the calendar link",
+        variant: "destructive"
+      });
+    } finally {
+      setIsResettingCalendar(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Please enter the same new password twice",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", "/api/change-password", { currentPassword, newPassword });
+
+      toast({
+        title: "Password changed",
+        description: "Use your new password the next time you log in",
+      });
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+    } catch (error: any) {
+      // Server errors come back as "<status>: <json body>"
+      let description = "Failed to change password";
+      try {
+        description = JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || description;
+      } catch {}
+
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <Header username={username} />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <div className="md:flex md:items-center md:justify-between mb-6">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl font-semibold text-gray-800">Account</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                {userData?.user ? `Logged in as ${userData.user.username}` : ""}
+              </p>
+            </div>
+            <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setLocation('/')}
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Reports
+              </Button>
+            </div>
+          </div>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 border-b">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Change Password</h3>
+            </div>
+            <form className="px-4 py-5 sm:px-6 space-y-4 max-w-md" onSubmit={handleChangePassword}>
+              <div>
+                <Label htmlFor="current_password">Current Password</Label>
+                <Input
+                  id="current_password"
+                  type="password"
+                  className="mt-1"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="new_password">New Password</Label>
+                <Input
+                  id="new_password"
+                  type="password"
+                  className="mt-1"
+                  autoComplete="new-password"
+                  minLength={8}
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500">At least 8 characters</p>
+              </div>
+              <div>
+                <Label htmlFor="confirm_password">Confirm New Password</Label>
+                <Input
+                  id="confirm_password"
+                  type="password"
+                  className="mt-1"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Change Password"}
+              </Button>
+            </form>
+          </div>
+
+          <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 border-b">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Calendar</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Subscribe to this link in your phone's calendar app to see upcoming TPS reports.
+                Anyone with the link can see your calendar, so keep it to yourself.
+              </p>
+            </div>
+            <div className="px-4 py-5 sm:px-6 space-y-4 max-w-2xl">
+              <div className="flex space-x-2">
+                <Input
+                  readOnly
+                  aria-label="Calendar feed link"
+                  value={calendar?.url || ""}
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button variant="outline" onClick={handleCopyCalendarUrl} disabled={!calendar}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <Button variant="outline" onClick={handleResetCalendar} disabled={isResettingCalendar}>
+                {isResettingCalendar ? "Resetting..." : "Reset Link"}
+              </Button>
+            </div>
+          </div>
+
+          <AvailabilityWindows />
+
+          <ReportSchedules />
+
+          <ReportArchive />
+        </div>
+      </main>
+
+      <footer className="bg-white">
+        <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8">
+          <p className="text-sm text-gray-500 text-center">FormPlay – Trust, Pleasure, Safety</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
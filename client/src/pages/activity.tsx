@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ACTIVITY_ACTIONS } from "@shared/activity";
+import Header from "@/components/header";
+import ActivityTimeline, { ActivityFilters } from "@/components/activity-timeline";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft } from "lucide-react";
+
+// "default" is every action but views, which the server leaves out unless asked
+const ALL_ACTIONS = "default";
+const ANYONE = "anyone";
+
+export default function Activity() {
+  const [, setLocation] = useLocation();
+  const [action, setAction] = useState(ALL_ACTIONS);
+  const [who, setWho] = useState(ANYONE);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [reportId, setReportId] = useState("");
+
+  // Get user info
+  const { data: userData } = useQuery<any>({
+    queryKey: ['/api/me'],
+  });
+
+  const username = userData?.user?.name || "User";
+
+  const filters: ActivityFilters = {
+    action: action === ALL_ACTIONS ? undefined : [action],
+    user_id: who === ANYONE ? undefined : parseInt(who),
+    from: from || undefined,
+    to: to || undefined,
+    report_id: reportId && !isNaN(parseInt(reportId)) ? parseInt(reportId) : undefined
+  };
+
+  const handleClear = () => {
+    setAction(ALL_ACTIONS);
+    setWho(ANYONE);
+    setFrom("");
+    setTo("");
+    setReportId("");
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <Header username={username} />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <div className="md:flex md:items-center md:justify-between mb-6">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl font-semibold text-gray-800">Activity</h1>
+              <p className="mt-1 text-sm text-gray-500">Everything that happened to your reports</p>
+            </div>
+            <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setLocation('/')}
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Reports
+              </Button>
+            </div>
+          </div>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 border-b flex flex-wrap items-end gap-4">
+              <div>
+                <Label>Action</Label>
+                <Select value={action} onValueChange={setAction}>
+                  <SelectTrigger className="mt-1 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ACTIONS}>All but views</SelectItem>
+                    {Object.entries(ACTIVITY_ACTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>By</Label>
+                <Select value={who} onValueChange={setWho}>
+                  <SelectTrigger className="mt-1 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANYONE}>Anyone</SelectItem>
+                    {userData?.user && (
+                      <SelectItem value={String(userData.user.id)}>{userData.user.name}</SelectItem>
+                    )}
+                    {userData?.partner && (
+                      <SelectItem value={String(userData.partner.id)}>{userData.partner.name}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="activity_from">From</Label>
+                <Input
+                  id="activity_from"
+                  type="date"
+                  className="mt-1"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="activity_to">Until</Label>
+                <Input
+                  id="activity_to"
+                  type="date"
+                  className="mt-1"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="activity_report">Report #</Label>
+                <Input
+                  id="activity_report"
+                  type="number"
+                  min={1}
+                  className="mt-1 w-24"
+                  value={reportId}
+                  onChange={(e) => setReportId(e.target.value)}
+                />
+              </div>
+              <Button variant="ghost" onClick={handleClear}>
+                Clear
+              </Button>
+            </div>
+            <div className="px-4 py-5 sm:px-6">
+              <ActivityTimeline filters={filters} showReport />
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <footer className="bg-white">
+        <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8">
+          <p className="text-sm text-gray-500 text-center">FormPlay – Trust, Pleasure, Safety</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
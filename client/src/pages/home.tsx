@@ -1,14 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Link, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { getStatusBadgeColor } from "@/lib/utils";
 import Header from "@/components/header";
 import TpsListItem from "@/components/tps-list-item";
 import StatCard from "@/components/stat-card";
+import InstallBanner from "@/components/install-banner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { TpsStatus } from "@shared/schema";
+import { getTemplateField } from "@shared/form-template";
+import {
+  DEFAULT_REPORT_SORT,
+  REPORT_ACTIVITY_FILTERS,
+  REPORT_SORTS,
+  ReportListPage,
+  ReportSort
+} from "@shared/report-query";
 import { 
   FilePlus2, 
   FileText, 
@@ -17,22 +28,113 @@ import {
   Search
 } from "lucide-react";
 
+type StatusFilter = 'all' | 'pending' | TpsStatus.COMPLETED | TpsStatus.ABORTED | TpsStatus.EXPIRED;
+
+const STATUS_FILTERS: Record<StatusFilter, string[] | undefined> = {
+  all: undefined,
+  pending: [TpsStatus.PENDING_REVIEW, TpsStatus.PENDING_APPROVAL],
+  [TpsStatus.COMPLETED]: [TpsStatus.COMPLETED],
+  [TpsStatus.ABORTED]: [TpsStatus.ABORTED],
+  [TpsStatus.EXPIRED]: [TpsStatus.EXPIRED]
+};
+
+const ANY = "any";
+const LOCATION_OPTIONS = getTemplateField("Location")?.options || [];
+
+interface ReportListParams {
+  status?: string[];
+  q?: string;
+  from?: string;
+  to?: string;
+  location?: string;
+  activity?: string;
+  sort: ReportSort;
+}
+
+function buildReportListUrl(params: ReportListParams, cursor: string | null): string {
+  const search = new URLSearchParams();
+  if (params.status) search.set("status", params.status.join(","));
+  if (params.q) search.set("q", params.q);
+  if (params.from) search.set("from", params.from);
+  if (params.to) search.set("to", params.to);
+  if (params.location) search.set("location", params.location);
+  if (params.activity) search.set("activity", params.activity);
+  if (params.sort !== DEFAULT_REPORT_SORT) search.set("sort", params.sort);
+  if (cursor) search.set("cursor", cursor);
+
+  const query = search.toString();
+  return query ? `/api/tps-reports?${query}` : "/api/tps-reports";
+}
+
 export default function Home() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [filter, setFilter] = useState<TpsStatus | 'all'>('all');
+  const [filter, setFilter] = useState<StatusFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [location, setLocationFilter] = useState(ANY);
+  const [activity, setActivity] = useState(ANY);
+  const [sort, setSort] = useState<ReportSort>(DEFAULT_REPORT_SORT);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   
   // Get user info
   const { data: userData, isLoading: userLoading } = useQuery({
     queryKey: ['/api/me'],
   });
+
+  // Search once typing pauses rather than on every key
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const params: ReportListParams = {
+    status: STATUS_FILTERS[filter],
+    q: search || undefined,
+    from: from || undefined,
+    to: to || undefined,
+    location: location === ANY ? undefined : location,
+    activity: activity === ANY ? undefined : activity,
+    sort
+  };
+  const isFiltered = filter !== 'all' || !!search || !!from || !!to || location !== ANY || activity !== ANY;
   
-  // Get all reports
-  const { data: reports, isLoading, refetch } = useQuery({
-    queryKey: ['/api/tps-reports'],
+  // Reports a page at a time, filtered and sorted by the server. Earlier
+  // results stay up while a new filter loads.
+  const {
+    data,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/tps-reports', params],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", buildReportListUrl(params, pageParam));
+      return await res.json() as ReportListPage<any>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    placeholderData: keepPreviousData,
     enabled: !!userData,
   });
+
+  const reports = data?.pages.flatMap(page => page.items);
+
+  // Loads the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!target || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "200px" });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, reports?.length]);
   
   // Get stats
   const { data: stats } = useQuery({
@@ -63,31 +165,6 @@ export default function Home() {
   const username = userData?.user?.name || "User";
   const userId = userData?.user?.id;
   
-  // Filter and search reports
-  const filteredReports = reports?.filter(report => {
-    // Filter by status
-    if (filter !== 'all' && report.status !== filter) {
-      return false;
-    }
-    
-    // Search
-    if (searchTerm) {
-      const searchLower = searchTerm.toLowerCase();
-      const location = report.location === 'master' ? 'Master bedroom' : 
-                     report.location === 'basement' ? 'Basement' : 
-                     report.location === 'other' ? report.location_other : 
-                     report.location;
-      
-      return (
-        location?.toLowerCase().includes(searchLower) ||
-        report.creator_name.toLowerCase().includes(searchLower) ||
-        report.receiver_name.toLowerCase().includes(searchLower)
-      );
-    }
-    
-    return true;
-  });
-  
   return (
     <div className="flex flex-col min-h-screen bg-gray-50">
       <Header username={username} />
@@ -109,6 +186,8 @@ export default function Home() {
             </div>
           </div>
 
+          <InstallBanner />
+
           {/* Stats Overview */}
           <div className="mb-8 grid grid-cols-1 gap-5 sm:grid-cols-3">
             <StatCard
@@ -134,9 +213,15 @@ export default function Home() {
             />
           </div>
 
+          <div className="-mt-5 mb-8 text-right">
+            <Link href="/insights" className="text-sm text-indigo-600 hover:underline">
+              See insights
+            </Link>
+          </div>
+
           {/* Filter & Search */}
-          <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
-            <div className="flex space-x-3 mb-4 md:mb-0">
+          <div className="mb-4 flex flex-col md:flex-row md:items-center md:justify-between">
+            <div className="flex flex-wrap gap-3 mb-4 md:mb-0">
               <Button
                 variant={filter === 'all' ? 'default' : 'outline'}
                 onClick={() => setFilter('all')}
@@ -145,10 +230,8 @@ export default function Home() {
                 All Reports
               </Button>
               <Button
-                variant={filter === TpsStatus.PENDING_REVIEW || filter === TpsStatus.PENDING_APPROVAL ? 'default' : 'outline'}
-                onClick={() => filter === TpsStatus.PENDING_REVIEW || filter === TpsStatus.PENDING_APPROVAL 
-                  ? setFilter('all') 
-                  : setFilter(TpsStatus.PENDING_REVIEW)}
+                variant={filter === 'pending' ? 'default' : 'outline'}
+                onClick={() => filter === 'pending' ? setFilter('all') : setFilter('pending')}
                 size="sm"
               >
                 Pending
@@ -167,6 +250,13 @@ export default function Home() {
               >
                 Aborted
               </Button>
+              <Button
+                variant={filter === TpsStatus.EXPIRED ? 'default' : 'outline'}
+                onClick={() => filter === TpsStatus.EXPIRED ? setFilter('all') : setFilter(TpsStatus.EXPIRED)}
+                size="sm"
+              >
+                Expired
+              </Button>
             </div>
             <div className="w-full md:w-64">
               <div className="relative">
@@ -174,7 +264,7 @@ export default function Home() {
                   <Search className="h-5 w-5 text-gray-400" />
                 </div>
                 <Input 
-                  placeholder="Search reports" 
+                  placeholder="Search notes" 
                   className="pl-10"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
@@ -183,11 +273,61 @@ export default function Home() {
             </div>
           </div>
 
+          <div className="mb-6 flex flex-wrap items-center gap-3">
+            <Input
+              type="date"
+              className="w-40"
+              aria-label="From date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="date"
+              className="w-40"
+              aria-label="To date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+            <Select value={location} onValueChange={setLocationFilter}>
+              <SelectTrigger className="w-44" aria-label="Location">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any location</SelectItem>
+                {LOCATION_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.code ?? option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={activity} onValueChange={setActivity}>
+              <SelectTrigger className="w-52" aria-label="Activity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any activity</SelectItem>
+                {REPORT_ACTIVITY_FILTERS.map(field => (
+                  <SelectItem key={field.name} value={field.name}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => setSort(value as ReportSort)}>
+              <SelectTrigger className="w-48" aria-label="Sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REPORT_SORTS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* TPS Reports List */}
           <div className="bg-white shadow overflow-hidden sm:rounded-md">
-            {filteredReports?.length ? (
+            {reports?.length ? (
               <ul className="divide-y divide-gray-200">
-                {filteredReports.map(report => (
+                {reports.map(report => (
                   <TpsListItem 
                     key={report.id} 
                     report={report} 
@@ -198,11 +338,11 @@ export default function Home() {
             ) : (
               <div className="py-8 text-center">
                 <p className="text-gray-500">
-                  {searchTerm || filter !== 'all'
+                  {isFiltered
                     ? 'No reports match your search or filter criteria'
                     : 'No TPS reports yet. Create your first one!'}
                 </p>
-                {!searchTerm && filter === 'all' && (
+                {!isFiltered && (
                   <Button 
                     className="mt-4"
                     onClick={() => setLocation('/new')}
@@ -213,6 +353,12 @@ export default function Home() {
               </div>
             )}
           </div>
+
+          <div ref={loadMoreRef} className="py-4 text-center">
+            {isFetchingNextPage && (
+              <div className="inline-block w-6 h-6 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+            )}
+          </div>
         </div>
       </main>
 
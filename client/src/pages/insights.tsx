@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { InsightsPeriod, LabelCount, ReportInsights } from "@shared/stats";
+import Header from "@/components/header";
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { ArrowLeft } from "lucide-react";
+
+const periodConfig = {
+  completed: { label: "Completed", color: "#059669" },
+  aborted: { label: "Aborted", color: "#dc2626" },
+  expired: { label: "Expired", color: "#ea580c" },
+  open: { label: "Open", color: "#9ca3af" },
+} satisfies ChartConfig;
+
+const countConfig = {
+  count: { label: "Reports", color: "#4f46e5" },
+} satisfies ChartConfig;
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return "–";
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10} h`;
+  return `${Math.round(hours / 24 * 10) / 10} days`;
+}
+
+function formatPeriod(period: string, kind: InsightsPeriod): string {
+  if (kind === "week") return formatDate(period);
+
+  const [year, month] = period.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+function Figure({ title, value, detail }: { title: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white overflow-hidden shadow rounded-lg px-4 py-5 sm:p-6">
+      <dt className="text-sm font-medium text-gray-500 truncate">{title}</dt>
+      <dd className="mt-1 text-2xl font-semibold text-gray-900">{value}</dd>
+      {detail && <p className="mt-1 text-xs text-gray-500">{detail}</p>}
+    </div>
+  );
+}
+
+// Most-picked entries of one kind, longest bar on top
+function RankingChart({ title, counts }: { title: string; counts: LabelCount[] }) {
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 border-b">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">{title}</h3>
+      </div>
+      <div className="px-4 py-5 sm:px-6">
+        {counts.length > 0 ? (
+          <ChartContainer config={countConfig} style={{ height: Math.max(120, counts.length * 36) }} className="aspect-auto w-full">
+            <BarChart data={counts} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="label" width={150} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing to show yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function Insights() {
+  const [, setLocation] = useLocation();
+  const [period, setPeriod] = useState<InsightsPeriod>("week");
+
+  // Get user info
+  const { data: userData } = useQuery<any>({
+    queryKey: ['/api/me'],
+  });
+
+  // Keyed by the path first so report events can mark every period stale
+  const { data: insights, isLoading } = useQuery<ReportInsights>({
+    queryKey: ["/api/stats/insights", period],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/stats/insights?period=${period}`);
+      return await res.json();
+    },
+  });
+
+  const username = userData?.user?.name || "User";
+
+  const perPeriod = (insights?.per_period || []).map(bucket => ({
+    ...bucket,
+    label: formatPeriod(bucket.period, period),
+    open: bucket.total - bucket.completed - bucket.aborted - bucket.expired
+  }));
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <Header username={username} />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <div className="md:flex md:items-center md:justify-between mb-6">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl font-semibold text-gray-800">Insights</h1>
+              <p className="mt-1 text-sm text-gray-500">How your TPS reports have gone over time</p>
+            </div>
+            <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setLocation('/')}
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Reports
+              </Button>
+            </div>
+          </div>
+
+          {isLoading || !insights ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <>
+              <dl className="mb-8 grid grid-cols-1 gap-5 sm:grid-cols-4">
+                <Figure title="Reports" value={String(insights.totals.total)} detail={`${insights.totals.pending} pending`} />
+                <Figure title="Completion rate" value={formatRate(insights.completion_rate)} detail="Of finished reports" />
+                <Figure title="Abort rate" value={formatRate(insights.abort_rate)} detail="Of finished reports" />
+                <Figure
+                  title="Average time to approval"
+                  value={formatHours(insights.average_completion_hours)}
+                  detail="From creation to completion"
+                />
+              </dl>
+
+              <div className="mb-6 bg-white shadow overflow-hidden sm:rounded-lg">
+                <div className="px-4 py-5 sm:px-6 border-b flex items-center justify-between">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Reports per {period}</h3>
+                  <div className="flex space-x-2">
+                    <Button variant={period === "week" ? "default" : "outline"} size="sm" onClick={() => setPeriod("week")}>
+                      Weekly
+                    </Button>
+                    <Button variant={period === "month" ? "default" : "outline"} size="sm" onClick={() => setPeriod("month")}>
+                      Monthly
+                    </Button>
+                  </div>
+                </div>
+                <div className="px-4 py-5 sm:px-6">
+                  {perPeriod.length > 0 ? (
+                    <ChartContainer config={periodConfig} className="h-72 aspect-auto w-full">
+                      <BarChart data={perPeriod}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis allowDecimals={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="completed" stackId="status" fill="var(--color-completed)" />
+                        <Bar dataKey="aborted" stackId="status" fill="var(--color-aborted)" />
+                        <Bar dataKey="expired" stackId="status" fill="var(--color-expired)" />
+                        <Bar dataKey="open" stackId="status" fill="var(--color-open)" />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="text-sm text-gray-500">No reports yet.</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                <RankingChart title="Most chosen activities" counts={insights.activities} />
+                <RankingChart title="Locations" counts={insights.locations} />
+                <RankingChart title="Sound" counts={insights.sounds} />
+                <RankingChart title="Who initiates" counts={insights.initiators} />
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+
+      <footer className="bg-white">
+        <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8">
+          <p className="text-sm text-gray-500 text-center">FormPlay – Trust, Pleasure, Safety</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
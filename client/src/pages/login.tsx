@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface LoginProps {
+  onLogin: () => void;
+}
+
+export default function Login({ onLogin }: LoginProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", "/api/login", { username, password });
+      onLogin();
+    } catch (error: any) {
+      toast({
+        title: "Login failed",
+        description: error.message?.startsWith("401")
+          ? "Invalid username or password"
+          : "Could not log in. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="max-w-md w-full mx-4 p-8 bg-white shadow-lg rounded-lg">
+        <div className="flex items-center justify-center mb-6">
+          <div className="h-10 w-10 rounded bg-gradient-to-br from-indigo-600 to-pink-500 flex items-center justify-center text-white font-bold">FP</div>
+          <h1 className="ml-3 text-2xl font-bold">FormPlay</h1>
+        </div>
+        <p className="text-gray-600 text-center mb-6">Log in to manage your TPS reports</p>
+
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div>
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              className="mt-1"
+              autoComplete="username"
+              autoCapitalize="none"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              className="mt-1"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isSubmitting || !username || !password}>
+            {isSubmitting ? "Logging in..." : "Log In"}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
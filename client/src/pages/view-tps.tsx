@@ -4,6 +4,9 @@ import { useLocation, useRoute } from "wouter";
 import Header from "@/components/header";
 import SimplePdfForm from "@/components/simple-pdf-form";
 import TpsReview from "@/components/tps-review";
+import RevisionHistory from "@/components/revision-history";
+import CounterRounds from "@/components/counter-rounds";
+import ActivityTimeline from "@/components/activity-timeline";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import { TpsStatus } from "@shared/schema";
@@ -27,7 +30,7 @@ export default function ViewTps() {
     isLoading: reportLoading, 
     isError,
     error 
-  } = useQuery({
+  } = useQuery<any>({
     queryKey: [`/api/tps-reports/${reportId}`],
     enabled: !!reportId && !!userData,
   });
@@ -110,7 +113,10 @@ export default function ViewTps() {
     // Invalidate cache to refetch the reports
     queryClient.invalidateQueries({ queryKey: ['/api/tps-reports'] });
     queryClient.invalidateQueries({ queryKey: [`/api/tps-reports/${reportId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tps-reports/${reportId}/revisions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tps-reports/${reportId}/logs`] });
     queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/activity'] });
   };
   
   return (
@@ -150,19 +156,39 @@ export default function ViewTps() {
               }}
               onSubmitSuccess={handleSuccessAction}
             />
-          ) : formMode === "review" || formMode === "approve" ? (
-            <SimplePdfForm
-              reportId={report.id}
-              initialData={report}
-              mode={formMode as "review" | "approve"}
-              userId={userId}
-              partnerId={isCreator ? report.receiver_id : report.creator_id}
-              userNames={{
-                user: username,
-                partner: partnerName
-              }}
-              onSubmitSuccess={handleSuccessAction}
+          ) : formMode === "approve" ? (
+            // Approving happens on the summary, which can also send a
+            // counter-proposal back instead of approving
+            <TpsReview
+              report={report}
+              isCreator={isCreator}
+              username={username}
+              partnerName={partnerName}
+              onSuccessAction={handleSuccessAction}
             />
+          ) : formMode === "review" ? (
+            <>
+              {report.counter_round > 0 && (
+                <div className="bg-white shadow sm:rounded-lg px-4 pt-5 sm:px-6 mb-6">
+                  <CounterRounds
+                    reportId={report.id}
+                    participantNames={{ creator: report.creator_name, receiver: report.receiver_name }}
+                  />
+                </div>
+              )}
+              <SimplePdfForm
+                reportId={report.id}
+                initialData={report}
+                mode="review"
+                userId={userId}
+                partnerId={isCreator ? report.receiver_id : report.creator_id}
+                userNames={{
+                  user: username,
+                  partner: partnerName
+                }}
+                onSubmitSuccess={handleSuccessAction}
+              />
+            </>
           ) : (
             <SimplePdfForm
               reportId={report.id}
@@ -176,6 +202,22 @@ export default function ViewTps() {
               }}
             />
           )}
+          
+          <RevisionHistory
+            reportId={report.id}
+            participantNames={{ creator: report.creator_name, receiver: report.receiver_name }}
+            isCreator={isCreator}
+            highlightUserId={formMode === "approve" ? report.receiver_id : undefined}
+          />
+
+          <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 border-b">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Activity</h3>
+            </div>
+            <div className="px-4 py-5 sm:px-6">
+              <ActivityTimeline filters={{ report_id: report.id }} />
+            </div>
+          </div>
         </div>
       </main>
 
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { TpsLog, TpsReport, TpsRevision, User } from '@shared/schema';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_MANIFEST_FILE,
+  ARCHIVE_VERSION,
+  ArchiveImportSummary,
+  ArchiveManifest,
+  ArchiveReport,
+  ArchiveTemplate
+} from '@shared/archive';
+import { storage } from './storage';
+import { ZipEntry, createZip, readZip } from './zip';
+
+// Something wrong with an uploaded archive, or where it's being restored;
+// status is what the route answers with
+export class ArchiveError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ArchiveError';
+    this.status = status;
+  }
+}
+
+async function readFileIfExists(filePath: string | null | undefined): Promise<Buffer | undefined> {
+  if (!filePath || !fs.existsSync(filePath)) return undefined;
+  return promisify(fs.readFile)(filePath);
+}
+
+// The manifest of everything the user and their partner share, with the
+// report and template PDFs alongside when files are wanted
+export async function buildArchive(userId: number, withFiles: boolean): Promise<{ manifest: ArchiveManifest; files: ZipEntry[] }> {
+  const userData = await storage.getUserWithPartner(userId);
+  if (!userData) throw new ArchiveError('User not found', 404);
+
+  const files: ZipEntry[] = [];
+  const reports = (await storage.getTpsReportsByUser(userId)).sort((a, b) => a.id - b.id);
+
+  const archiveReports: ArchiveReport[] = [];
+  const logs: TpsLog[] = [];
+  const revisions: TpsRevision[] = [];
+  for (const { pdf_path, ...report } of reports) {
+    const pdf = withFiles && pdf_path && fs.existsSync(pdf_path) ? await storage.readPdfFromDisk(pdf_path) : undefined;
+    const pdfFile = pdf ? `reports/${report.id}.pdf` : null;
+    if (pdf && pdfFile) files.push({ name: pdfFile, data: pdf });
+
+    archiveReports.push({ ...report, pdf_file: pdfFile });
+    logs.push(...await storage.getTpsLogsByReport(report.id));
+    revisions.push(...await storage.getTpsRevisionsByReport(report.id));
+  }
+
+  // Only the templates these reports were filled from
+  const templates: ArchiveTemplate[] = [];
+  const templateIds = Array.from(new Set(reports.map(report => report.template_id).filter((id): id is number => id !== null)));
+  for (const templateId of templateIds) {
+    const template = await storage.getTemplate(templateId);
+    if (!template) continue;
+
+    const { file_path, ...row } = template;
+    const pdf = withFiles ? await readFileIfExists(file_path) : undefined;
+    const file = pdf ? `templates/${template.id}.pdf` : null;
+    if (pdf && file) files.push({ name: file, data: pdf });
+    templates.push({ ...row, file });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    users: [userData.user, userData.partner].map(user => ({ id: user.id, username: user.username, name: user.name })),
+    templates,
+    reports: archiveReports,
+    logs: logs.sort((a, b) => a.id - b.id),
+    revisions: revisions.sort((a, b) => a.id - b.id)
+  };
+  return { manifest, files };
+}
+
+export async function exportArchiveZip(userId: number): Promise<Buffer> {
+  const { manifest, files } = await buildArchive(userId, true);
+  return createZip([
+    { name: ARCHIVE_MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') },
+    ...files
+  ]);
+}
+
+// Reads an upload that is either the ZIP or the bare manifest JSON
+export function readArchive(upload: Buffer | object): { manifest: ArchiveManifest; files: Map<string, Buffer> } {
+  let files = new Map<string, Buffer>();
+  let manifest: any = upload;
+
+  if (Buffer.isBuffer(upload)) {
+    try {
+      if (upload.subarray(0, 2).toString('latin1') === 'PK') {
+        files = readZip(upload);
+        const manifestFile = files.get(ARCHIVE_MANIFEST_FILE);
+        if (!manifestFile) throw new ArchiveError(`The archive has no ${ARCHIVE_MANIFEST_FILE}`);
+        manifest = JSON.parse(manifestFile.toString('utf8'));
+      } else {
+        manifest = JSON.parse(upload.toString('utf8'));
+      }
+    } catch (error) {
+      if (error instanceof ArchiveError) throw error;
+      throw new ArchiveError(`Not a readable archive: ${(error as Error).message}`);
+    }
+  }
+
+  if (manifest?.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError('Not a FormPlay archive');
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`Archive version ${manifest.version} is newer than this server reads (${ARCHIVE_VERSION})`);
+  }
+  for (const key of ['users', 'templates', 'reports', 'logs', 'revisions']) {
+    if (!Array.isArray(manifest[key])) throw new ArchiveError(`The manifest has no ${key} list`);
+  }
+
+  return { manifest, files };
+}
+
+// Restores an archive for the user and their partner, who must not have any
+// reports yet. Users are matched by username, since their ids differ between
+// instances; every row gets a new id and references follow it.
+export async function importArchive(userId: number, upload: Buffer | object): Promise<ArchiveImportSummary> {
+  const { manifest, files } = readArchive(upload);
+
+  const userIds = new Map<number, number>();
+  const users: User[] = [];
+  for (const archived of manifest.users) {
+    const user = await storage.getUserByUsername(archived.username);
+    if (!user) throw new ArchiveError(`There is no user named ${archived.username} on this server`);
+    userIds.set(archived.id, user.id);
+    users.push(user);
+  }
+  if (!users.some(user => user.id === userId)) {
+    throw new ArchiveError('This archive belongs to other users', 403);
+  }
+  for (const user of users) {
+    if ((await storage.getTpsReportsByUser(user.id)).length > 0) {
+      throw new ArchiveError('Archives only restore into an instance without reports', 409);
+    }
+  }
+
+  const mapUser = (id: number) => {
+    const mapped = userIds.get(id);
+    if (mapped === undefined) throw new ArchiveError(`The archive refers to user ${id}, who isn't in it`);
+    return mapped;
+  };
+  const summary: ArchiveImportSummary = { reports: 0, logs: 0, revisions: 0, templates: 0, pdfs: 0 };
+
+  const templateIds = new Map<number, number>();
+  const createdTemplateIds: number[] = [];
+  const reportIds = new Map<number, number>();
+
+  // Whatever went in is taken out again if any row fails, so the import can
+  // simply be retried
+  try {
+    // Templates this server already has are reused, matched by name and version
+    for (const { id, file, ...template } of manifest.templates) {
+      const existing = await storage.getTemplateByVersion(template.name, template.version);
+      const pdf = file ? files.get(file) : undefined;
+      if (existing) {
+        templateIds.set(id, existing.id);
+      } else if (pdf) {
+        const created = await storage.createTemplate({
+          name: template.name,
+          version: template.version,
+          file_path: await storage.saveTemplateToDisk(template.name, template.version, pdf),
+          uploaded_by: template.uploaded_by === null ? null : userIds.get(template.uploaded_by) ?? null
+        });
+        templateIds.set(id, created.id);
+        createdTemplateIds.push(created.id);
+        summary.templates++;
+      }
+    }
+
+    // A report is only ever replicated from an older one, so in id order its
+    // source is always restored first
+    const reports = [...manifest.reports].sort((a, b) => a.id - b.id);
+    for (const { id, pdf_file, ...report } of reports) {
+      const pdf = pdf_file ? files.get(pdf_file) : undefined;
+      const restored: TpsReport = await storage.restoreTpsReport({
+        ...report,
+        creator_id: mapUser(report.creator_id),
+        receiver_id: mapUser(report.receiver_id),
+        replicated_from_id: report.replicated_from_id === null ? null : reportIds.get(report.replicated_from_id) ?? null,
+        template_id: report.template_id === null ? null : templateIds.get(report.template_id) ?? null,
+        created_at: new Date(report.created_at),
+        updated_at: new Date(report.updated_at)
+      }, pdf);
+      reportIds.set(id, restored.id);
+      summary.reports++;
+      if (pdf) summary.pdfs++;
+    }
+
+    for (const { id, ...log } of manifest.logs) {
+      const reportId = reportIds.get(log.tps_id);
+      const logUserId = userIds.get(log.user_id);
+      if (reportId === undefined || logUserId === undefined) continue;
+
+      // Replication logs point at the report they were copied from
+      const details = (log.details || {}) as Record<string, any>;
+      await storage.restoreTpsLog({
+        ...log,
+        tps_id: reportId,
+        user_id: logUserId,
+        details: typeof details.original_id === 'number'
+          ? { ...details, original_id: reportIds.get(details.original_id) ?? null }
+          : log.details,
+        timestamp: new Date(log.timestamp)
+      });
+      summary.logs++;
+    }
+
+    for (const { id, ...revision } of manifest.revisions) {
+      const reportId = reportIds.get(revision.tps_id);
+      if (reportId === undefined) continue;
+
+      await storage.restoreTpsRevision({
+        ...revision,
+        tps_id: reportId,
+        user_id: revision.user_id === null ? null : userIds.get(revision.user_id) ?? null,
+        created_at: new Date(revision.created_at)
+      });
+      summary.revisions++;
+    }
+  } catch (error) {
+    await storage.discardRestoredArchive(Array.from(reportIds.values()), createdTemplateIds);
+    throw error;
+  }
+
+  return summary;
+}
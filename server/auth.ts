@@ -0,0 +1,40 @@
+import { scrypt, scryptSync, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+
+declare module 'express-session' {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+// Hashes are stored as scrypt$<salt>$<key> so plaintext rows are easy to spot
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${key.toString('hex')}`;
+}
+
+// Used where the caller can't await, e.g. seeding the in-memory storage
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) return false;
+
+  const [, salt, keyHex] = stored.split('$');
+  const storedKey = Buffer.from(keyHex, 'hex');
+  const key = await scryptAsync(password, salt, storedKey.length);
+  return timingSafeEqual(key, storedKey);
+}
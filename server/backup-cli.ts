@@ -0,0 +1,41 @@
+import { backups } from './backup';
+
+// npm run backup                 list the snapshots, newest first
+// npm run backup -- create       take a snapshot now
+// npm run backup -- restore NAME replace everything with that snapshot
+//
+// Restoring takes a pre-restore snapshot of the current state first. Stop
+// the server before restoring from here.
+async function main(command = 'list', name?: string) {
+  switch (command) {
+    case 'list': {
+      const list = await backups.list();
+      if (list.length === 0) console.log('No backups yet');
+      list.forEach(backup => {
+        console.log(`${backup.name}  ${(backup.size / 1024 / 1024).toFixed(1)} MB${backup.encrypted ? '  encrypted' : ''}`);
+      });
+      return;
+    }
+    case 'create': {
+      const backup = await backups.create('manual');
+      console.log(`Backed up to ${backup.name}`);
+      return;
+    }
+    case 'restore': {
+      if (!name) throw new Error('Name the backup to restore, e.g. npm run backup -- restore <name>');
+      const { restored, safety } = await backups.restore(name);
+      console.log(`Restored ${restored.name}. The state before it is in ${safety.name}`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown command ${command}; use list, create or restore`);
+  }
+}
+
+main(process.argv[2], process.argv[3]).then(
+  () => process.exit(0),
+  error => {
+    console.error('Backup failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,374 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { eq, getTableColumns, getTableName, sql } from 'drizzle-orm';
+import { PgTable } from 'drizzle-orm/pg-core';
+import {
+  users, templates, tpsReports, tpsRevisions, tpsLogs, userNotifications, pushSubscriptions, availabilityWindows, reportSchedules
+} from '@shared/schema';
+import { db } from './db';
+import { EnvelopeCipher, encryption, isSealedFile } from './encryption';
+import { ZipEntry, ZipFormatError, createZip, readZip } from './zip';
+
+// Backups are configured through the environment:
+//   BACKUP_DIR             where snapshots are written (default storage/backups;
+//                          somewhere off the machine's own disk is better)
+//   BACKUP_INTERVAL_HOURS  hours between snapshots (default 24; 0 turns the
+//                          schedule off, snapshots can still be taken by hand)
+//   BACKUP_RETENTION       how many snapshots to keep, newest first (default 14)
+//
+// A snapshot is a ZIP of every table as JSON plus the PDFs and templates
+// under storage/. It's encrypted with the master key when one is configured.
+
+const CHECK_INTERVAL = 15 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+const STORAGE_DIR = path.join(process.cwd(), 'storage');
+// Folders under storage/ that go into every snapshot
+const STORAGE_FOLDERS = ['pdfs', 'templates'];
+
+const BACKUP_FORMAT = 'formplay-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_FILE = 'backup.json';
+const BACKUP_NAME = /^formplay-backup-(\d{8}T\d{9}Z)-(scheduled|manual|pre-restore)\.zip(\.enc)?$/;
+
+// In the order they restore in, so every reference points at a row that's
+// already there
+const BACKUP_TABLES: PgTable[] = [
+  users, templates, tpsReports, tpsRevisions, tpsLogs, userNotifications, pushSubscriptions, availabilityWindows, reportSchedules
+];
+
+// Columns holding a path under storage/, which moves with the install
+const PATH_COLUMNS: Record<string, string> = { tps_reports: 'pdf_path', templates: 'file_path' };
+
+export type BackupKind = 'scheduled' | 'manual' | 'pre-restore';
+
+export interface BackupInfo {
+  name: string;
+  kind: BackupKind;
+  created_at: Date;
+  size: number;
+  encrypted: boolean;
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  // Where storage/ was, to move stored paths to where it is now
+  storage_dir: string;
+  tables: Record<string, number>;
+}
+
+export class BackupError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'BackupError';
+    this.status = status;
+  }
+}
+
+export interface BackupOptions {
+  dir: string;
+  interval: number;
+  retention: number;
+  // Usernames allowed to list, take and restore snapshots through the API;
+  // the CLI always can
+  admins: string[];
+}
+
+export function getBackupOptions(env: NodeJS.ProcessEnv = process.env): BackupOptions {
+  const hours = parseFloat(env.BACKUP_INTERVAL_HOURS ?? '');
+  const retention = parseInt(env.BACKUP_RETENTION ?? '');
+  return {
+    dir: path.resolve(env.BACKUP_DIR || path.join(STORAGE_DIR, 'backups')),
+    interval: isNaN(hours) ? 24 * HOUR : Math.max(hours, 0) * HOUR,
+    retention: isNaN(retention) ? 14 : Math.max(retention, 1),
+    admins: (env.BACKUP_ADMINS || '').split(',').map(username => username.trim()).filter(Boolean)
+  };
+}
+
+// 2026-10-18T03:00:00.123Z becomes 20261018T030000123Z
+function formatStamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, '');
+}
+
+function parseStamp(stamp: string): Date {
+  const [, year, month, day, hour, minute, second, ms] = stamp.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/) || [];
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}.${ms}Z`);
+}
+
+// Table rows come back from JSON with their timestamps as strings
+function reviveRow(table: PgTable, row: Record<string, any>): Record<string, any> {
+  const revived = { ...row };
+  Object.entries(getTableColumns(table)).forEach(([key, column]) => {
+    if (column.dataType === 'date' && revived[key] != null) revived[key] = new Date(revived[key]);
+  });
+  return revived;
+}
+
+// Sealed values in a table row, whichever columns hold them
+function rewrapRow(cipher: EnvelopeCipher, row: Record<string, any>): Record<string, any> {
+  const rewrapped: Record<string, any> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    rewrapped[key] = typeof value === 'string' ? cipher.rewrapText(value) : cipher.rewrapJson(value);
+  });
+  return rewrapped;
+}
+
+// Takes, lists, restores and prunes snapshots, and takes them on a schedule
+export class Backups {
+  private timer: NodeJS.Timeout | null = null;
+  // One snapshot or restore at a time, scheduled or not
+  private busy = false;
+  private options: BackupOptions;
+
+  constructor(options: BackupOptions) {
+    this.options = options;
+  }
+
+  start() {
+    if (this.timer || this.options.interval === 0) return;
+
+    this.run();
+    this.timer = setInterval(() => this.run(), CHECK_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Takes a snapshot when the newest one is older than the interval
+  async run(now = new Date()) {
+    if (this.busy) return;
+
+    try {
+      const [newest] = await this.list();
+      if (newest && now.getTime() - newest.created_at.getTime() < this.options.interval) return;
+
+      const backup = await this.create('scheduled', now);
+      console.log(`Backed up to ${backup.name}`);
+    } catch (error) {
+      console.error('Scheduled backup error:', error);
+    }
+  }
+
+  isAdmin(username: string): boolean {
+    return this.options.admins.includes(username);
+  }
+
+  async list(): Promise<BackupInfo[]> {
+    if (!fs.existsSync(this.options.dir)) return [];
+
+    const backups: BackupInfo[] = [];
+    for (const name of await promisify(fs.readdir)(this.options.dir)) {
+      const match = name.match(BACKUP_NAME);
+      if (!match) continue;
+
+      const { size } = await promisify(fs.stat)(path.join(this.options.dir, name));
+      backups.push({ name, kind: match[2] as BackupKind, created_at: parseStamp(match[1]), size, encrypted: !!match[3] });
+    }
+    return backups.sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+
+  // Takes a snapshot, then drops the ones past the retention
+  async create(kind: BackupKind, now = new Date()): Promise<BackupInfo> {
+    return this.exclusive(async () => {
+      const backup = await this.write(kind, now);
+      await this.prune();
+      return backup;
+    });
+  }
+
+  // Replaces every table and the stored files with the snapshot's. The
+  // current state is snapshotted first, so a restore can be undone.
+  async restore(name: string): Promise<{ restored: BackupInfo; safety: BackupInfo }> {
+    const restored = (await this.list()).find(backup => backup.name === name);
+    if (!restored) throw new BackupError(`There is no backup named ${name}`, 404);
+
+    return this.exclusive(async () => {
+      const { manifest, files } = await this.read(name);
+      const safety = await this.write('pre-restore', new Date());
+
+      await db.transaction(async tx => {
+        const tableNames = BACKUP_TABLES.map(table => getTableName(table));
+        await tx.execute(sql.raw(`TRUNCATE ${tableNames.join(', ')} RESTART IDENTITY CASCADE`));
+
+        for (const table of BACKUP_TABLES) {
+          const tableName = getTableName(table);
+          const file = files.get(`tables/${tableName}.json`);
+          const rows: Record<string, any>[] = file ? JSON.parse(file.toString('utf8')) : [];
+
+          const pathColumn = PATH_COLUMNS[tableName];
+          const restoredRows = rows.map(row => {
+            const revived = reviveRow(table, row);
+            if (pathColumn && typeof revived[pathColumn] === 'string' && revived[pathColumn].startsWith(manifest.storage_dir + path.sep)) {
+              revived[pathColumn] = path.join(STORAGE_DIR, path.relative(manifest.storage_dir, revived[pathColumn]));
+            }
+            return revived;
+          });
+
+          // Partners point at each other, so partner_id is filled in once
+          // both users exist
+          const insertRows = table === users ? restoredRows.map(row => ({ ...row, partner_id: null })) : restoredRows;
+          for (let i = 0; i < insertRows.length; i += 500) {
+            await tx.insert(table).values(insertRows.slice(i, i + 500));
+          }
+          if (table === users) {
+            for (const row of restoredRows.filter(row => row.partner_id !== null)) {
+              await tx.update(users).set({ partner_id: row.partner_id }).where(eq(users.id, row.id));
+            }
+          }
+
+          // New rows carry on after the restored ids
+          await tx.execute(sql.raw(
+            `SELECT setval(pg_get_serial_sequence('${tableName}', 'id'), coalesce(max(id), 0) + 1, false) FROM ${tableName}`
+          ));
+        }
+      });
+
+      for (const [entry, data] of Array.from(files.entries())) {
+        if (!entry.startsWith('storage/')) continue;
+
+        const target = path.resolve(STORAGE_DIR, entry.slice('storage/'.length));
+        if (!target.startsWith(STORAGE_DIR + path.sep)) continue;
+        await promisify(fs.mkdir)(path.dirname(target), { recursive: true });
+        await promisify(fs.writeFile)(target, data);
+      }
+
+      return { restored, safety };
+    });
+  }
+
+  // For key rotation: moves every snapshot onto the cipher's current key,
+  // along with the sealed values and PDFs inside it. Snapshots that can't be
+  // read are left alone and named, since they still need the old keys.
+  async rekey(cipher: EnvelopeCipher): Promise<{ rekeyed: BackupInfo[]; failed: string[] }> {
+    return this.exclusive(async () => {
+      const rekeyed: BackupInfo[] = [];
+      const failed: string[] = [];
+
+      for (const backup of await this.list()) {
+        try {
+          const { files } = await this.read(backup.name, cipher);
+          const entries: ZipEntry[] = Array.from(files.entries()).map(([name, data]) => {
+            if (name.startsWith('tables/')) {
+              const rows: Record<string, any>[] = JSON.parse(data.toString('utf8'));
+              return { name, data: Buffer.from(JSON.stringify(rows.map(row => rewrapRow(cipher, row))), 'utf8') };
+            }
+            return { name, data: name.startsWith('storage/') ? cipher.rewrapFile(data) : data };
+          });
+
+          // Snapshots from before encryption was turned on are sealed now
+          // too, under the name an encrypted one has
+          const zip = createZip(entries, backup.created_at);
+          const name = backup.encrypted ? backup.name : `${backup.name}.enc`;
+          const size = await this.replaceFile(name, cipher.encryptFile(zip));
+          if (name !== backup.name) await promisify(fs.unlink)(path.join(this.options.dir, backup.name));
+          rekeyed.push({ ...backup, name, size, encrypted: true });
+        } catch (error) {
+          console.error(`Couldn't re-encrypt ${backup.name}:`, error);
+          failed.push(backup.name);
+        }
+      }
+
+      return { rekeyed, failed };
+    });
+  }
+
+  // Deletes all but the newest snapshots the retention keeps
+  async prune(): Promise<string[]> {
+    const expired = (await this.list()).slice(this.options.retention);
+    for (const backup of expired) {
+      await promisify(fs.unlink)(path.join(this.options.dir, backup.name));
+    }
+    return expired.map(backup => backup.name);
+  }
+
+  private async exclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (this.busy) throw new BackupError('Another backup or restore is running', 409);
+
+    this.busy = true;
+    try {
+      return await task();
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async write(kind: BackupKind, now: Date): Promise<BackupInfo> {
+    const entries: ZipEntry[] = [];
+    const counts: Record<string, number> = {};
+
+    for (const table of BACKUP_TABLES) {
+      const tableName = getTableName(table);
+      const rows = await db.select().from(table);
+      counts[tableName] = rows.length;
+      entries.push({ name: `tables/${tableName}.json`, data: Buffer.from(JSON.stringify(rows), 'utf8') });
+    }
+
+    for (const folder of STORAGE_FOLDERS) {
+      const dir = path.join(STORAGE_DIR, folder);
+      if (!fs.existsSync(dir)) continue;
+
+      for (const file of await promisify(fs.readdir)(dir)) {
+        const filePath = path.join(dir, file);
+        if (!(await promisify(fs.stat)(filePath)).isFile()) continue;
+        entries.push({ name: `storage/${folder}/${file}`, data: await promisify(fs.readFile)(filePath) });
+      }
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: now.toISOString(),
+      storage_dir: STORAGE_DIR,
+      tables: counts
+    };
+    const zip = createZip([{ name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') }, ...entries], now);
+
+    const name = `formplay-backup-${formatStamp(now)}-${kind}.zip${encryption.enabled ? '.enc' : ''}`;
+    const size = await this.replaceFile(name, encryption.encryptFile(zip));
+    return { name, kind, created_at: now, size, encrypted: encryption.enabled };
+  }
+
+  // Written under a temporary name first, so a half-written file never
+  // looks like a snapshot
+  private async replaceFile(name: string, data: Buffer): Promise<number> {
+    await promisify(fs.mkdir)(this.options.dir, { recursive: true });
+    const filePath = path.join(this.options.dir, name);
+    await promisify(fs.writeFile)(`${filePath}.tmp`, data, { mode: 0o600 });
+    await promisify(fs.rename)(`${filePath}.tmp`, filePath);
+    return (await promisify(fs.stat)(filePath)).size;
+  }
+
+  private async read(name: string, cipher: EnvelopeCipher = encryption): Promise<{ manifest: BackupManifest; files: Map<string, Buffer> }> {
+    const data = await promisify(fs.readFile)(path.join(this.options.dir, name));
+    if (isSealedFile(data) && !cipher.enabled) {
+      throw new BackupError(`${name} is encrypted and no encryption key is configured`);
+    }
+
+    let files: Map<string, Buffer>;
+    try {
+      files = readZip(cipher.decryptFile(data));
+    } catch (error) {
+      if (error instanceof ZipFormatError) throw new BackupError(`${name} is damaged: ${error.message}`);
+      throw error;
+    }
+    const manifestFile = files.get(MANIFEST_FILE);
+    const manifest: BackupManifest | undefined = manifestFile && JSON.parse(manifestFile.toString('utf8'));
+    if (manifest?.format !== BACKUP_FORMAT) {
+      throw new BackupError(`${name} is not a FormPlay backup`);
+    }
+    if (manifest.version > BACKUP_VERSION) {
+      throw new BackupError(`${name} is backup version ${manifest.version}, newer than this server reads (${BACKUP_VERSION})`);
+    }
+    return { manifest, files };
+  }
+}
+
+export const backups = new Backups(getBackupOptions());
@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import { CalendarEvent } from '@shared/calendar';
+
+// Feed URLs are handed to calendar apps that can't log in, so the token in
+// the URL is the only thing protecting them
+export function createCalendarToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// Floating local time: the report's times are wall-clock times, so they
+// show up as written whatever timezone the phone is in
+function formatLocalDateTime(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting
+// with a space (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function renderEvent(event: CalendarEvent): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(event.updated)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(event.updated)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeText(event.title)}`
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatLocalDate(event.start)}`);
+  } else {
+    lines.push(`DTSTART:${formatLocalDateTime(event.start)}`);
+    if (event.end) lines.push(`DTEND:${formatLocalDateTime(event.end)}`);
+  }
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.relatedTo) lines.push(`RELATED-TO:${event.relatedTo}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function renderCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FormPlay//TPS Reports//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(renderEvent),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
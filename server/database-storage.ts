@@ -2,24 +2,43 @@ import {
   User, InsertUser, 
   TpsReport, InsertTpsReport, 
   TpsLog, InsertTpsLog, 
-  TpsStatus 
+  TpsRevision, InsertTpsRevision,
+  Template, InsertTemplate,
+  UserNotification, InsertUserNotification,
+  PushSubscription, InsertPushSubscription,
+  AvailabilityWindow, InsertAvailabilityWindow,
+  ReportSchedule, InsertReportSchedule,
+  TpsStatus, TpsFormData
 } from "@shared/schema";
+import { resetParticipantSession } from '@shared/form-data';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
 import * as db from './db';
 import { IStorage } from './storage';
+import { getTemplateFileName } from './pdf';
+import { assertTransitionExists } from '@shared/workflow';
+import { changesRevisionContent, getRevisionSnapshot, StaleReportError } from '@shared/revisions';
+import { TpsLogQuery } from '@shared/activity';
+import { TpsReportQuery, queryReports } from '@shared/report-query';
+import { getLocalDate } from '@shared/recurrence';
+import { ReportSearchHit, searchReports } from '@shared/search';
+import { encryption } from './encryption';
 
 export class DatabaseStorage implements IStorage {
   private pdfDir: string;
+  private templateDir: string;
   
   constructor() {
     this.pdfDir = path.join(process.cwd(), 'storage', 'pdfs');
+    this.templateDir = path.join(process.cwd(), 'storage', 'templates');
     
-    // Ensure PDF directory exists
-    if (!fs.existsSync(this.pdfDir)) {
-      fs.mkdirSync(this.pdfDir, { recursive: true });
-    }
+    // Ensure PDF directories exist
+    [this.pdfDir, this.templateDir].forEach(dir => {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    });
     
     // Initialize database
     this.initDatabase();
@@ -31,6 +50,9 @@ export class DatabaseStorage implements IStorage {
       // Run migrations and seed data if needed
       await db.runMigrations();
       await db.seedDatabase();
+      await db.rehashPlaintextPasswords();
+      await db.migrateFormDataToParticipants();
+      await db.seedDefaultTemplate();
       console.log('Database initialization complete');
     } catch (error) {
       console.error('Error initializing database:', error);
@@ -51,6 +73,18 @@ export class DatabaseStorage implements IStorage {
     return newUser;
   }
   
+  async updateUserPassword(id: number, passwordHash: string): Promise<User | undefined> {
+    return db.updateUserPassword(id, passwordHash);
+  }
+  
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return db.getUserByCalendarToken(token);
+  }
+  
+  async updateUserCalendarToken(id: number, token: string): Promise<User | undefined> {
+    return db.updateUserCalendarToken(id, token);
+  }
+  
   async getAllUsers(): Promise<User[]> {
     return db.getAllUsers();
   }
@@ -59,9 +93,10 @@ export class DatabaseStorage implements IStorage {
     return db.getUserWithPartner(userId);
   }
   
-  // TPS Report methods
+  // TPS Report methods. Content columns are sealed on the way in and opened
+  // on the way out when an encryption key is configured.
   async createTpsReport(report: InsertTpsReport): Promise<TpsReport> {
-    const newReport = await db.createTpsReport(report);
+    const newReport = encryption.decryptReport(await db.createTpsReport(encryption.encryptReport(report)));
     
     // Create log entry
     await this.createTpsLog({
@@ -75,39 +110,87 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getTpsReport(id: number): Promise<TpsReport | undefined> {
-    return db.getTpsReport(id);
+    const report = await db.getTpsReport(id);
+    return report && encryption.decryptReport(report);
   }
   
-  async updateTpsReport(id: number, data: Partial<TpsReport>): Promise<TpsReport | undefined> {
-    return db.updateTpsReport(id, data);
+  async updateTpsReport(id: number, data: Partial<TpsReport>, userId?: number, expectedVersion?: number): Promise<TpsReport | undefined> {
+    const report = await this.getTpsReport(id);
+    if (!report) return undefined;
+    
+    if (expectedVersion !== undefined && expectedVersion !== report.version) {
+      throw new StaleReportError(expectedVersion, report.version);
+    }
+    
+    // Status changes have to follow the transition table
+    if (data.status && data.status !== report.status) {
+      assertTransitionExists(report.status, data.status);
+    }
+    
+    // Only write over the version read above, in case the partner saved
+    // in the meantime. A content change also keeps the version it replaces,
+    // so it can be diffed later, in the same transaction.
+    const changesContent = changesRevisionContent(report, data);
+    const version = changesContent ? report.version + 1 : report.version;
+    const sealed = encryption.encryptReport({ ...data, version });
+    const updatedReport = changesContent
+      ? await db.updateTpsReportWithRevision(id, sealed, report.version, encryption.encryptRevision({
+        user_id: userId ?? null,
+        ...getRevisionSnapshot(report)
+      }))
+      : await db.updateTpsReport(id, sealed, report.version);
+    if (!updatedReport) {
+      const current = await db.getTpsReport(id);
+      if (current) throw new StaleReportError(report.version, current.version);
+    }
+    
+    return updatedReport && encryption.decryptReport(updatedReport);
   }
   
   async getAllTpsReports(): Promise<TpsReport[]> {
-    return db.db.select().from(db.tpsReports);
+    const reports = await db.db.select().from(db.tpsReports);
+    return reports.map(report => encryption.decryptReport(report));
   }
   
   async getTpsReportsByUser(userId: number): Promise<TpsReport[]> {
-    return db.getTpsReportsByUser(userId);
+    const reports = await db.getTpsReportsByUser(userId);
+    return reports.map(report => encryption.decryptReport(report));
   }
   
   async getTpsReportsByStatus(status: TpsStatus): Promise<TpsReport[]> {
-    return db.getTpsReportsByStatus(status);
+    const reports = await db.getTpsReportsByStatus(status);
+    return reports.map(report => encryption.decryptReport(report));
+  }
+  
+  async queryTpsReports(query: TpsReportQuery): Promise<TpsReport[]> {
+    // Sealed content can't be matched in SQL, so the database narrows the
+    // list by the plain columns and the rest is filtered once decrypted
+    if (encryption.enabled && (query.search || query.activity)) {
+      const candidates = await db.queryTpsReports({ ...query, search: undefined, activity: undefined, limit: undefined });
+      return queryReports(candidates.map(report => encryption.decryptReport(report)), query);
+    }
+    
+    const reports = await db.queryTpsReports(query);
+    return reports.map(report => encryption.decryptReport(report));
+  }
+  
+  async searchTpsReports(userId: number, query: string, limit: number): Promise<ReportSearchHit[]> {
+    if (encryption.enabled) {
+      return searchReports(await this.getTpsReportsByUser(userId), userId, query, limit);
+    }
+    
+    return db.searchTpsReports(userId, query, limit);
   }
   
-  async replicateTpsReport(id: number): Promise<TpsReport | undefined> {
+  async replicateTpsReport(id: number, overrides: Partial<InsertTpsReport> = {}): Promise<TpsReport | undefined> {
     const original = await this.getTpsReport(id);
     if (!original) return undefined;
     
-    // Create a copy with reset dates and emotional state
-    const formData = JSON.parse(JSON.stringify(original.form_data));
-    
-    // Reset emotional state
-    if (formData.emotional_state) {
-      formData.emotional_state = { matt: '', mina: '' };
-    }
+    // Create a copy with reset dates and each participant's emotional state
+    const formData = resetParticipantSession(original.form_data as TpsFormData);
     
     // Set current date
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalDate();
     
     const newReport: InsertTpsReport = {
       creator_id: original.creator_id,
@@ -125,7 +208,11 @@ export class DatabaseStorage implements IStorage {
       creator_initials: '',
       receiver_initials: '',
       replicated_from_id: original.id,
-      pdf_path: ''
+      pdf_path: '',
+      // Copies keep the original's template so its form data still lines up
+      template_id: original.template_id,
+      template_version: original.template_version,
+      ...overrides
     };
     
     const report = await this.createTpsReport(newReport);
@@ -143,33 +230,175 @@ export class DatabaseStorage implements IStorage {
   
   // Log methods
   async createTpsLog(log: InsertTpsLog): Promise<TpsLog> {
-    return db.createTpsLog({
+    const newLog = await db.createTpsLog(encryption.encryptLog({
       ...log,
       timestamp: new Date()
-    });
+    }));
+    return encryption.decryptLog(newLog);
   }
   
   async getTpsLogsByReport(tpsId: number): Promise<TpsLog[]> {
-    const logs = await db.getTpsLogsByReport(tpsId);
+    const logs = (await db.getTpsLogsByReport(tpsId)).map(log => encryption.decryptLog(log));
     return logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
   
-  // Helper methods
-  async sendEmail(to: string, subject: string, body: string): Promise<boolean> {
-    // In a real app, this would send an actual email
-    console.log(`Email sent to ${to}: ${subject} - ${body}`);
-    return true;
+  async getTpsLogs(query: TpsLogQuery): Promise<TpsLog[]> {
+    const logs = await db.getTpsLogs(query);
+    return logs.map(log => encryption.decryptLog(log));
+  }
+  
+  // Revision methods
+  async createTpsRevision(revision: InsertTpsRevision): Promise<TpsRevision> {
+    return encryption.decryptRevision(await db.createTpsRevision(encryption.encryptRevision(revision)));
+  }
+  
+  async getTpsRevisionsByReport(tpsId: number): Promise<TpsRevision[]> {
+    const revisions = await db.getTpsRevisionsByReport(tpsId);
+    return revisions.map(revision => encryption.decryptRevision(revision));
+  }
+  
+  // Template methods
+  async createTemplate(template: InsertTemplate): Promise<Template> {
+    return db.createTemplate(template);
+  }
+  
+  async getTemplate(id: number): Promise<Template | undefined> {
+    return db.getTemplateById(id);
+  }
+  
+  async getTemplates(): Promise<Template[]> {
+    return db.getTemplates();
+  }
+  
+  async getLatestTemplate(): Promise<Template | undefined> {
+    return db.getLatestTemplate();
+  }
+  
+  async getTemplateByVersion(name: string, version: string): Promise<Template | undefined> {
+    return db.getTemplateByVersion(name, version);
+  }
+  
+  // Notification methods
+  async createNotification(notification: InsertUserNotification): Promise<UserNotification> {
+    return db.createNotification(notification);
+  }
+  
+  async getNotificationsByUser(userId: number, limit: number): Promise<UserNotification[]> {
+    return db.getNotificationsByUser(userId, limit);
   }
   
-  async addToCalendar(userId: number, event: any): Promise<boolean> {
-    // In a real app, this would add to the user's calendar
-    console.log(`Calendar event added for user ${userId}: ${JSON.stringify(event)}`);
-    return true;
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return db.getUnreadNotificationCount(userId);
   }
   
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+    return db.markNotificationsRead(userId, ids);
+  }
+  
+  // Push subscription methods
+  async savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    return db.savePushSubscription(subscription);
+  }
+  
+  async getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]> {
+    return db.getPushSubscriptionsByUser(userId);
+  }
+  
+  async deletePushSubscription(endpoint: string, userId?: number): Promise<void> {
+    return db.deletePushSubscription(endpoint, userId);
+  }
+  
+  // Availability methods
+  async getAvailabilityWindowsByUsers(userIds: number[]): Promise<AvailabilityWindow[]> {
+    return db.getAvailabilityWindowsByUsers(userIds);
+  }
+  
+  async getAvailabilityWindow(id: number): Promise<AvailabilityWindow | undefined> {
+    return db.getAvailabilityWindow(id);
+  }
+  
+  async createAvailabilityWindow(window: InsertAvailabilityWindow): Promise<AvailabilityWindow> {
+    return db.createAvailabilityWindow(window);
+  }
+  
+  async deleteAvailabilityWindow(id: number): Promise<void> {
+    return db.deleteAvailabilityWindow(id);
+  }
+  
+  // Report schedule methods
+  async getReportSchedulesByUser(userId: number): Promise<ReportSchedule[]> {
+    return db.getReportSchedulesByUser(userId);
+  }
+  
+  async getActiveReportSchedules(): Promise<ReportSchedule[]> {
+    return db.getActiveReportSchedules();
+  }
+  
+  async getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+    return db.getReportSchedule(id);
+  }
+  
+  async createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule> {
+    return db.createReportSchedule(schedule);
+  }
+  
+  async updateReportSchedule(id: number, data: Partial<ReportSchedule>): Promise<ReportSchedule | undefined> {
+    return db.updateReportSchedule(id, data);
+  }
+  
+  async claimScheduleOccurrence(id: number, previous: string | null, occurrence: string | null): Promise<boolean> {
+    return db.claimScheduleOccurrence(id, previous, occurrence);
+  }
+  
+  async deleteReportSchedule(id: number): Promise<void> {
+    return db.deleteReportSchedule(id);
+  }
+  
+  // Archive restore methods
+  async restoreTpsReport(report: Omit<TpsReport, 'id' | 'pdf_path'>, pdf?: Buffer): Promise<TpsReport> {
+    let restored = await db.createTpsReport(encryption.encryptReport({ ...report, pdf_path: null }));
+    if (pdf) {
+      // The file is named after the new id, so it's written once the row
+      // exists, and the row goes again if that fails
+      try {
+        const pdfPath = await this.savePdfToDisk(restored.id, pdf);
+        restored = (await db.setTpsReportPdfPath(restored.id, pdfPath)) || restored;
+      } catch (error) {
+        await this.discardRestoredArchive([restored.id], []);
+        throw error;
+      }
+    }
+    return encryption.decryptReport(restored);
+  }
+  
+  async restoreTpsLog(log: Omit<TpsLog, 'id'>): Promise<TpsLog> {
+    return encryption.decryptLog(await db.createTpsLog(encryption.encryptLog(log)));
+  }
+  
+  async restoreTpsRevision(revision: Omit<TpsRevision, 'id'>): Promise<TpsRevision> {
+    return encryption.decryptRevision(await db.restoreTpsRevision(encryption.encryptRevision(revision)));
+  }
+  
+  async discardRestoredArchive(reportIds: number[], templateIds: number[]): Promise<void> {
+    for (const filePath of await db.deleteRestoredArchive(reportIds, templateIds)) {
+      if (fs.existsSync(filePath)) await promisify(fs.unlink)(filePath);
+    }
+  }
+  
+  // Helper methods
   async savePdfToDisk(reportId: number, pdfData: Buffer): Promise<string> {
     const pdfPath = path.join(this.pdfDir, `tps_report_${reportId}.pdf`);
-    await promisify(fs.writeFile)(pdfPath, pdfData);
+    await promisify(fs.writeFile)(pdfPath, encryption.encryptFile(pdfData));
     return pdfPath;
   }
-}
\ No newline at end of file
+  
+  async readPdfFromDisk(pdfPath: string): Promise<Buffer> {
+    return encryption.decryptFile(await promisify(fs.readFile)(pdfPath));
+  }
+  
+  async saveTemplateToDisk(name: string, version: string, pdfData: Buffer): Promise<string> {
+    const templatePath = path.join(this.templateDir, getTemplateFileName(name, version));
+    await promisify(fs.writeFile)(templatePath, pdfData);
+    return templatePath;
+  }
+}
@@ -3,8 +3,23 @@ import postgres from 'postgres';
 import { migrate } from 'drizzle-orm/postgres-js/migrator';
 import * as path from 'path';
 import * as fs from 'fs';
-import { users, tpsReports, tpsLogs, User, TpsReport, TpsLog } from '@shared/schema';
-import { eq, and, or } from 'drizzle-orm';
+import {
+  users, tpsReports, tpsLogs, tpsRevisions, templates, userNotifications, pushSubscriptions, availabilityWindows, reportSchedules,
+  User, TpsReport, TpsLog, TpsRevision, InsertTpsRevision, Template, InsertTemplate,
+  UserNotification, InsertUserNotification, PushSubscription, InsertPushSubscription,
+  AvailabilityWindow, InsertAvailabilityWindow, ReportSchedule, InsertReportSchedule,
+  getReportSearchDocument, getReportSearchDetails
+} from '@shared/schema';
+import { eq, and, or, asc, desc, isNull, inArray, count, gte, lte, lt, sql, SQL, getTableColumns } from 'drizzle-orm';
+import { hashPassword, isPasswordHash } from './auth';
+import { getSeedUsers, SEED_PASSWORD } from './seed';
+import { isParticipantFormData, migrateLegacyFormData } from '@shared/form-data';
+import { TPS_TEMPLATE } from '@shared/form-template';
+import { TEMPLATE_PATH } from './pdf';
+import { isSealedJson } from './encryption';
+import { TpsLogQuery } from '@shared/activity';
+import { ReportSort, TpsReportQuery } from '@shared/report-query';
+import { HEADLINE_OPTIONS, ReportSearchHit, parseHeadline } from '@shared/search';
 
 // Create postgres client
 const connectionString = process.env.DATABASE_URL;
@@ -42,28 +57,26 @@ export async function seedDatabase() {
     console.log('Seeding database with initial data...');
     
     // Create users
-    const [matt] = await db.insert(users).values({
-      username: 'matt',
-      password: 'password', // In a real app, this should be hashed
-      name: 'Matt',
-      email: 'matt@example.com',
+    const [first, second] = getSeedUsers();
+    
+    const [firstUser] = await db.insert(users).values({
+      ...first,
+      password: await hashPassword(SEED_PASSWORD),
     }).returning();
     
-    const [mina] = await db.insert(users).values({
-      username: 'mina',
-      password: 'password', // In a real app, this should be hashed
-      name: 'Mina',
-      email: 'mina@example.com',
+    const [secondUser] = await db.insert(users).values({
+      ...second,
+      password: await hashPassword(SEED_PASSWORD),
     }).returning();
     
     // Update partner relationships
     await db.update(users)
-      .set({ partner_id: mina.id })
-      .where(eq(users.id, matt.id));
+      .set({ partner_id: secondUser.id })
+      .where(eq(users.id, firstUser.id));
     
     await db.update(users)
-      .set({ partner_id: matt.id })
-      .where(eq(users.id, mina.id));
+      .set({ partner_id: firstUser.id })
+      .where(eq(users.id, secondUser.id));
     
     console.log('Database seeded successfully');
   } catch (error) {
@@ -72,6 +85,94 @@ export async function seedDatabase() {
   }
 }
 
+// One-time migration for databases seeded before passwords were hashed
+export async function rehashPlaintextPasswords() {
+  try {
+    const existingUsers = await db.select().from(users);
+    const plaintextUsers = existingUsers.filter(user => !isPasswordHash(user.password));
+    
+    if (plaintextUsers.length === 0) {
+      return;
+    }
+    
+    console.log(`Hashing ${plaintextUsers.length} plaintext password(s)...`);
+    
+    for (const user of plaintextUsers) {
+      await db.update(users)
+        .set({ password: await hashPassword(user.password) })
+        .where(eq(users.id, user.id));
+    }
+    
+    console.log('Passwords hashed successfully');
+  } catch (error) {
+    console.error('Error hashing passwords:', error);
+    throw error;
+  }
+}
+
+// One-time migration for reports whose form_data was keyed by the
+// participants' names rather than their role
+export async function migrateFormDataToParticipants() {
+  try {
+    const reports = await db.select().from(tpsReports);
+    // Encrypted form data was written by code that already keys it by role
+    const legacyReports = reports.filter(report => !isSealedJson(report.form_data) && !isParticipantFormData(report.form_data));
+    
+    if (legacyReports.length === 0) {
+      return;
+    }
+    
+    console.log(`Migrating form data of ${legacyReports.length} report(s)...`);
+    
+    const allUsers = await db.select().from(users);
+    const getName = (id: number) => allUsers.find(user => user.id === id)?.name || '';
+    
+    for (const report of legacyReports) {
+      const formData = migrateLegacyFormData(report.form_data, {
+        creator: getName(report.creator_id),
+        receiver: getName(report.receiver_id)
+      });
+      await db.update(tpsReports)
+        .set({ form_data: formData })
+        .where(eq(tpsReports.id, report.id));
+    }
+    
+    console.log('Form data migrated successfully');
+  } catch (error) {
+    console.error('Error migrating form data:', error);
+    throw error;
+  }
+}
+
+// Registers the bundled template and points reports created before
+// templates were tracked at it
+export async function seedDefaultTemplate() {
+  try {
+    let [template] = await db.select().from(templates).orderBy(templates.id).limit(1);
+    
+    if (!template) {
+      console.log('Registering default PDF template...');
+      [template] = await db.insert(templates).values({
+        name: TPS_TEMPLATE.name,
+        version: TPS_TEMPLATE.version,
+        file_path: TEMPLATE_PATH,
+      }).returning();
+    }
+    
+    const untracked = await db.update(tpsReports)
+      .set({ template_id: template.id, template_version: template.version })
+      .where(isNull(tpsReports.template_id))
+      .returning({ id: tpsReports.id });
+    
+    if (untracked.length > 0) {
+      console.log(`Linked ${untracked.length} report(s) to template ${template.name} ${template.version}`);
+    }
+  } catch (error) {
+    console.error('Error seeding default template:', error);
+    throw error;
+  }
+}
+
 // Helper functions for database operations
 export async function getUserById(id: number): Promise<User | undefined> {
   const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -93,6 +194,27 @@ export async function getUserWithPartner(userId: number): Promise<{user: User, p
   return { user, partner };
 }
 
+export async function updateUserPassword(id: number, passwordHash: string): Promise<User | undefined> {
+  const [user] = await db.update(users)
+    .set({ password: passwordHash })
+    .where(eq(users.id, id))
+    .returning();
+  return user;
+}
+
+export async function getUserByCalendarToken(token: string): Promise<User | undefined> {
+  const [user] = await db.select().from(users).where(eq(users.calendar_token, token));
+  return user;
+}
+
+export async function updateUserCalendarToken(id: number, token: string): Promise<User | undefined> {
+  const [user] = await db.update(users)
+    .set({ calendar_token: token })
+    .where(eq(users.id, id))
+    .returning();
+  return user;
+}
+
 export async function getAllUsers(): Promise<User[]> {
   return db.select().from(users);
 }
@@ -102,19 +224,52 @@ export async function createTpsReport(reportData: any): Promise<TpsReport> {
   return report;
 }
 
+// Leaves updated_at alone, unlike updateTpsReport, for restored reports
+export async function setTpsReportPdfPath(id: number, pdfPath: string): Promise<TpsReport | undefined> {
+  const [report] = await db.update(tpsReports).set({ pdf_path: pdfPath }).where(eq(tpsReports.id, id)).returning();
+  return report;
+}
+
 export async function getTpsReport(id: number): Promise<TpsReport | undefined> {
   const [report] = await db.select().from(tpsReports).where(eq(tpsReports.id, id));
   return report;
 }
 
-export async function updateTpsReport(id: number, data: Partial<TpsReport>): Promise<TpsReport | undefined> {
+// Updates nothing when expectedVersion is given and no longer matches
+export async function updateTpsReport(id: number, data: Partial<TpsReport>, expectedVersion?: number): Promise<TpsReport | undefined> {
   const [updatedReport] = await db.update(tpsReports)
     .set({ ...data, updated_at: new Date() })
-    .where(eq(tpsReports.id, id))
+    .where(expectedVersion === undefined
+      ? eq(tpsReports.id, id)
+      : and(eq(tpsReports.id, id), eq(tpsReports.version, expectedVersion)))
     .returning();
   return updatedReport;
 }
 
+// Writes over the expected version and snapshots the version it replaced,
+// together or not at all. The revision is numbered inside the transaction,
+// after the update has locked the report row.
+export async function updateTpsReportWithRevision(
+  id: number,
+  data: Partial<TpsReport>,
+  expectedVersion: number,
+  revisionData: Omit<InsertTpsRevision, 'tps_id' | 'revision'>
+): Promise<TpsReport | undefined> {
+  return db.transaction(async tx => {
+    const [updatedReport] = await tx.update(tpsReports)
+      .set({ ...data, updated_at: new Date() })
+      .where(and(eq(tpsReports.id, id), eq(tpsReports.version, expectedVersion)))
+      .returning();
+    if (!updatedReport) return undefined;
+
+    const [{ latest }] = await tx.select({ latest: sql<number>`coalesce(max(${tpsRevisions.revision}), 0)` })
+      .from(tpsRevisions)
+      .where(eq(tpsRevisions.tps_id, id));
+    await tx.insert(tpsRevisions).values({ ...revisionData, tps_id: id, revision: Number(latest) + 1 });
+    return updatedReport;
+  });
+}
+
 export async function getTpsReportsByUser(userId: number): Promise<TpsReport[]> {
   return db.select()
     .from(tpsReports)
@@ -128,6 +283,88 @@ export async function getTpsReportsByStatus(status: string): Promise<TpsReport[]
   return db.select().from(tpsReports).where(eq(tpsReports.status, status));
 }
 
+// Matches getReportSortValue in shared/report-query.ts, which cursors are
+// made from
+function reportSortValue(sort: ReportSort): SQL {
+  switch (sort) {
+    case 'date_desc':
+    case 'date_asc':
+      return sql`${tpsReports.date} || ' ' || ${tpsReports.time_start}`;
+    case 'updated_desc':
+      return sql`date_trunc('milliseconds', ${tpsReports.updated_at})`;
+    case 'created_desc':
+      return sql`date_trunc('milliseconds', ${tpsReports.created_at})`;
+  }
+}
+
+export async function queryTpsReports(query: TpsReportQuery): Promise<TpsReport[]> {
+  if (query.statuses?.length === 0 || query.locations?.length === 0) return [];
+
+  const conditions: (SQL | undefined)[] = [
+    or(eq(tpsReports.creator_id, query.userId), eq(tpsReports.receiver_id, query.userId))
+  ];
+  if (query.statuses) conditions.push(inArray(tpsReports.status, query.statuses));
+  if (query.from) conditions.push(gte(tpsReports.date, query.from));
+  if (query.to) conditions.push(lte(tpsReports.date, query.to));
+  if (query.locations) conditions.push(inArray(tpsReports.location, query.locations));
+  if (query.activity) {
+    conditions.push(sql`${tpsReports.form_data}->'fields'->>${query.activity}::text in ('Yes', 'true')`);
+  }
+  if (query.search) {
+    conditions.push(sql`${getReportSearchDocument(tpsReports)} @@ websearch_to_tsquery('english', ${query.search})`);
+  }
+
+  const ascending = query.sort === 'date_asc';
+  const sortValue = reportSortValue(query.sort);
+  if (query.after) {
+    const value = query.sort === 'updated_desc' || query.sort === 'created_desc'
+      ? sql`${query.after.value}::timestamp`
+      : sql`${query.after.value}`;
+    conditions.push(ascending
+      ? sql`(${sortValue}, ${tpsReports.id}) > (${value}, ${query.after.id})`
+      : sql`(${sortValue}, ${tpsReports.id}) < (${value}, ${query.after.id})`);
+  }
+
+  const select = db.select()
+    .from(tpsReports)
+    .where(and(...conditions))
+    .orderBy(...(ascending ? [asc(sortValue), asc(tpsReports.id)] : [desc(sortValue), desc(tpsReports.id)]));
+  return query.limit ? select.limit(query.limit) : select;
+}
+
+// Matches through the GIN index on the search document, with ts_headline
+// snippets from each field that matched
+export async function searchTpsReports(userId: number, query: string, limit: number): Promise<ReportSearchHit[]> {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const document = getReportSearchDocument(tpsReports);
+  const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+  const headline = (text: SQL) => sql<string | null>`case when to_tsvector('english', ${text}) @@ ${tsQuery}
+    then ts_headline('english', ${text}, ${tsQuery}, ${HEADLINE_OPTIONS}) end`;
+
+  const rows = await db.select({
+    report: getTableColumns(tpsReports),
+    rank,
+    creator_notes: headline(sql`coalesce(${tpsReports.creator_notes}, '')`),
+    receiver_notes: headline(sql`coalesce(${tpsReports.receiver_notes}, '')`),
+    details: headline(getReportSearchDetails(tpsReports))
+  })
+    .from(tpsReports)
+    .where(and(
+      or(eq(tpsReports.creator_id, userId), eq(tpsReports.receiver_id, userId)),
+      sql`${document} @@ ${tsQuery}`
+    ))
+    .orderBy(desc(rank), desc(tpsReports.id))
+    .limit(limit);
+
+  return rows.map(row => ({
+    report: row.report,
+    rank: row.rank,
+    snippets: (['creator_notes', 'receiver_notes', 'details'] as const)
+      .filter(field => row[field])
+      .map(field => ({ field, parts: parseHeadline(row[field] as string) }))
+  }));
+}
+
 export async function createTpsLog(logData: any): Promise<TpsLog> {
   const [log] = await db.insert(tpsLogs).values(logData).returning();
   return log;
@@ -135,4 +372,197 @@ export async function createTpsLog(logData: any): Promise<TpsLog> {
 
 export async function getTpsLogsByReport(tpsId: number): Promise<TpsLog[]> {
   return db.select().from(tpsLogs).where(eq(tpsLogs.tps_id, tpsId));
-}
\ No newline at end of file
+}
+
+export async function getTpsLogs(query: TpsLogQuery): Promise<TpsLog[]> {
+  if (query.reportIds.length === 0 || query.actions?.length === 0) return [];
+
+  const conditions: SQL[] = [inArray(tpsLogs.tps_id, query.reportIds)];
+  if (query.actions) conditions.push(inArray(tpsLogs.action, query.actions));
+  if (query.userId !== undefined) conditions.push(eq(tpsLogs.user_id, query.userId));
+  if (query.from) conditions.push(gte(tpsLogs.timestamp, query.from));
+  if (query.to) conditions.push(lte(tpsLogs.timestamp, query.to));
+  if (query.before !== undefined) conditions.push(lt(tpsLogs.id, query.before));
+
+  const select = db.select().from(tpsLogs).where(and(...conditions)).orderBy(desc(tpsLogs.id));
+  return query.limit ? select.limit(query.limit) : select;
+}
+
+export async function restoreTpsRevision(revisionData: Omit<TpsRevision, 'id'>): Promise<TpsRevision> {
+  const [revision] = await db.insert(tpsRevisions).values(revisionData).returning();
+  return revision;
+}
+
+// Deletes what a failed archive restore inserted, and returns the paths of
+// the files those rows pointed at
+export async function deleteRestoredArchive(reportIds: number[], templateIds: number[]): Promise<string[]> {
+  return db.transaction(async tx => {
+    const paths: (string | null)[] = [];
+    if (reportIds.length > 0) {
+      await tx.delete(tpsLogs).where(inArray(tpsLogs.tps_id, reportIds));
+      await tx.delete(tpsRevisions).where(inArray(tpsRevisions.tps_id, reportIds));
+      const reports = await tx.delete(tpsReports).where(inArray(tpsReports.id, reportIds)).returning({ path: tpsReports.pdf_path });
+      paths.push(...reports.map(report => report.path));
+    }
+    if (templateIds.length > 0) {
+      const deleted = await tx.delete(templates).where(inArray(templates.id, templateIds)).returning({ path: templates.file_path });
+      paths.push(...deleted.map(template => template.path));
+    }
+    return paths.filter((filePath): filePath is string => filePath !== null);
+  });
+}
+
+export async function createTpsRevision(revisionData: InsertTpsRevision): Promise<TpsRevision> {
+  const [revision] = await db.insert(tpsRevisions).values(revisionData).returning();
+  return revision;
+}
+
+export async function getTpsRevisionsByReport(tpsId: number): Promise<TpsRevision[]> {
+  return db.select()
+    .from(tpsRevisions)
+    .where(eq(tpsRevisions.tps_id, tpsId))
+    .orderBy(tpsRevisions.revision);
+}
+
+export async function getTemplates(): Promise<Template[]> {
+  return db.select().from(templates).orderBy(desc(templates.id));
+}
+
+export async function getTemplateById(id: number): Promise<Template | undefined> {
+  const [template] = await db.select().from(templates).where(eq(templates.id, id));
+  return template;
+}
+
+// New reports use the most recently uploaded template
+export async function getLatestTemplate(): Promise<Template | undefined> {
+  const [template] = await db.select().from(templates).orderBy(desc(templates.id)).limit(1);
+  return template;
+}
+
+export async function getTemplateByVersion(name: string, version: string): Promise<Template | undefined> {
+  const [template] = await db.select()
+    .from(templates)
+    .where(and(eq(templates.name, name), eq(templates.version, version)));
+  return template;
+}
+
+export async function createTemplate(templateData: InsertTemplate): Promise<Template> {
+  const [template] = await db.insert(templates).values(templateData).returning();
+  return template;
+}
+
+export async function createNotification(notificationData: InsertUserNotification): Promise<UserNotification> {
+  const [notification] = await db.insert(userNotifications).values(notificationData).returning();
+  return notification;
+}
+
+export async function getNotificationsByUser(userId: number, limit: number): Promise<UserNotification[]> {
+  return db.select()
+    .from(userNotifications)
+    .where(eq(userNotifications.user_id, userId))
+    .orderBy(desc(userNotifications.id))
+    .limit(limit);
+}
+
+export async function getUnreadNotificationCount(userId: number): Promise<number> {
+  const [result] = await db.select({ value: count() })
+    .from(userNotifications)
+    .where(and(eq(userNotifications.user_id, userId), isNull(userNotifications.read_at)));
+  return result?.value ?? 0;
+}
+
+export async function markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+  const conditions = [eq(userNotifications.user_id, userId), isNull(userNotifications.read_at)];
+  if (ids) {
+    if (ids.length === 0) return;
+    conditions.push(inArray(userNotifications.id, ids));
+  }
+
+  await db.update(userNotifications)
+    .set({ read_at: new Date() })
+    .where(and(...conditions));
+}
+
+// Subscribing the same browser again just moves it to whoever is logged in
+export async function savePushSubscription(subscriptionData: InsertPushSubscription): Promise<PushSubscription> {
+  const [subscription] = await db.insert(pushSubscriptions)
+    .values(subscriptionData)
+    .onConflictDoUpdate({
+      target: pushSubscriptions.endpoint,
+      set: { user_id: subscriptionData.user_id, p256dh: subscriptionData.p256dh, auth: subscriptionData.auth }
+    })
+    .returning();
+  return subscription;
+}
+
+export async function getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]> {
+  return db.select().from(pushSubscriptions).where(eq(pushSubscriptions.user_id, userId));
+}
+
+export async function deletePushSubscription(endpoint: string, userId?: number): Promise<void> {
+  await db.delete(pushSubscriptions).where(and(
+    eq(pushSubscriptions.endpoint, endpoint),
+    userId === undefined ? undefined : eq(pushSubscriptions.user_id, userId)
+  ));
+}
+
+export async function getAvailabilityWindowsByUsers(userIds: number[]): Promise<AvailabilityWindow[]> {
+  if (userIds.length === 0) return [];
+  return db.select().from(availabilityWindows).where(inArray(availabilityWindows.user_id, userIds));
+}
+
+export async function getAvailabilityWindow(id: number): Promise<AvailabilityWindow | undefined> {
+  const [window] = await db.select().from(availabilityWindows).where(eq(availabilityWindows.id, id));
+  return window;
+}
+
+export async function createAvailabilityWindow(windowData: InsertAvailabilityWindow): Promise<AvailabilityWindow> {
+  const [window] = await db.insert(availabilityWindows).values(windowData).returning();
+  return window;
+}
+
+export async function deleteAvailabilityWindow(id: number): Promise<void> {
+  await db.delete(availabilityWindows).where(eq(availabilityWindows.id, id));
+}
+
+export async function getReportSchedulesByUser(userId: number): Promise<ReportSchedule[]> {
+  return db.select().from(reportSchedules).where(eq(reportSchedules.creator_id, userId));
+}
+
+export async function getActiveReportSchedules(): Promise<ReportSchedule[]> {
+  return db.select().from(reportSchedules).where(eq(reportSchedules.active, true));
+}
+
+export async function getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+  const [schedule] = await db.select().from(reportSchedules).where(eq(reportSchedules.id, id));
+  return schedule;
+}
+
+export async function createReportSchedule(scheduleData: InsertReportSchedule): Promise<ReportSchedule> {
+  const [schedule] = await db.insert(reportSchedules).values(scheduleData).returning();
+  return schedule;
+}
+
+export async function updateReportSchedule(id: number, scheduleData: Partial<ReportSchedule>): Promise<ReportSchedule | undefined> {
+  const [schedule] = await db.update(reportSchedules)
+    .set(scheduleData)
+    .where(eq(reportSchedules.id, id))
+    .returning();
+  return schedule;
+}
+
+// A single conditional update, so concurrent runs can't both claim a date
+export async function claimScheduleOccurrence(id: number, previous: string | null, occurrence: string | null): Promise<boolean> {
+  const claimed = await db.update(reportSchedules)
+    .set({ last_occurrence: occurrence })
+    .where(and(
+      eq(reportSchedules.id, id),
+      previous === null ? isNull(reportSchedules.last_occurrence) : eq(reportSchedules.last_occurrence, previous)
+    ))
+    .returning({ id: reportSchedules.id });
+  return claimed.length > 0;
+}
+
+export async function deleteReportSchedule(id: number): Promise<void> {
+  await db.delete(reportSchedules).where(eq(reportSchedules.id, id));
+}
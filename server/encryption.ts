@@ -0,0 +1,293 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TpsLog, TpsReport, TpsRevision } from '@shared/schema';
+
+// Envelope encryption for report content at rest. Every value is sealed
+// with its own random data key, and that data key is wrapped with the master
+// key. Rotating the master key only has to re-wrap the data keys.
+//
+// The master key is 32 bytes, base64 or hex, from ENCRYPTION_KEY or else
+// storage/encryption.key. Keys a rotation replaced can be listed in
+// ENCRYPTION_PREVIOUS_KEYS (comma-separated) or on the keyfile's later lines
+// so values sealed with them still open. Without any key nothing is
+// encrypted; `npm run keys:rotate` creates the keyfile and encrypts what's
+// there.
+export const KEY_FILE_PATH = path.join(process.cwd(), 'storage', 'encryption.key');
+
+const SEALED_PREFIX = 'fp1';
+// Marks a jsonb column holding a sealed value instead of the JSON itself
+const SEALED_JSON_KEY = '$sealed';
+const FILE_MAGIC = Buffer.from('FPENC1\n', 'latin1');
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_ID_LENGTH = 8;
+const WRAPPED_KEY_LENGTH = IV_LENGTH + TAG_LENGTH + KEY_LENGTH;
+
+// Report columns sealed in the database, besides form_data
+export const SEALED_REPORT_COLUMNS = ['location_other', 'creator_notes', 'receiver_notes'] as const;
+
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface Keyring {
+  current: MasterKey;
+  previous: MasterKey[];
+  source: 'env' | 'file';
+}
+
+export function createMasterKey(key: Buffer = crypto.randomBytes(KEY_LENGTH)): MasterKey {
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, KEY_ID_LENGTH), key };
+}
+
+export function parseMasterKey(text: string): MasterKey {
+  const value = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new EncryptionKeyError(`An encryption key has to be ${KEY_LENGTH} bytes, base64 or hex`);
+  }
+  return createMasterKey(key);
+}
+
+export function formatMasterKey(masterKey: MasterKey): string {
+  return masterKey.key.toString('base64');
+}
+
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): Keyring | null {
+  if (env.ENCRYPTION_KEY) {
+    return {
+      current: parseMasterKey(env.ENCRYPTION_KEY),
+      previous: (env.ENCRYPTION_PREVIOUS_KEYS || '').split(',').filter(key => key.trim()).map(parseMasterKey),
+      source: 'env'
+    };
+  }
+
+  if (!fs.existsSync(KEY_FILE_PATH)) return null;
+
+  const keys = fs.readFileSync(KEY_FILE_PATH, 'utf-8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(parseMasterKey);
+  if (keys.length === 0) {
+    throw new EncryptionKeyError(`${KEY_FILE_PATH} holds no key`);
+  }
+  return { current: keys[0], previous: keys.slice(1), source: 'file' };
+}
+
+// The first key seals, the rest only open what they sealed before
+export function saveKeyFile(keys: MasterKey[]) {
+  fs.mkdirSync(path.dirname(KEY_FILE_PATH), { recursive: true });
+  const lines = [
+    '# FormPlay encryption keys, current one first. Without them encrypted reports can\'t be read.',
+    ...keys.map(formatMasterKey)
+  ];
+  fs.writeFileSync(KEY_FILE_PATH, lines.join('\n') + '\n', { mode: 0o600 });
+}
+
+function encryptWith(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decryptWith(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+// A data key wrapped with a master key, and what it sealed
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  payload: Buffer;
+}
+
+export function isSealedText(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${SEALED_PREFIX}:`);
+}
+
+export function isSealedJson(value: unknown): value is { [SEALED_JSON_KEY]: string } {
+  return typeof value === 'object' && value !== null && isSealedText((value as any)[SEALED_JSON_KEY]);
+}
+
+export function isSealedFile(data: Buffer): boolean {
+  return data.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC);
+}
+
+function parseSealedText(value: string): Envelope {
+  const [, keyId, wrappedKey, payload] = value.split(':');
+  return { keyId, wrappedKey: Buffer.from(wrappedKey, 'base64'), payload: Buffer.from(payload, 'base64') };
+}
+
+function formatSealedText(envelope: Envelope): string {
+  return [SEALED_PREFIX, envelope.keyId, envelope.wrappedKey.toString('base64'), envelope.payload.toString('base64')].join(':');
+}
+
+// Files start with the magic, the key id and the wrapped data key
+function parseSealedFile(data: Buffer): Envelope {
+  const keyStart = FILE_MAGIC.length + KEY_ID_LENGTH;
+  return {
+    keyId: data.toString('latin1', FILE_MAGIC.length, keyStart),
+    wrappedKey: data.subarray(keyStart, keyStart + WRAPPED_KEY_LENGTH),
+    payload: data.subarray(keyStart + WRAPPED_KEY_LENGTH)
+  };
+}
+
+function formatSealedFile(envelope: Envelope): Buffer {
+  return Buffer.concat([FILE_MAGIC, Buffer.from(envelope.keyId, 'latin1'), envelope.wrappedKey, envelope.payload]);
+}
+
+export class EnvelopeCipher {
+  constructor(private keyring: Keyring | null) {}
+
+  get enabled(): boolean {
+    return this.keyring !== null;
+  }
+
+  private getMasterKey(keyId: string): Buffer {
+    const masterKey = this.keyring && [this.keyring.current, ...this.keyring.previous].find(key => key.id === keyId);
+    if (!masterKey) {
+      throw new EncryptionKeyError(`Data was encrypted with key ${keyId}, which isn't configured`);
+    }
+    return masterKey.key;
+  }
+
+  private seal(plaintext: Buffer): Envelope {
+    if (!this.keyring) throw new EncryptionKeyError('No encryption key is configured');
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    return {
+      keyId: this.keyring.current.id,
+      wrappedKey: encryptWith(this.keyring.current.key, dataKey),
+      payload: encryptWith(dataKey, plaintext)
+    };
+  }
+
+  private open(envelope: Envelope): Buffer {
+    const dataKey = decryptWith(this.getMasterKey(envelope.keyId), envelope.wrappedKey);
+    return decryptWith(dataKey, envelope.payload);
+  }
+
+  // Re-wraps the data key with the current master key, leaving the sealed
+  // value itself untouched
+  private rewrap(envelope: Envelope): Envelope {
+    if (!this.keyring) throw new EncryptionKeyError('No encryption key is configured');
+    if (envelope.keyId === this.keyring.current.id) return envelope;
+
+    const dataKey = decryptWith(this.getMasterKey(envelope.keyId), envelope.wrappedKey);
+    return { ...envelope, keyId: this.keyring.current.id, wrappedKey: encryptWith(this.keyring.current.key, dataKey) };
+  }
+
+  // Values pass through unchanged while no key is configured, and plaintext
+  // written before one was still reads as it is
+
+  encryptText(value: string | null): string | null {
+    if (!this.enabled || value === null || isSealedText(value)) return value;
+    return formatSealedText(this.seal(Buffer.from(value, 'utf8')));
+  }
+
+  decryptText(value: string | null): string | null {
+    return isSealedText(value) ? this.open(parseSealedText(value)).toString('utf8') : value;
+  }
+
+  encryptJson(value: unknown): unknown {
+    if (!this.enabled || value === null || value === undefined || isSealedJson(value)) return value;
+    return { [SEALED_JSON_KEY]: formatSealedText(this.seal(Buffer.from(JSON.stringify(value), 'utf8'))) };
+  }
+
+  decryptJson(value: unknown): unknown {
+    return isSealedJson(value) ? JSON.parse(this.open(parseSealedText(value[SEALED_JSON_KEY])).toString('utf8')) : value;
+  }
+
+  encryptFile(data: Buffer): Buffer {
+    if (!this.enabled || isSealedFile(data)) return data;
+    return formatSealedFile(this.seal(data));
+  }
+
+  decryptFile(data: Buffer): Buffer {
+    return isSealedFile(data) ? this.open(parseSealedFile(data)) : data;
+  }
+
+  // For key rotation: moves sealed values onto the current key and leaves
+  // plaintext as it is
+  rewrapText(value: string | null): string | null {
+    return isSealedText(value) ? formatSealedText(this.rewrap(parseSealedText(value))) : value;
+  }
+
+  rewrapJson(value: unknown): unknown {
+    return isSealedJson(value)
+      ? { [SEALED_JSON_KEY]: formatSealedText(this.rewrap(parseSealedText(value[SEALED_JSON_KEY]))) }
+      : value;
+  }
+
+  rewrapFile(data: Buffer): Buffer {
+    return isSealedFile(data) ? formatSealedFile(this.rewrap(parseSealedFile(data))) : data;
+  }
+
+  // Like the above, but seals plaintext too
+  resealText(value: string | null): string | null {
+    return isSealedText(value) ? this.rewrapText(value) : this.encryptText(value);
+  }
+
+  resealJson(value: unknown): unknown {
+    return isSealedJson(value) ? this.rewrapJson(value) : this.encryptJson(value);
+  }
+
+  resealFile(data: Buffer): Buffer {
+    return isSealedFile(data) ? this.rewrapFile(data) : this.encryptFile(data);
+  }
+
+  // Row helpers for the columns that hold report content. Each takes and
+  // returns only the columns it was given, so they work on partial updates.
+
+  encryptReport<T extends Partial<TpsReport>>(report: T): T {
+    const sealed: any = { ...report };
+    SEALED_REPORT_COLUMNS.forEach(column => {
+      if (column in sealed) sealed[column] = this.encryptText(sealed[column] ?? null);
+    });
+    if ('form_data' in sealed) sealed.form_data = this.encryptJson(sealed.form_data);
+    return sealed;
+  }
+
+  decryptReport<T extends Partial<TpsReport>>(report: T): T {
+    const opened: any = { ...report };
+    SEALED_REPORT_COLUMNS.forEach(column => {
+      if (column in opened) opened[column] = this.decryptText(opened[column] ?? null);
+    });
+    if ('form_data' in opened) opened.form_data = this.decryptJson(opened.form_data);
+    return opened;
+  }
+
+  // Revisions are snapshots of the same columns
+  encryptRevision<T extends Partial<TpsRevision>>(revision: T): T {
+    return { ...revision, columns: this.encryptJson(revision.columns), form_data: this.encryptJson(revision.form_data) };
+  }
+
+  decryptRevision<T extends Partial<TpsRevision>>(revision: T): T {
+    return { ...revision, columns: this.decryptJson(revision.columns), form_data: this.decryptJson(revision.form_data) };
+  }
+
+  // Update logs carry the changed values, notes included
+  encryptLog<T extends Partial<TpsLog>>(log: T): T {
+    return { ...log, details: this.encryptJson(log.details) };
+  }
+
+  decryptLog<T extends Partial<TpsLog>>(log: T): T {
+    return { ...log, details: this.decryptJson(log.details) };
+  }
+}
+
+export const encryption = new EnvelopeCipher(loadKeyring());
@@ -41,9 +41,12 @@ app.use((req, res, next) => {
   try {
     log('Initializing database...', 'db');
     // Import database functions here to avoid circular dependencies
-    const { runMigrations, seedDatabase } = await import('./db');
+    const { runMigrations, seedDatabase, rehashPlaintextPasswords, migrateFormDataToParticipants, seedDefaultTemplate } = await import('./db');
     await runMigrations();
     await seedDatabase();
+    await rehashPlaintextPasswords();
+    await migrateFormDataToParticipants();
+    await seedDefaultTemplate();
     log('Database initialized successfully', 'db');
   } catch (error) {
     log(`Database initialization error: ${error}`, 'db');
@@ -0,0 +1,202 @@
+import nodemailer from 'nodemailer';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { getEmailSubjectForStatus, getEmailBodyForStatus, NotificationEvent } from '@shared/email';
+import { ParticipantNames } from '@shared/form-data';
+import { User } from '@shared/schema';
+import { storage } from './storage';
+import { reportEvents } from './realtime';
+import { sendPush, PushPayload } from './push';
+
+// Notifications are configured through the environment:
+//   NOTIFY_TRANSPORT  smtp, outbox or console (smtp when SMTP_HOST is set, console otherwise)
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS  SMTP server, e.g. maildev on localhost:1025
+//   MAIL_FROM         sender address
+//   OUTBOX_DIR        where the outbox transport writes messages
+//   APP_URL           link back to FormPlay in every email
+//   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT  Web Push keys, see push.ts
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface NotificationTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements NotificationTransport {
+  name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes every message to its own JSON file instead of sending it, so tests
+// and local setups can read back exactly what would have gone out
+export class OutboxTransport implements NotificationTransport {
+  name = 'outbox';
+  private dir: string;
+  private count = 0;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const fileName = `${Date.now()}-${++this.count}.json`;
+    const sentAt = new Date().toISOString();
+    await promisify(fs.writeFile)(
+      path.join(this.dir, fileName),
+      JSON.stringify({ ...message, sent_at: sentAt }, null, 2)
+    );
+  }
+}
+
+export class ConsoleTransport implements NotificationTransport {
+  name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`Email to ${message.to}: ${message.subject} - ${message.text}`);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Plain layout with inline styles, since most mail clients drop <style> blocks
+export function renderEmailHtml(subject: string, body: string, appUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h1 style="font-size:20px;margin:0 0 16px;color:#4f46e5;">${escapeHtml(subject)}</h1>
+      <p style="font-size:15px;line-height:1.5;margin:0 0 24px;">${escapeHtml(body)}</p>
+      <a href="${escapeHtml(appUrl)}" style="display:inline-block;background:#4f46e5;color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;">Open FormPlay</a>
+      <p style="font-size:12px;color:#6b7280;margin:24px 0 0;">FormPlay – Trust, Pleasure, Safety</p>
+    </div>
+  </body>
+</html>`;
+}
+
+export class NotificationService {
+  private transport: NotificationTransport;
+  private from: string;
+  private appUrl: string;
+
+  constructor(transport: NotificationTransport, options: { from: string; appUrl: string }) {
+    this.transport = transport;
+    this.from = options.from;
+    this.appUrl = options.appUrl;
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  // Failures are logged rather than thrown, so a mail outage never fails
+  // the report update that triggered it
+  async sendEmail(to: string, subject: string, body: string): Promise<boolean> {
+    try {
+      await this.transport.send({
+        from: this.from,
+        to,
+        subject,
+        text: `${body}\n\n${this.appUrl}`,
+        html: renderEmailHtml(subject, body, this.appUrl)
+      });
+      return true;
+    } catch (error) {
+      console.error(`Send email via ${this.transport.name} error:`, error);
+      return false;
+    }
+  }
+
+  // Tells a participant their report moved along, worded for the event: in
+  // the app's notification center, by email, and on every browser they
+  // turned Web Push on for
+  async notifyReportEvent(recipient: User, event: NotificationEvent, names: ParticipantNames, reportId: number): Promise<void> {
+    const title = getEmailSubjectForStatus(event, names.creator, names.receiver);
+    const body = getEmailBodyForStatus(event, names.creator, names.receiver);
+
+    try {
+      await storage.createNotification({ user_id: recipient.id, tps_id: reportId, event, title, body });
+      reportEvents.publish([recipient.id], { type: 'notification.created', report_id: reportId });
+    } catch (error) {
+      console.error('Create notification error:', error);
+    }
+
+    await this.sendEmail(recipient.email, title, body);
+    await this.sendPushNotifications(recipient.id, { title, body, url: `/reports/${reportId}` });
+  }
+
+  private async sendPushNotifications(userId: number, payload: PushPayload) {
+    try {
+      const subscriptions = await storage.getPushSubscriptionsByUser(userId);
+      for (const subscription of subscriptions) {
+        const delivered = await sendPush(subscription, payload).catch(error => {
+          console.error('Send push notification error:', error);
+          return true;
+        });
+        if (!delivered) {
+          await storage.deletePushSubscription(subscription.endpoint);
+        }
+      }
+    } catch (error) {
+      console.error('Send push notifications error:', error);
+    }
+  }
+}
+
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): NotificationTransport {
+  const transport = env.NOTIFY_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (transport) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('NOTIFY_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || '587'),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS
+      });
+    case 'outbox':
+      return new OutboxTransport(env.OUTBOX_DIR || path.join(process.cwd(), 'storage', 'outbox'));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown NOTIFY_TRANSPORT "${transport}"`);
+  }
+}
+
+export const notifications = new NotificationService(createTransportFromEnv(), {
+  from: process.env.MAIL_FROM || 'FormPlay <formplay@localhost>',
+  appUrl: process.env.APP_URL || 'http://localhost:5000'
+});
@@ -0,0 +1,143 @@
+import { PDFDocument, PDFCheckBox, PDFTextField, PDFDropdown, PDFRadioGroup, PDFName, PDFDict, PDFRef } from 'pdf-lib';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { TpsReport, TpsFormData } from '@shared/schema';
+import { toPdfFieldValues } from '@shared/form-data';
+import { getColumnPdfValues } from '@shared/form-template';
+
+const readFile = promisify(fs.readFile);
+
+export const TEMPLATE_PATH = path.join(process.cwd(), 'storage', 'pdfs', 'tps-vanilla.pdf');
+
+// Uploaded templates are stored as storage/templates/<name>-<version>.pdf
+export function getTemplateFileName(name: string, version: string): string {
+  const slug = `${name}-${version}`.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug}.pdf`;
+}
+
+export interface FillPdfOptions {
+  creatorName: string;
+  receiverName: string;
+  flatten?: boolean;
+  // Template the report was created from, the bundled one when unset
+  templatePath?: string;
+}
+
+// Strip the leading slash pdf-lib keeps on names and compare loosely
+function normalizeExportValue(value: string): string {
+  return value.replace(/^\//, '').toLowerCase();
+}
+
+function setCheckBox(field: PDFCheckBox, value: any) {
+  const widgets = field.acroField.getWidgets();
+  const wanted = (Array.isArray(value) ? value : [value])
+    .filter(v => typeof v === 'string' && v !== '')
+    .map(normalizeExportValue);
+
+  // Plain booleans only make sense for single-widget checkboxes
+  if (typeof value === 'boolean' || wanted.length === 0) {
+    if (value === true) field.check();
+    else field.uncheck();
+    return;
+  }
+
+  // Checkboxes sharing one name act as a group, so pick widgets by export value
+  let selected: PDFName | undefined;
+  widgets.forEach(widget => {
+    const onValue = widget.getOnValue();
+    if (onValue && wanted.includes(normalizeExportValue(onValue.toString()))) {
+      widget.setAppearanceState(onValue);
+      selected = selected || onValue;
+    } else {
+      widget.setAppearanceState(PDFName.of('Off'));
+    }
+  });
+  field.acroField.dict.set(PDFName.of('V'), selected || PDFName.of('Off'));
+}
+
+function setFieldValue(doc: PDFDocument, name: string, value: any) {
+  const field = doc.getForm().getFieldMaybe(name);
+  if (!field || value === undefined || value === null) return;
+
+  if (field instanceof PDFTextField) {
+    field.setText(Array.isArray(value) ? value.join(', ') : String(value));
+  } else if (field instanceof PDFCheckBox) {
+    setCheckBox(field, value);
+  } else if (field instanceof PDFRadioGroup) {
+    if (value) field.select(String(value));
+    else field.clear();
+  } else if (field instanceof PDFDropdown) {
+    if (value) field.select(String(value));
+    else field.clear();
+  }
+}
+
+// Builds the field values for a report, letting raw form fields win over
+// values derived from the report columns
+export function getReportPdfValues(report: TpsReport, options: FillPdfOptions): Record<string, any> {
+  const names = { creator: options.creatorName, receiver: options.receiverName };
+  return {
+    ...getColumnPdfValues(report, names),
+    ...toPdfFieldValues(report.form_data as TpsFormData, names)
+  };
+}
+
+// The template's AcroForm and field Kids point at stale copies of its
+// widgets, so rebuild both from the annotations actually on the pages
+function repairFormFields(doc: PDFDocument) {
+  const fieldRefs: PDFRef[] = [];
+  const kidsByParent = new Map<PDFDict, PDFRef[]>();
+
+  doc.getPages().forEach(page => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+
+    for (let i = 0; i < annots.size(); i++) {
+      const ref = annots.get(i);
+      const annot = annots.lookup(i);
+      if (!(ref instanceof PDFRef) || !(annot instanceof PDFDict)) continue;
+      if (annot.get(PDFName.of('Subtype')) !== PDFName.of('Widget')) continue;
+
+      annot.set(PDFName.of('P'), page.ref);
+      const parentRef = annot.get(PDFName.of('Parent'));
+      if (!(parentRef instanceof PDFRef)) {
+        fieldRefs.push(ref);
+        continue;
+      }
+
+      const parent = doc.context.lookup(parentRef, PDFDict);
+      if (!kidsByParent.has(parent)) {
+        kidsByParent.set(parent, []);
+        fieldRefs.push(parentRef);
+      }
+      kidsByParent.get(parent)!.push(ref);
+    }
+  });
+
+  kidsByParent.forEach((kids, parent) => {
+    parent.set(PDFName.of('Kids'), doc.context.obj(kids));
+  });
+  doc.getForm().acroForm.dict.set(PDFName.of('Fields'), doc.context.obj(fieldRefs));
+}
+
+export async function fillReportPdf(report: TpsReport, options: FillPdfOptions): Promise<Buffer> {
+  const templateBytes = await readFile(options.templatePath || TEMPLATE_PATH);
+  const doc = await PDFDocument.load(templateBytes);
+  repairFormFields(doc);
+  const values = getReportPdfValues(report, options);
+
+  Object.keys(values).forEach(name => {
+    try {
+      setFieldValue(doc, name, values[name]);
+    } catch (error) {
+      console.error(`Error filling PDF field ${name}:`, error);
+    }
+  });
+
+  if (options.flatten) {
+    doc.getForm().flatten();
+  }
+
+  return Buffer.from(await doc.save());
+}
@@ -0,0 +1,73 @@
+import webpush from 'web-push';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PushSubscription } from '@shared/schema';
+
+// VAPID keys identify this server to the browsers' push services. Set
+// VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to pin them; otherwise a pair is
+// generated on first start and kept in storage/vapid.json, since changing
+// the keys invalidates every existing subscription.
+const VAPID_PATH = path.join(process.cwd(), 'storage', 'vapid.json');
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+}
+
+function loadVapidKeys(): { publicKey: string; privateKey: string } {
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+  }
+
+  if (fs.existsSync(VAPID_PATH)) {
+    return JSON.parse(fs.readFileSync(VAPID_PATH, 'utf-8'));
+  }
+
+  const keys = webpush.generateVAPIDKeys();
+  fs.mkdirSync(path.dirname(VAPID_PATH), { recursive: true });
+  fs.writeFileSync(VAPID_PATH, JSON.stringify(keys, null, 2), { mode: 0o600 });
+  console.log(`Generated VAPID keys for Web Push in ${VAPID_PATH}`);
+  return keys;
+}
+
+let vapidPublicKey: string | undefined;
+
+function ensureVapidDetails(): string {
+  if (!vapidPublicKey) {
+    const keys = loadVapidKeys();
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || 'mailto:formplay@localhost',
+      keys.publicKey,
+      keys.privateKey
+    );
+    vapidPublicKey = keys.publicKey;
+  }
+  return vapidPublicKey;
+}
+
+export function getVapidPublicKey(): string {
+  return ensureVapidDetails();
+}
+
+// Resolves to false when the browser unsubscribed, so the caller can forget
+// the subscription
+export async function sendPush(subscription: PushSubscription, payload: PushPayload): Promise<boolean> {
+  ensureVapidDetails();
+
+  try {
+    await webpush.sendNotification(
+      {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: subscription.p256dh, auth: subscription.auth }
+      },
+      JSON.stringify(payload)
+    );
+    return true;
+  } catch (error: any) {
+    if (error?.statusCode === 404 || error?.statusCode === 410) {
+      return false;
+    }
+    throw error;
+  }
+}
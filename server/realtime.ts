@@ -0,0 +1,74 @@
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { RequestHandler, Request, Response } from 'express';
+import { WebSocketServer, WebSocket } from 'ws';
+import { REPORT_EVENTS_PATH, ReportEvent } from '@shared/events';
+
+const HEARTBEAT_INTERVAL = 30000;
+
+// Keeps every open socket by the user it belongs to, so report events only
+// reach the two partners on the report
+export class ReportEventHub {
+  private wss = new WebSocketServer({ noServer: true });
+  private sockets = new Map<number, Set<WebSocket>>();
+  private alive = new WeakSet<WebSocket>();
+
+  // Handles upgrades on REPORT_EVENTS_PATH only, leaving the rest (such as
+  // Vite's HMR socket) alone. The session cookie is read the same way as for
+  // any other request, and only logged-in users get a socket.
+  attach(server: Server, sessionMiddleware: RequestHandler) {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (req.url?.split('?')[0] !== REPORT_EVENTS_PATH) return;
+
+      const request = req as Request;
+      sessionMiddleware(request, {} as Response, () => {
+        const userId = request.session?.userId;
+        if (!userId) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        this.wss.handleUpgrade(req, socket, head, ws => this.register(userId, ws));
+      });
+    });
+
+    // Drop sockets that stopped answering pings, e.g. a phone that went to sleep
+    const heartbeat = setInterval(() => {
+      this.wss.clients.forEach(ws => {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL);
+    heartbeat.unref();
+  }
+
+  private register(userId: number, ws: WebSocket) {
+    const sockets = this.sockets.get(userId) || new Set<WebSocket>();
+    sockets.add(ws);
+    this.sockets.set(userId, sockets);
+    this.alive.add(ws);
+
+    ws.on('pong', () => this.alive.add(ws));
+    ws.on('close', () => {
+      sockets.delete(ws);
+      if (sockets.size === 0) this.sockets.delete(userId);
+    });
+    ws.on('error', error => console.error('Report events socket error:', error));
+  }
+
+  publish(userIds: number[], event: ReportEvent) {
+    const message = JSON.stringify(event);
+    userIds.forEach(userId => {
+      this.sockets.get(userId)?.forEach(ws => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(message);
+      });
+    });
+  }
+}
+
+export const reportEvents = new ReportEventHub();
@@ -0,0 +1,166 @@
+import { TpsLog, TpsReport, TpsStatus } from '@shared/schema';
+import { EXPIRABLE_STATUSES } from '@shared/workflow';
+import { NotificationEvent } from '@shared/email';
+import { storage } from './storage';
+import { notifications } from './notifications';
+import { reportEvents } from './realtime';
+import { regenerateReportPdf } from './report-pdf';
+
+// Reminders are configured through the environment:
+//   REMINDER_DELAYS  hours after a report started waiting to remind the
+//                    partner it waits on, comma-separated (default 24,72;
+//                    empty turns reminders off)
+
+const CHECK_INTERVAL = 15 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+export function parseReminderDelays(value: string | undefined): number[] {
+  if (value === undefined) return [24 * HOUR, 72 * HOUR];
+
+  return value.split(',')
+    .map(hours => parseFloat(hours))
+    .filter(hours => !isNaN(hours) && hours > 0)
+    .sort((a, b) => a - b)
+    .map(hours => hours * HOUR);
+}
+
+// When the report's time is over, read as server-local time like the
+// calendar feed does
+export function getReportEnd(report: Pick<TpsReport, 'date' | 'time_end'>): Date | null {
+  const end = new Date(`${report.date}T${report.time_end}:00`);
+  return isNaN(end.getTime()) ? null : end;
+}
+
+// Logs that always put a report into a new status; updates only do when
+// their from and status differ
+const STATUS_CHANGE_ACTIONS = ['created', 'replicated', 'scheduled', 'countered'];
+
+// When the report entered its current status. Not updated_at, which also
+// moves when only the PDF is written again.
+function getWaitingSince(report: TpsReport, logs: TpsLog[]): Date {
+  const changes = logs
+    .filter(log => {
+      const details = (log.details || {}) as Record<string, any>;
+      return STATUS_CHANGE_ACTIONS.includes(log.action) || (log.action === 'updated' && details.from !== details.status);
+    })
+    .map(log => new Date(log.timestamp).getTime());
+  return new Date(changes.length > 0 ? Math.max(...changes) : new Date(report.created_at).getTime());
+}
+
+// Nudges whoever a pending report is waiting on, and expires the ones whose
+// time passed while they were still waiting
+export class ReportReminders {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private delays: number[];
+
+  constructor(delays: number[]) {
+    this.delays = delays;
+  }
+
+  start() {
+    if (this.timer) return;
+
+    this.run();
+    this.timer = setInterval(() => this.run(), CHECK_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async run(now = new Date()) {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const status of EXPIRABLE_STATUSES) {
+        const reports = await storage.getTpsReportsByStatus(status);
+        for (const report of reports) {
+          try {
+            const end = getReportEnd(report);
+            if (end && end <= now) {
+              await this.expire(report);
+            } else {
+              await this.remind(report, now);
+            }
+          } catch (error) {
+            console.error(`Check reminders for TPS report ${report.id} error:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Check report reminders error:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async expire(report: TpsReport) {
+    const updatedReport = await storage.updateTpsReport(report.id, { status: TpsStatus.EXPIRED });
+    if (!updatedReport) return;
+
+    // The stored PDF still shows the old status; a failure here shouldn't
+    // keep the expiry from being logged and announced
+    try {
+      await regenerateReportPdf(updatedReport);
+    } catch (error) {
+      console.error(`Regenerate PDF for expired TPS report ${report.id} error:`, error);
+    }
+
+    await storage.createTpsLog({
+      tps_id: report.id,
+      user_id: report.creator_id,
+      action: 'expired',
+      details: { from: report.status, date: report.date, time_end: report.time_end }
+    });
+    reportEvents.publish([report.creator_id, report.receiver_id], { type: 'report.updated', report_id: report.id });
+
+    const userData = await storage.getUserWithPartner(report.creator_id);
+    if (userData) {
+      const names = { creator: userData.user.name, receiver: userData.partner.name };
+      await notifications.notifyReportEvent(userData.user, TpsStatus.EXPIRED, names, report.id);
+      await notifications.notifyReportEvent(userData.partner, TpsStatus.EXPIRED, names, report.id);
+    }
+  }
+
+  // The report has waited since its last status change, and each delay that
+  // passed since then gets one reminder. Reminders are logged, so a restart
+  // doesn't send them again.
+  private async remind(report: TpsReport, now: Date) {
+    if (this.delays.length === 0) return;
+
+    const logs = await storage.getTpsLogsByReport(report.id);
+    const waitingSince = getWaitingSince(report, logs);
+    const sent = logs.filter(log =>
+      log.action === 'reminded' && new Date(log.timestamp) >= waitingSince
+    ).length;
+
+    if (sent >= this.delays.length || now.getTime() - waitingSince.getTime() < this.delays[sent]) return;
+
+    const waitingOnCreator = report.status === TpsStatus.PENDING_APPROVAL;
+    const recipientId = waitingOnCreator ? report.creator_id : report.receiver_id;
+    const event: NotificationEvent = waitingOnCreator ? 'approval_reminder' : 'review_reminder';
+
+    await storage.createTpsLog({
+      tps_id: report.id,
+      user_id: recipientId,
+      action: 'reminded',
+      details: { status: report.status, reminder: sent + 1 }
+    });
+
+    const creator = await storage.getUser(report.creator_id);
+    const receiver = await storage.getUser(report.receiver_id);
+    const recipient = waitingOnCreator ? creator : receiver;
+    if (creator && receiver && recipient) {
+      await notifications.notifyReportEvent(recipient, event, {
+        creator: creator.name,
+        receiver: receiver.name
+      }, report.id);
+    }
+  }
+}
+
+export const reportReminders = new ReportReminders(parseReminderDelays(process.env.REMINDER_DELAYS));
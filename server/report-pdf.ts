@@ -0,0 +1,23 @@
+import { TpsReport } from '@shared/schema';
+import { isFinalStatus } from '@shared/workflow';
+import { storage } from './storage';
+import { fillReportPdf } from './pdf';
+
+// Fill the template from the report row and store it, flattening once the
+// report is finalized so the saved copy can't be edited anymore
+export async function regenerateReportPdf(report: TpsReport): Promise<TpsReport> {
+  const creator = await storage.getUser(report.creator_id);
+  const receiver = await storage.getUser(report.receiver_id);
+  const template = report.template_id ? await storage.getTemplate(report.template_id) : undefined;
+
+  const pdfBuffer = await fillReportPdf(report, {
+    creatorName: creator?.name || 'Creator',
+    receiverName: receiver?.name || 'Receiver',
+    flatten: isFinalStatus(report.status),
+    templatePath: template?.file_path
+  });
+  const pdfPath = await storage.savePdfToDisk(report.id, pdfBuffer);
+
+  const updatedReport = await storage.updateTpsReport(report.id, { pdf_path: pdfPath });
+  return updatedReport || report;
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { eq } from 'drizzle-orm';
+import { tpsLogs, tpsReports, tpsRevisions } from '@shared/schema';
+import { db } from './db';
+import { backups } from './backup';
+import {
+  EnvelopeCipher,
+  KEY_FILE_PATH,
+  Keyring,
+  SEALED_REPORT_COLUMNS,
+  createMasterKey,
+  formatMasterKey,
+  loadKeyring,
+  parseMasterKey,
+  saveKeyFile
+} from './encryption';
+
+// npm run keys:rotate
+//
+// Moves every report, revision, log and report PDF onto a new master key,
+// encrypting whatever is still plaintext, along with the snapshots in
+// BACKUP_DIR. The first run turns encryption on.
+// Set NEW_ENCRYPTION_KEY to choose the key, otherwise one is generated.
+// Stop the server first; it has to be restarted to pick up the new key.
+async function rotateKey() {
+  const previous = loadKeyring();
+  const newKey = process.env.NEW_ENCRYPTION_KEY ? parseMasterKey(process.env.NEW_ENCRYPTION_KEY) : createMasterKey();
+  const oldKeys = previous ? [previous.current, ...previous.previous] : [];
+  const keyring: Keyring = { current: newKey, previous: oldKeys, source: previous?.source ?? 'file' };
+  const cipher = new EnvelopeCipher(keyring);
+
+  // Written before anything is re-encrypted, so an interrupted run can be
+  // repeated with every key still at hand
+  if (keyring.source === 'file') {
+    saveKeyFile([newKey, ...oldKeys]);
+    console.log(`Saved new key ${newKey.id} to ${KEY_FILE_PATH}`);
+  } else if (!process.env.NEW_ENCRYPTION_KEY) {
+    console.log(`New key ${newKey.id}: ${formatMasterKey(newKey)}`);
+  }
+
+  const reports = await db.select().from(tpsReports);
+  for (const report of reports) {
+    const sealed: Partial<typeof report> = { form_data: cipher.resealJson(report.form_data) };
+    SEALED_REPORT_COLUMNS.forEach(column => {
+      sealed[column] = cipher.resealText(report[column]);
+    });
+    await db.update(tpsReports).set(sealed).where(eq(tpsReports.id, report.id));
+
+    if (report.pdf_path && fs.existsSync(report.pdf_path)) {
+      const pdf = await promisify(fs.readFile)(report.pdf_path);
+      await promisify(fs.writeFile)(report.pdf_path, cipher.resealFile(pdf));
+    }
+  }
+  console.log(`Re-encrypted ${reports.length} report(s) and their PDFs`);
+
+  const revisions = await db.select().from(tpsRevisions);
+  for (const revision of revisions) {
+    await db.update(tpsRevisions)
+      .set({ columns: cipher.resealJson(revision.columns), form_data: cipher.resealJson(revision.form_data) })
+      .where(eq(tpsRevisions.id, revision.id));
+  }
+  console.log(`Re-encrypted ${revisions.length} revision(s)`);
+
+  const logs = await db.select().from(tpsLogs);
+  for (const log of logs) {
+    await db.update(tpsLogs)
+      .set({ details: cipher.resealJson(log.details) })
+      .where(eq(tpsLogs.id, log.id));
+  }
+  console.log(`Re-encrypted ${logs.length} log entr${logs.length === 1 ? 'y' : 'ies'}`);
+
+  // Backups hold sealed rows and PDFs too, and are sealed as a whole
+  const { rekeyed, failed } = await backups.rekey(cipher);
+  console.log(`Re-encrypted ${rekeyed.length} backup(s)`);
+
+  if (failed.length > 0) {
+    // Those backups can still only be opened with the old keys
+    console.log(`Kept the old keys for ${failed.length} backup(s) that couldn't be re-encrypted: ${failed.join(', ')}`);
+    if (keyring.source === 'env') {
+      console.log(`Set ENCRYPTION_KEY to key ${newKey.id} and add the old key to ENCRYPTION_PREVIOUS_KEYS before restarting the server`);
+    }
+  } else if (keyring.source === 'file') {
+    // Nothing needs the old keys any more
+    saveKeyFile([newKey]);
+    console.log(`Removed ${oldKeys.length} old key(s) from ${KEY_FILE_PATH}`);
+  } else {
+    console.log(`Set ENCRYPTION_KEY to key ${newKey.id} and clear ENCRYPTION_PREVIOUS_KEYS before restarting the server`);
+  }
+}
+
+rotateKey().then(
+  () => process.exit(0),
+  error => {
+    console.error('Key rotation failed:', error);
+    process.exit(1);
+  }
+);
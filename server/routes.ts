@@ -1,24 +1,85 @@
 import type { Express, Request, Response } from "express";
+import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertTpsReportSchema, insertTpsLogSchema, TpsStatus } from "@shared/schema";
+import {
+  insertTpsReportSchema,
+  insertTpsLogSchema,
+  insertAvailabilityWindowSchema,
+  insertReportScheduleSchema,
+  TpsStatus,
+  TpsReport,
+  TpsFormData,
+  ReportSchedule
+} from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import * as fs from 'fs';
 import * as path from 'path';
+import { promisify } from 'util';
 import session from 'express-session';
 import MemoryStore from 'memorystore';
+import { PDFDocument } from 'pdf-lib';
+import { regenerateReportPdf } from './report-pdf';
+import { notifications } from './notifications';
+import { createCalendarToken, renderCalendar } from './calendar';
+import { reportEvents } from './realtime';
+import { getVapidPublicKey } from './push';
+import { reportScheduler } from './scheduler';
+import { reportReminders } from './reminders';
+import { hashPassword, verifyPassword } from './auth';
+import { ArchiveError, buildArchive, exportArchiveZip, importArchive } from './archive';
+import { ZipFormatError } from './zip';
+import { BackupError, backups } from './backup';
+import { assertTransition, assertInitialStatus, isFinalStatus, TpsTransitionError } from '@shared/workflow';
+import { applyWriteMask } from '@shared/permissions';
+import { migrateLegacyFormData, clearParticipantInitials } from '@shared/form-data';
+import { buildRevisionRounds, diffSnapshots, getRevisionSnapshot, StaleReportError } from '@shared/revisions';
+import { createTpsReviewEvent, hasCalendarEvent } from '@shared/calendar';
+import {
+  ScheduleRange,
+  SCHEDULE_COLUMNS,
+  validateTimeRange,
+  findScheduleConflicts,
+  validateAvailabilityWindow,
+  parseDate
+} from '@shared/scheduling';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  describeRecurrenceRule,
+  getNextOccurrence,
+  addDays,
+  getLocalDate,
+  RecurrenceRuleError
+} from '@shared/recurrence';
+import { ReportEventType } from '@shared/events';
+import { computeReportInsights, InsightsPeriod, INSIGHTS_PERIODS } from '@shared/stats';
+import {
+  DEFAULT_REPORT_SORT,
+  MAX_REPORT_PAGE_SIZE,
+  REPORT_ACTIVITY_FILTERS,
+  REPORT_PAGE_SIZE,
+  REPORT_SORTS,
+  ReportSort,
+  decodeReportCursor,
+  encodeReportCursor,
+  getReportSortValue
+} from '@shared/report-query';
+import { ReportSearchResult, SEARCH_RESULT_LIMIT } from '@shared/search';
+import { ACTIVITY_ACTIONS, ACTIVITY_PAGE_SIZE, DEFAULT_ACTIVITY_ACTIONS, MAX_ACTIVITY_PAGE_SIZE } from '@shared/activity';
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up sessions
   const MemoryStoreSession = MemoryStore(session);
-  app.use(session({
+  const sessionMiddleware = session({
     secret: process.env.SESSION_SECRET || 'formplay-tps-secret-key',
     resave: false,
     saveUninitialized: false,
     cookie: { secure: false, maxAge: 86400000 }, // 24 hours
     store: new MemoryStoreSession({ checkPeriod: 86400000 })
-  }));
+  });
+  app.use(sessionMiddleware);
 
   // Authentication middleware
   const authenticate = (req: Request, res: Response, next: Function) => {
@@ -28,6 +89,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(401).json({ message: 'Unauthorized' });
   };
 
+  // Lets both partners' open pages know the report changed
+  const publishReportEvent = (report: TpsReport, type: ReportEventType) => {
+    reportEvents.publish([report.creator_id, report.receiver_id], { type, report_id: report.id });
+  };
+
+  const withParticipantNames = async (report: TpsReport) => {
+    const creator = await storage.getUser(report.creator_id);
+    const receiver = await storage.getUser(report.receiver_id);
+    return {
+      ...report,
+      creator_name: creator?.name || 'Unknown',
+      receiver_name: receiver?.name || 'Unknown'
+    };
+  };
+
+  // The report version a client based its edit on, from an If-Match header
+  // echoing the ETag or a version field in the body
+  const getExpectedVersion = (req: Request): number | undefined => {
+    const ifMatch = req.get('If-Match');
+    const version = parseInt(ifMatch ? ifMatch.replace(/^W\//, '').replace(/"/g, '') : req.body?.version);
+    return isNaN(version) ? undefined : version;
+  };
+
+  // A query parameter that takes several values, either repeated
+  // (?status=a&status=b) or comma-separated (?status=a,b)
+  const getListParam = (req: Request, name: string): string[] | undefined => {
+    const value = req.query[name];
+    if (value === undefined) return undefined;
+    return (Array.isArray(value) ? value : [value])
+      .flatMap(item => String(item).split(','))
+      .map(item => item.trim())
+      .filter(Boolean);
+  };
+
+  // Answers a stale edit with the stored copy, so the client can merge its
+  // changes into it or reload
+  const sendStaleReport = async (res: Response, reportId: number) => {
+    const current = await storage.getTpsReport(reportId);
+    res.status(409).json({
+      code: 'stale_report',
+      message: 'This report was changed by your partner since you opened it',
+      current: current ? await withParticipantNames(current) : null
+    });
+  };
+
+  // Whether a report's time slot holds up: a valid range, then overlaps with
+  // the couple's other scheduled reports and either partner's unavailable times
+  const checkSchedule = async (report: ScheduleRange & { id?: number; creator_id: number; receiver_id: number }) => {
+    const errors = validateTimeRange(report);
+    if (errors.length > 0) return { errors, conflicts: [] };
+    
+    const reports = await storage.getTpsReportsByUser(report.creator_id);
+    const windows = await storage.getAvailabilityWindowsByUsers([report.creator_id, report.receiver_id]);
+    const creator = await storage.getUser(report.creator_id);
+    const receiver = await storage.getUser(report.receiver_id);
+    const userNames: Record<number, string> = {};
+    if (creator) userNames[creator.id] = creator.name;
+    if (receiver) userNames[receiver.id] = receiver.name;
+    
+    return { errors, conflicts: findScheduleConflicts(report, reports, windows, userNames) };
+  };
+  
+  // Answers the request when the time slot doesn't hold up. An invalid range
+  // is refused outright, while conflicts only need confirming by sending
+  // allow_conflicts with the request.
+  const rejectScheduleProblems = async (
+    req: Request,
+    res: Response,
+    report: ScheduleRange & { id?: number; creator_id: number; receiver_id: number }
+  ): Promise<boolean> => {
+    const { errors, conflicts } = await checkSchedule(report);
+    
+    if (errors.length > 0) {
+      res.status(400).json({ code: 'invalid_time_range', message: errors[0].message, errors });
+      return true;
+    }
+    
+    if (conflicts.length > 0 && req.body.allow_conflicts !== true) {
+      res.status(409).json({
+        code: 'schedule_conflict',
+        message: conflicts.length === 1 ? conflicts[0].message : `${conflicts.length} scheduling conflicts`,
+        conflicts
+      });
+      return true;
+    }
+    
+    return false;
+  };
+
+  // A schedule as the client shows it: the rule in words and the date the
+  // next draft is for
+  const withScheduleDetails = (schedule: ReportSchedule) => {
+    const rule = parseRecurrenceRule(schedule.rule);
+    const today = getLocalDate();
+    const after = schedule.last_occurrence && schedule.last_occurrence >= today
+      ? schedule.last_occurrence
+      : addDays(today, -1);
+    
+    return {
+      ...schedule,
+      description: describeRecurrenceRule(rule),
+      next_occurrence: schedule.active ? getNextOccurrence(rule, schedule.start_date, after) : null
+    };
+  };
+  
+  // Checks the rule, times and lead time of a new or changed schedule,
+  // returning the first problem found
+  const validateScheduleFields = (fields: Partial<ReportSchedule>): string | undefined => {
+    try {
+      parseRecurrenceRule(fields.rule || '');
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) return `Invalid rule: ${error.message}`;
+      throw error;
+    }
+    
+    const [timeError] = validateTimeRange({
+      date: fields.start_date || '',
+      time_start: fields.time_start || '',
+      time_end: fields.time_end || ''
+    });
+    if (timeError) return timeError.message;
+    
+    if (!Number.isInteger(fields.lead_days) || fields.lead_days! < 0 || fields.lead_days! > 30) {
+      return 'Lead days must be a whole number from 0 to 30';
+    }
+    
+    return undefined;
+  };
+
   // Auth routes
   app.post('/api/login', async (req: Request, res: Response) => {
     try {
@@ -39,10 +229,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const user = await storage.getUserByUsername(username);
       
-      if (!user || user.password !== password) {
+      if (!user || !(await verifyPassword(password, user.password))) {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
       
+      // A fresh session id, so one planted before login can't be reused
+      await promisify(req.session.regenerate.bind(req.session))();
       req.session.userId = user.id;
       return res.json({ 
         id: user.id, 
@@ -66,6 +258,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  app.post('/api/change-password', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { currentPassword, newPassword } = req.body;
+      
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: 'Current and new password are required' });
+      }
+      
+      if (typeof newPassword !== 'string' || newPassword.length < 8) {
+        return res.status(400).json({ message: 'New password must be at least 8 characters' });
+      }
+      
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (!(await verifyPassword(currentPassword, user.password))) {
+        return res.status(401).json({ message: 'Current password is incorrect' });
+      }
+      
+      await storage.updateUserPassword(userId, await hashPassword(newPassword));
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(500).json({ message: 'Server error changing password' });
+    }
+  });
+
   app.get('/api/me', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
@@ -96,332 +319,1180 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // TPS Report routes
-  app.get('/api/tps-reports', authenticate, async (req: Request, res: Response) => {
+  // Calendar routes
+  app.get('/api/calendar', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const status = req.query.status as string;
+      let user = await storage.getUser(userId);
       
-      let reports;
-      if (status) {
-        reports = await storage.getTpsReportsByStatus(status as TpsStatus);
-        // Filter to only show reports for this user
-        reports = reports.filter(report => 
-          report.creator_id === userId || report.receiver_id === userId
-        );
-      } else {
-        reports = await storage.getTpsReportsByUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      // Get users for additional context
-      const users = await storage.getAllUsers();
-      const usersMap = new Map(users.map(user => [user.id, user]));
-      
-      // Map reports to include creator/receiver names
-      const enrichedReports = reports.map(report => ({
-        ...report,
-        creator_name: usersMap.get(report.creator_id)?.name || 'Unknown',
-        receiver_name: usersMap.get(report.receiver_id)?.name || 'Unknown'
-      }));
+      // The feed URL is created the first time someone asks for it
+      if (!user.calendar_token) {
+        user = await storage.updateUserCalendarToken(userId, createCalendarToken());
+      }
       
-      res.json(enrichedReports);
+      res.json({ url: `${req.protocol}://${req.get('host')}/api/calendar/${user!.calendar_token}.ics` });
     } catch (error) {
-      console.error('Get TPS reports error:', error);
-      res.status(500).json({ message: 'Server error fetching TPS reports' });
+      console.error('Get calendar error:', error);
+      res.status(500).json({ message: 'Server error fetching calendar' });
     }
   });
 
-  app.get('/api/tps-reports/:id', authenticate, async (req: Request, res: Response) => {
+  // Replaces the feed URL, e.g. after sharing it with the wrong app
+  app.post('/api/calendar/reset', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const reportId = parseInt(req.params.id);
+      const user = await storage.updateUserCalendarToken(userId, createCalendarToken());
       
-      if (isNaN(reportId)) {
-        return res.status(400).json({ message: 'Invalid report ID' });
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      const report = await storage.getTpsReport(reportId);
+      res.json({ url: `${req.protocol}://${req.get('host')}/api/calendar/${user.calendar_token}.ics` });
+    } catch (error) {
+      console.error('Reset calendar error:', error);
+      res.status(500).json({ message: 'Server error resetting calendar' });
+    }
+  });
+
+  // Subscribable feed for calendar apps, which can't send the session
+  // cookie, so the token in the URL stands in for logging in. Events follow
+  // the reports: tentative while under review, confirmed once completed and
+  // cancelled when aborted.
+  app.get('/api/calendar/:token.ics', async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
       
-      if (!report) {
-        return res.status(404).json({ message: 'TPS report not found' });
+      if (!user) {
+        return res.status(404).json({ message: 'Calendar not found' });
       }
       
-      // Ensure user is either creator or receiver
-      if (report.creator_id !== userId && report.receiver_id !== userId) {
-        return res.status(403).json({ message: 'Access denied to this report' });
-      }
+      const reports = await storage.getTpsReportsByUser(user.id);
+      const events = reports.filter(hasCalendarEvent).map(createTpsReviewEvent);
       
-      // Log that the user viewed this report
-      await storage.createTpsLog({
-        tps_id: reportId,
-        user_id: userId,
-        action: 'viewed',
-        details: {}
-      });
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(renderCalendar(`FormPlay – ${user.name}`, events));
+    } catch (error) {
+      console.error('Get calendar feed error:', error);
+      res.status(500).json({ message: 'Server error fetching calendar feed' });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const notificationList = await storage.getNotificationsByUser(userId, 50);
+      const unread = await storage.getUnreadNotificationCount(userId);
       
-      // Get users for additional context
-      const users = await storage.getAllUsers();
-      const usersMap = new Map(users.map(user => [user.id, user]));
+      res.json({ notifications: notificationList, unread });
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({ message: 'Server error fetching notifications' });
+    }
+  });
+
+  // Marks the listed notification ids read, or all of them without a list
+  app.post('/api/notifications/read', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { ids } = req.body;
       
-      const enrichedReport = {
-        ...report,
-        creator_name: usersMap.get(report.creator_id)?.name || 'Unknown',
-        receiver_name: usersMap.get(report.receiver_id)?.name || 'Unknown'
-      };
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+        return res.status(400).json({ message: 'ids must be a list of notification ids' });
+      }
       
-      res.json(enrichedReport);
+      await storage.markNotificationsRead(userId, ids);
+      res.json({ unread: await storage.getUnreadNotificationCount(userId) });
     } catch (error) {
-      console.error('Get TPS report error:', error);
-      res.status(500).json({ message: 'Server error fetching TPS report' });
+      console.error('Mark notifications read error:', error);
+      res.status(500).json({ message: 'Server error updating notifications' });
     }
   });
 
-  app.post('/api/tps-reports', authenticate, async (req: Request, res: Response) => {
+  app.get('/api/push/key', authenticate, async (req: Request, res: Response) => {
+    try {
+      res.json({ publicKey: getVapidPublicKey() });
+    } catch (error) {
+      console.error('Get push key error:', error);
+      res.status(500).json({ message: 'Server error fetching push key' });
+    }
+  });
+
+  // Saves the PushSubscription a browser hands out once the user allows notifications
+  app.post('/api/push/subscribe', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const userData = await storage.getUserWithPartner(userId);
+      const { endpoint, keys } = req.body || {};
       
-      if (!userData) {
-        return res.status(404).json({ message: 'User or partner not found' });
+      if (typeof endpoint !== 'string' || !keys?.p256dh || !keys?.auth) {
+        return res.status(400).json({ message: 'Invalid push subscription' });
       }
       
-      // Validate the TPS report data
-      const reportData = {
-        ...req.body,
-        creator_id: userId,
-        receiver_id: userData.partner.id
-      };
+      await storage.savePushSubscription({ user_id: userId, endpoint, p256dh: keys.p256dh, auth: keys.auth });
+      res.status(201).json({ message: 'Push notifications enabled' });
+    } catch (error) {
+      console.error('Push subscribe error:', error);
+      res.status(500).json({ message: 'Server error saving push subscription' });
+    }
+  });
+
+  app.post('/api/push/unsubscribe', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { endpoint } = req.body || {};
       
-      try {
-        insertTpsReportSchema.parse(reportData);
-      } catch (error) {
-        if (error instanceof ZodError) {
-          const validationError = fromZodError(error);
-          return res.status(400).json({ message: validationError.message });
-        }
-        throw error;
+      if (typeof endpoint !== 'string') {
+        return res.status(400).json({ message: 'Invalid push subscription' });
       }
       
-      // Create the report
-      const report = await storage.createTpsReport(reportData);
+      // Only ever the user's own subscription
+      await storage.deletePushSubscription(endpoint, userId);
+      res.json({ message: 'Push notifications disabled' });
+    } catch (error) {
+      console.error('Push unsubscribe error:', error);
+      res.status(500).json({ message: 'Server error removing push subscription' });
+    }
+  });
+
+  // Scheduling routes
+  app.get('/api/schedule/conflicts', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const userWithPartner = await storage.getUserWithPartner(userId);
       
-      // Handle PDF data if provided
-      if (req.body.pdfData) {
-        const pdfBuffer = Buffer.from(req.body.pdfData, 'base64');
-        const pdfPath = await storage.savePdfToDisk(report.id, pdfBuffer);
-        
-        // Update the report with the PDF path
-        await storage.updateTpsReport(report.id, { pdf_path: pdfPath });
+      if (!userWithPartner) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      // If status is past draft, notify the partner
-      if (report.status === TpsStatus.PENDING_REVIEW) {
-        await storage.sendEmail(
-          userData.partner.email,
-          'New TPS Report Available',
-          `${userData.user.name} has created a new TPS report for you to review. Please log in to FormPlay to check it out!`
-        );
+      const reportId = req.query.report_id ? parseInt(req.query.report_id as string) : undefined;
+      const report = reportId ? await storage.getTpsReport(reportId) : undefined;
+      
+      if (report && report.creator_id !== userId && report.receiver_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this report' });
       }
       
-      res.status(201).json(report);
+      const result = await checkSchedule({
+        id: report?.id,
+        date: String(req.query.date || ''),
+        time_start: String(req.query.time_start || ''),
+        time_end: String(req.query.time_end || ''),
+        creator_id: report?.creator_id ?? userId,
+        receiver_id: report?.receiver_id ?? userWithPartner.partner.id
+      });
+      
+      res.json(result);
     } catch (error) {
-      console.error('Create TPS report error:', error);
-      res.status(500).json({ message: 'Server error creating TPS report' });
+      console.error('Check schedule conflicts error:', error);
+      res.status(500).json({ message: 'Server error checking schedule conflicts' });
     }
   });
 
-  app.put('/api/tps-reports/:id', authenticate, async (req: Request, res: Response) => {
+  app.get('/api/availability', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const reportId = parseInt(req.params.id);
+      const userWithPartner = await storage.getUserWithPartner(userId);
       
-      if (isNaN(reportId)) {
-        return res.status(400).json({ message: 'Invalid report ID' });
+      if (!userWithPartner) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      const report = await storage.getTpsReport(reportId);
+      const { user, partner } = userWithPartner;
+      const windows = await storage.getAvailabilityWindowsByUsers([user.id, partner.id]);
       
-      if (!report) {
-        return res.status(404).json({ message: 'TPS report not found' });
-      }
+      res.json(windows.map(window => ({
+        ...window,
+        user_name: window.user_id === user.id ? user.name : partner.name,
+        is_own: window.user_id === user.id
+      })));
+    } catch (error) {
+      console.error('Get availability error:', error);
+      res.status(500).json({ message: 'Server error fetching availability' });
+    }
+  });
+
+  app.post('/api/availability', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const days = Array.isArray(req.body.days_of_week) ? req.body.days_of_week : [];
       
-      // Check permissions based on status and user role
-      const isCreator = report.creator_id === userId;
-      const isReceiver = report.receiver_id === userId;
+      // Empty fields mean "not set": no weekdays for a one-off window, no
+      // times for the whole day
+      const windowData = {
+        user_id: userId,
+        label: typeof req.body.label === 'string' ? req.body.label.trim() : '',
+        days_of_week: days.length > 0 ? days : null,
+        start_date: req.body.start_date || null,
+        end_date: req.body.end_date || null,
+        time_start: req.body.time_start || null,
+        time_end: req.body.time_end || null
+      };
       
-      if (!isCreator && !isReceiver) {
-        return res.status(403).json({ message: 'Access denied to this report' });
+      const errors = validateAvailabilityWindow(windowData);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors[0], errors });
       }
       
-      // Check if the user can edit based on the report status
-      if (report.status === TpsStatus.DRAFT && !isCreator) {
-        return res.status(403).json({ message: 'Only the creator can edit a draft' });
-      }
+      const validatedData = insertAvailabilityWindowSchema.parse(windowData);
+      const window = await storage.createAvailabilityWindow(validatedData);
       
-      if (report.status === TpsStatus.PENDING_REVIEW && !isReceiver) {
-        return res.status(403).json({ message: 'Only the receiver can review this report' });
-      }
+      res.status(201).json(window);
+    } catch (error) {
+      console.error('Create availability window error:', error);
       
-      if (report.status === TpsStatus.PENDING_APPROVAL && !isCreator) {
-        return res.status(403).json({ message: 'Only the creator can approve this report' });
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
       }
       
-      if (report.status === TpsStatus.COMPLETED || report.status === TpsStatus.ABORTED) {
-        return res.status(403).json({ message: 'This report is already finalized' });
+      res.status(500).json({ message: 'Server error creating availability window' });
+    }
+  });
+
+  app.delete('/api/availability/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const windowId = parseInt(req.params.id);
+      
+      if (isNaN(windowId)) {
+        return res.status(400).json({ message: 'Invalid availability window ID' });
       }
       
-      // Update the report
-      const updateData = req.body;
-      const updatedReport = await storage.updateTpsReport(reportId, updateData);
+      const window = await storage.getAvailabilityWindow(windowId);
       
-      if (!updatedReport) {
-        return res.status(500).json({ message: 'Failed to update TPS report' });
+      if (!window) {
+        return res.status(404).json({ message: 'Availability window not found' });
       }
       
-      // Create log entry
-      await storage.createTpsLog({
-        tps_id: reportId,
-        user_id: userId,
-        action: 'updated',
-        details: { status: updatedReport.status }
-      });
-      
-      // Handle status transitions and notifications
-      const userData = await storage.getUserWithPartner(userId);
-      if (userData) {
-        if (updateData.status === TpsStatus.PENDING_REVIEW && isCreator) {
-          // Creator submitting for review
-          await storage.sendEmail(
-            userData.partner.email,
-            'TPS Report Ready for Review',
-            `${userData.user.name} has submitted a TPS report for your review. Please log in to FormPlay to check it out!`
-          );
-        } else if (updateData.status === TpsStatus.PENDING_APPROVAL && isReceiver) {
-          // Receiver sending back for approval
-          await storage.sendEmail(
-            userData.partner.email,
-            'TPS Report Ready for Your Approval',
-            `${userData.user.name} has reviewed your TPS report. Please log in to FormPlay to check it out!`
-          );
-        } else if (updateData.status === TpsStatus.COMPLETED && isCreator) {
-          // Creator approving the report
-          await storage.sendEmail(
-            userData.partner.email,
-            'TPS Report Completed',
-            `${userData.user.name} has approved the TPS report. It's time to review TPS reports!`
-          );
-          
-          // Add calendar event for both users
-          const event = {
-            summary: 'Review TPS Reports',
-            start: new Date(),
-            description: `TPS Report #${report.id} review time!`
-          };
-          
-          await storage.addToCalendar(userId, event);
-          await storage.addToCalendar(userData.partner.id, event);
-        } else if (updateData.status === TpsStatus.ABORTED) {
-          // Report was denied/aborted
-          const partner = isCreator ? userData.partner : userData.user;
-          await storage.sendEmail(
-            partner.email,
-            'TPS Report Aborted',
-            `A TPS report has been aborted. Please log in to FormPlay for details.`
-          );
-        }
+      if (window.user_id !== userId) {
+        return res.status(403).json({ message: 'You can only remove your own unavailable times' });
       }
       
-      res.json(updatedReport);
+      await storage.deleteAvailabilityWindow(windowId);
+      res.json({ message: 'Availability window removed' });
     } catch (error) {
-      console.error('Update TPS report error:', error);
-      res.status(500).json({ message: 'Server error updating TPS report' });
+      console.error('Delete availability window error:', error);
+      res.status(500).json({ message: 'Server error removing availability window' });
     }
   });
 
-  app.post('/api/tps-reports/:id/replicate', authenticate, async (req: Request, res: Response) => {
+  // Report schedule routes
+  app.get('/api/schedules', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const reportId = parseInt(req.params.id);
+      const schedules = await storage.getReportSchedulesByUser(userId);
       
-      if (isNaN(reportId)) {
+      res.json(schedules.map(withScheduleDetails));
+    } catch (error) {
+      console.error('Get report schedules error:', error);
+      res.status(500).json({ message: 'Server error fetching report schedules' });
+    }
+  });
+
+  app.post('/api/schedules', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const sourceReportId = parseInt(req.body.source_report_id);
+      
+      if (isNaN(sourceReportId)) {
         return res.status(400).json({ message: 'Invalid report ID' });
       }
       
-      const report = await storage.getTpsReport(reportId);
+      const report = await storage.getTpsReport(sourceReportId);
       
       if (!report) {
         return res.status(404).json({ message: 'TPS report not found' });
       }
       
-      // Only completed or aborted reports can be replicated
-      if (report.status !== TpsStatus.COMPLETED && report.status !== TpsStatus.ABORTED) {
-        return res.status(400).json({ message: 'Only completed or aborted reports can be replicated' });
+      // Drafts are the creator's to fill in, so only they can schedule them
+      if (report.creator_id !== userId) {
+        return res.status(403).json({ message: 'Only the creator of a report can schedule it' });
       }
       
-      // Replicate the report
-      const newReport = await storage.replicateTpsReport(reportId);
+      // The same reports that can be replicated
+      if (!isFinalStatus(report.status)) {
+        return res.status(400).json({ message: 'Only completed, aborted or expired reports can be scheduled' });
+      }
       
-      if (!newReport) {
-        return res.status(500).json({ message: 'Failed to replicate TPS report' });
+      const scheduleData = {
+        creator_id: userId,
+        source_report_id: report.id,
+        rule: req.body.rule || '',
+        start_date: req.body.start_date || getLocalDate(),
+        time_start: req.body.time_start || report.time_start,
+        time_end: req.body.time_end || report.time_end,
+        lead_days: req.body.lead_days ?? 3,
+        active: true
+      };
+      
+      const validationError = validateScheduleFields(scheduleData);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
       }
       
-      res.status(201).json(newReport);
+      let schedule = await storage.createReportSchedule(insertReportScheduleSchema.parse({
+        ...scheduleData,
+        rule: formatRecurrenceRule(parseRecurrenceRule(scheduleData.rule))
+      }));
+      
+      // An occurrence within the lead time gets its draft right away
+      await reportScheduler.runSchedule(schedule);
+      schedule = (await storage.getReportSchedule(schedule.id)) || schedule;
+      
+      res.status(201).json(withScheduleDetails(schedule));
     } catch (error) {
-      console.error('Replicate TPS report error:', error);
-      res.status(500).json({ message: 'Server error replicating TPS report' });
+      console.error('Create report schedule error:', error);
+      
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      res.status(500).json({ message: 'Server error creating report schedule' });
     }
   });
 
-  app.get('/api/tps-reports/:id/logs', authenticate, async (req: Request, res: Response) => {
+  app.put('/api/schedules/:id', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const reportId = parseInt(req.params.id);
+      const scheduleId = parseInt(req.params.id);
       
-      if (isNaN(reportId)) {
-        return res.status(400).json({ message: 'Invalid report ID' });
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'Invalid schedule ID' });
       }
       
-      const report = await storage.getTpsReport(reportId);
+      const schedule = await storage.getReportSchedule(scheduleId);
       
-      if (!report) {
-        return res.status(404).json({ message: 'TPS report not found' });
+      if (!schedule) {
+        return res.status(404).json({ message: 'Report schedule not found' });
       }
       
-      // Ensure user is either creator or receiver
-      if (report.creator_id !== userId && report.receiver_id !== userId) {
-        return res.status(403).json({ message: 'Access denied to this report logs' });
+      if (schedule.creator_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this schedule' });
       }
       
-      const logs = await storage.getTpsLogsByReport(reportId);
+      // Only these can change, the source report stays the same
+      const updateData = insertReportScheduleSchema.partial().pick({
+        rule: true,
+        start_date: true,
+        time_start: true,
+        time_end: true,
+        lead_days: true,
+        active: true
+      }).parse(req.body);
       
-      // Get users for additional context
-      const users = await storage.getAllUsers();
-      const usersMap = new Map(users.map(user => [user.id, user]));
+      const validationError = validateScheduleFields({ ...schedule, ...updateData });
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      if (updateData.rule) {
+        updateData.rule = formatRecurrenceRule(parseRecurrenceRule(updateData.rule));
+      }
       
-      // Map logs to include user names
-      const enrichedLogs = logs.map(log => ({
-        ...log,
-        user_name: usersMap.get(log.user_id)?.name || 'Unknown'
-      }));
+      let updatedSchedule = await storage.updateReportSchedule(scheduleId, updateData);
       
-      res.json(enrichedLogs);
+      if (!updatedSchedule) {
+        return res.status(500).json({ message: 'Failed to update report schedule' });
+      }
+      
+      if (updatedSchedule.active) {
+        await reportScheduler.runSchedule(updatedSchedule);
+        updatedSchedule = (await storage.getReportSchedule(scheduleId)) || updatedSchedule;
+      }
+      
+      res.json(withScheduleDetails(updatedSchedule));
+    } catch (error) {
+      console.error('Update report schedule error:', error);
+      
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      res.status(500).json({ message: 'Server error updating report schedule' });
+    }
+  });
+
+  app.delete('/api/schedules/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const scheduleId = parseInt(req.params.id);
+      
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'Invalid schedule ID' });
+      }
+      
+      const schedule = await storage.getReportSchedule(scheduleId);
+      
+      if (!schedule) {
+        return res.status(404).json({ message: 'Report schedule not found' });
+      }
+      
+      if (schedule.creator_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this schedule' });
+      }
+      
+      // Drafts it already created stay
+      await storage.deleteReportSchedule(scheduleId);
+      res.json({ message: 'Report schedule removed' });
+    } catch (error) {
+      console.error('Delete report schedule error:', error);
+      res.status(500).json({ message: 'Server error removing report schedule' });
+    }
+  });
+
+  // TPS Report routes
+  // The user's reports, a page at a time. Filters by status, date range,
+  // location, activity and text in the notes; pass next_cursor back as
+  // cursor for the next page.
+  app.get('/api/tps-reports', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const sort = (req.query.sort || DEFAULT_REPORT_SORT) as ReportSort;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : REPORT_PAGE_SIZE;
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      const activity = req.query.activity as string | undefined;
+      const search = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const after = req.query.cursor ? decodeReportCursor(req.query.cursor as string) : undefined;
+
+      if (!(sort in REPORT_SORTS)) {
+        return res.status(400).json({ message: `Sort must be one of ${Object.keys(REPORT_SORTS).join(', ')}` });
+      }
+      if (isNaN(limit) || limit < 1) {
+        return res.status(400).json({ message: 'Invalid page size' });
+      }
+      if ((from && parseDate(from) === null) || (to && parseDate(to) === null)) {
+        return res.status(400).json({ message: 'Dates must be YYYY-MM-DD' });
+      }
+      if (activity && !REPORT_ACTIVITY_FILTERS.some(field => field.name === activity)) {
+        return res.status(400).json({ message: 'Unknown activity' });
+      }
+      if (after === null) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+
+      // One extra row tells whether there is another page
+      const pageSize = Math.min(limit, MAX_REPORT_PAGE_SIZE);
+      const reports = await storage.queryTpsReports({
+        userId,
+        statuses: getListParam(req, 'status'),
+        from,
+        to,
+        locations: getListParam(req, 'location'),
+        activity,
+        search: search || undefined,
+        sort,
+        after,
+        limit: pageSize + 1
+      });
+      const page = reports.slice(0, pageSize);
+      const last = page[page.length - 1];
+      
+      // Get users for additional context
+      const users = await storage.getAllUsers();
+      const usersMap = new Map(users.map(user => [user.id, user]));
+      
+      // Map reports to include creator/receiver names
+      const enrichedReports = page.map(report => ({
+        ...report,
+        creator_name: usersMap.get(report.creator_id)?.name || 'Unknown',
+        receiver_name: usersMap.get(report.receiver_id)?.name || 'Unknown'
+      }));
+      
+      res.json({
+        items: enrichedReports,
+        next_cursor: reports.length > pageSize
+          ? encodeReportCursor({ value: getReportSortValue(last, sort), id: last.id })
+          : null
+      });
+    } catch (error) {
+      console.error('Get TPS reports error:', error);
+      res.status(500).json({ message: 'Server error fetching TPS reports' });
+    }
+  });
+
+  // Full-text search across the user's reports, for the search palette.
+  // Snippets mark matched words with HIGHLIGHT_START and HIGHLIGHT_END.
+  app.get('/api/search', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : SEARCH_RESULT_LIMIT;
+
+      if (isNaN(limit) || limit < 1) {
+        return res.status(400).json({ message: 'Invalid result limit' });
+      }
+      if (!query) {
+        return res.json([]);
+      }
+
+      const hits = await storage.searchTpsReports(userId, query, Math.min(limit, SEARCH_RESULT_LIMIT));
+      const users = await storage.getAllUsers();
+      const usersMap = new Map(users.map(user => [user.id, user]));
+
+      const results: ReportSearchResult[] = hits.map(({ report, snippets }) => ({
+        id: report.id,
+        date: report.date,
+        time_start: report.time_start,
+        status: report.status,
+        creator_id: report.creator_id,
+        creator_name: usersMap.get(report.creator_id)?.name || 'Unknown',
+        receiver_name: usersMap.get(report.receiver_id)?.name || 'Unknown',
+        snippets
+      }));
+      res.json(results);
+    } catch (error) {
+      console.error('Search TPS reports error:', error);
+      res.status(500).json({ message: 'Server error searching TPS reports' });
+    }
+  });
+
+  app.get('/api/tps-reports/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      const report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      // Ensure user is either creator or receiver
+      if (report.creator_id !== userId && report.receiver_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this report' });
+      }
+      
+      // Log that the user viewed this report, unless this is the page
+      // catching up with a live update (?log_view=false)
+      if (req.query.log_view !== 'false') {
+        await storage.createTpsLog({
+          tps_id: reportId,
+          user_id: userId,
+          action: 'viewed',
+          details: {}
+        });
+        publishReportEvent(report, 'report.log');
+      }
+      
+      // The version doubles as the ETag, for If-Match on updates
+      res.set('ETag', `"${report.version}"`);
+      res.json(await withParticipantNames(report));
+    } catch (error) {
+      console.error('Get TPS report error:', error);
+      res.status(500).json({ message: 'Server error fetching TPS report' });
+    }
+  });
+
+  app.post('/api/tps-reports', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const userData = await storage.getUserWithPartner(userId);
+      
+      if (!userData) {
+        return res.status(404).json({ message: 'User or partner not found' });
+      }
+      
+      // New reports are filled in on the latest template
+      const template = await storage.getLatestTemplate();
+      
+      // Validate the TPS report data, converting name-keyed form data sent
+      // by older clients
+      const { allow_conflicts, ...body } = req.body;
+      const reportData = {
+        ...body,
+        template_id: template?.id ?? null,
+        template_version: template?.version ?? null,
+        counter_round: 0,
+        form_data: migrateLegacyFormData(req.body.form_data, {
+          creator: userData.user.name,
+          receiver: userData.partner.name
+        }),
+        creator_id: userId,
+        receiver_id: userData.partner.id
+      };
+      
+      try {
+        insertTpsReportSchema.parse(reportData);
+        assertInitialStatus(reportData.status);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          const validationError = fromZodError(error);
+          return res.status(400).json({ message: validationError.message });
+        }
+        if (error instanceof TpsTransitionError) {
+          return res.status(409).json(error);
+        }
+        throw error;
+      }
+      
+      // Reports submitted right away take their time slot now
+      if (reportData.status !== TpsStatus.DRAFT && await rejectScheduleProblems(req, res, reportData)) {
+        return;
+      }
+      
+      // Create the report
+      let report = await storage.createTpsReport(reportData);
+      
+      // Generate the filled PDF for the new report
+      try {
+        report = await regenerateReportPdf(report);
+      } catch (error) {
+        console.error('Generate TPS report PDF error:', error);
+      }
+      
+      publishReportEvent(report, 'report.created');
+      
+      // If status is past draft, notify the partner
+      if (report.status === TpsStatus.PENDING_REVIEW) {
+        await notifications.notifyReportEvent(userData.partner, TpsStatus.PENDING_REVIEW, {
+          creator: userData.user.name,
+          receiver: userData.partner.name
+        }, report.id);
+      }
+      
+      res.status(201).json(report);
+    } catch (error) {
+      console.error('Create TPS report error:', error);
+      res.status(500).json({ message: 'Server error creating TPS report' });
+    }
+  });
+
+  app.put('/api/tps-reports/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      const report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      // Check permissions based on status and user role
+      const isCreator = report.creator_id === userId;
+      const isReceiver = report.receiver_id === userId;
+      
+      if (!isCreator && !isReceiver) {
+        return res.status(403).json({ message: 'Access denied to this report' });
+      }
+      
+      // Refuse edits made to an older version instead of overwriting whatever
+      // the partner saved since
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion !== undefined && expectedVersion !== report.version) {
+        return sendStaleReport(res, reportId);
+      }
+      
+      // Only keep the columns and form fields this participant may write
+      // while the report is in its current status
+      const { data: updateData, rejected } = applyWriteMask(
+        report,
+        req.body,
+        isCreator ? 'creator' : 'receiver'
+      );
+      
+      if (rejected.length > 0) {
+        console.warn(`Ignored fields in update of TPS report ${reportId} by user ${userId}: ${rejected.join(', ')}`);
+      }
+      
+      // Check the requested status change against the transition table
+      const targetStatus = updateData.status || report.status;
+      
+      try {
+        assertTransition(report, targetStatus, isCreator ? 'creator' : 'receiver', updateData);
+      } catch (error) {
+        if (error instanceof TpsTransitionError) {
+          return res.status(error.code === 'wrong_role' ? 403 : 409).json(error);
+        }
+        throw error;
+      }
+      
+      // The time slot is checked when the report is submitted, and again
+      // whenever it moves while scheduled
+      const changesTime = SCHEDULE_COLUMNS.some(column => column in updateData);
+      const leavesDraft = report.status === TpsStatus.DRAFT && targetStatus !== TpsStatus.DRAFT;
+      if (targetStatus !== TpsStatus.DRAFT && targetStatus !== TpsStatus.ABORTED && (leavesDraft || changesTime) &&
+          await rejectScheduleProblems(req, res, { ...report, ...updateData })) {
+        return;
+      }
+      
+      // Update the report, unless it changed since it was read above
+      let updatedReport: TpsReport | undefined;
+      try {
+        updatedReport = await storage.updateTpsReport(reportId, updateData, userId, report.version);
+      } catch (error) {
+        if (error instanceof StaleReportError) {
+          return sendStaleReport(res, reportId);
+        }
+        throw error;
+      }
+      
+      if (!updatedReport) {
+        return res.status(500).json({ message: 'Failed to update TPS report' });
+      }
+      
+      // Keep the stored PDF in sync with the updated row
+      try {
+        updatedReport = await regenerateReportPdf(updatedReport);
+      } catch (error) {
+        console.error('Generate TPS report PDF error:', error);
+      }
+      
+      // Create log entry, with what changed for the activity feed
+      const changes = diffSnapshots(getRevisionSnapshot(report), getRevisionSnapshot(updatedReport));
+      await storage.createTpsLog({
+        tps_id: reportId,
+        user_id: userId,
+        action: 'updated',
+        details: {
+          status: updatedReport.status,
+          from: report.status,
+          ...(changes.length > 0 ? { changes } : {}),
+          ...(rejected.length > 0 ? { ignored_fields: rejected } : {})
+        }
+      });
+      publishReportEvent(updatedReport, 'report.updated');
+      
+      // Every status transition is the partner's cue: submitted for review,
+      // reviewed, completed or aborted
+      const userData = await storage.getUserWithPartner(userId);
+      if (userData && updateData.status && updateData.status !== report.status) {
+        const names = isCreator
+          ? { creator: userData.user.name, receiver: userData.partner.name }
+          : { creator: userData.partner.name, receiver: userData.user.name };
+        
+        await notifications.notifyReportEvent(userData.partner, updateData.status as TpsStatus, names, reportId);
+      }
+      
+      res.set('ETag', `"${updatedReport.version}"`);
+      res.json(updatedReport);
+    } catch (error) {
+      console.error('Update TPS report error:', error);
+      res.status(500).json({ message: 'Server error updating TPS report' });
+    }
+  });
+
+  // Creator sends a report awaiting approval back to the receiver with items
+  // struck or changed and a note, instead of aborting it over one item
+  app.post('/api/tps-reports/:id/counter', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      const report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      const isCreator = report.creator_id === userId;
+      
+      if (!isCreator && report.receiver_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this report' });
+      }
+      
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion !== undefined && expectedVersion !== report.version) {
+        return sendStaleReport(res, reportId);
+      }
+      
+      const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+      
+      if (!note) {
+        return res.status(400).json({ message: 'A counter-proposal needs a note explaining the changes' });
+      }
+      
+      const { data: proposed, rejected } = applyWriteMask(
+        report,
+        req.body,
+        isCreator ? 'creator' : 'receiver',
+        'counter'
+      );
+      
+      if (rejected.length > 0) {
+        console.warn(`Ignored fields in counter of TPS report ${reportId} by user ${userId}: ${rejected.join(', ')}`);
+      }
+      
+      // The receiver signs off again on the new version
+      const updateData: Partial<TpsReport> = {
+        ...proposed,
+        status: TpsStatus.PENDING_REVIEW,
+        counter_round: report.counter_round + 1,
+        receiver_initials: null,
+        form_data: clearParticipantInitials((proposed.form_data || report.form_data) as TpsFormData, 'receiver')
+      };
+      
+      try {
+        assertTransition(report, TpsStatus.PENDING_REVIEW, isCreator ? 'creator' : 'receiver', updateData, 'counter');
+      } catch (error) {
+        if (error instanceof TpsTransitionError) {
+          return res.status(error.code === 'wrong_role' ? 403 : 409).json(error);
+        }
+        throw error;
+      }
+      
+      if (SCHEDULE_COLUMNS.some(column => column in proposed) &&
+          await rejectScheduleProblems(req, res, { ...report, ...proposed })) {
+        return;
+      }
+      
+      // What the creator struck or changed, leaving out the cleared initials
+      const changes = diffSnapshots(getRevisionSnapshot(report), getRevisionSnapshot({ ...report, ...proposed }));
+      
+      let updatedReport: TpsReport | undefined;
+      try {
+        updatedReport = await storage.updateTpsReport(reportId, updateData, userId, report.version);
+      } catch (error) {
+        if (error instanceof StaleReportError) {
+          return sendStaleReport(res, reportId);
+        }
+        throw error;
+      }
+      
+      if (!updatedReport) {
+        return res.status(500).json({ message: 'Failed to update TPS report' });
+      }
+      
+      try {
+        updatedReport = await regenerateReportPdf(updatedReport);
+      } catch (error) {
+        console.error('Generate TPS report PDF error:', error);
+      }
+      
+      await storage.createTpsLog({
+        tps_id: reportId,
+        user_id: userId,
+        action: 'countered',
+        details: { round: updatedReport.counter_round, note, changes }
+      });
+      publishReportEvent(updatedReport, 'report.updated');
+      
+      const userData = await storage.getUserWithPartner(userId);
+      if (userData) {
+        await notifications.notifyReportEvent(userData.partner, 'countered', {
+          creator: userData.user.name,
+          receiver: userData.partner.name
+        }, reportId);
+      }
+      
+      res.set('ETag', `"${updatedReport.version}"`);
+      res.json(updatedReport);
+    } catch (error) {
+      console.error('Counter TPS report error:', error);
+      res.status(500).json({ message: 'Server error countering TPS report' });
+    }
+  });
+
+  app.post('/api/tps-reports/:id/replicate', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      const report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      // Only finished reports can be replicated
+      if (!isFinalStatus(report.status)) {
+        return res.status(400).json({ message: 'Only completed, aborted or expired reports can be replicated' });
+      }
+      
+      // Replicate the report
+      const newReport = await storage.replicateTpsReport(reportId);
+      
+      if (!newReport) {
+        return res.status(500).json({ message: 'Failed to replicate TPS report' });
+      }
+      
+      publishReportEvent(newReport, 'report.created');
+      
+      res.status(201).json(newReport);
+    } catch (error) {
+      console.error('Replicate TPS report error:', error);
+      res.status(500).json({ message: 'Server error replicating TPS report' });
+    }
+  });
+
+  // Activity feed across the user's reports, newest first. Pages are cut by
+  // log id: pass next_cursor back as cursor to get the next one.
+  app.get('/api/activity', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reports = await storage.getTpsReportsByUser(userId);
+      const reportsMap = new Map(reports.map(report => [report.id, report]));
+
+      const reportId = req.query.report_id ? parseInt(req.query.report_id as string) : undefined;
+      const filterUserId = req.query.user_id ? parseInt(req.query.user_id as string) : undefined;
+      const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : ACTIVITY_PAGE_SIZE;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      if ([reportId, filterUserId, cursor].some(value => value !== undefined && isNaN(value)) || isNaN(limit) || limit < 1) {
+        return res.status(400).json({ message: 'Invalid activity filter' });
+      }
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: 'Invalid activity date range' });
+      }
+      if (reportId !== undefined && !reportsMap.has(reportId)) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+
+      // A bare date as "to" covers that whole day
+      if (to && /^\d{4}-\d{2}-\d{2}$/.test(req.query.to as string)) {
+        to.setUTCHours(23, 59, 59, 999);
+      }
+
+      const actions = getListParam(req, 'action')?.filter(action => action in ACTIVITY_ACTIONS)
+        ?? DEFAULT_ACTIVITY_ACTIONS;
+      const pageSize = Math.min(limit, MAX_ACTIVITY_PAGE_SIZE);
+
+      // One extra row tells whether there is another page
+      const logs = await storage.getTpsLogs({
+        reportIds: reportId !== undefined ? [reportId] : Array.from(reportsMap.keys()),
+        actions,
+        userId: filterUserId,
+        from,
+        to,
+        before: cursor,
+        limit: pageSize + 1
+      });
+      const page = logs.slice(0, pageSize);
+
+      const users = await storage.getAllUsers();
+      const usersMap = new Map(users.map(user => [user.id, user]));
+
+      res.json({
+        items: page.map(log => {
+          const report = reportsMap.get(log.tps_id);
+          return {
+            ...log,
+            user_name: usersMap.get(log.user_id)?.name || 'Unknown',
+            report_date: report?.date ?? null,
+            report_status: report?.status ?? null,
+            participant_names: {
+              creator: (report && usersMap.get(report.creator_id)?.name) || 'Unknown',
+              receiver: (report && usersMap.get(report.receiver_id)?.name) || 'Unknown'
+            }
+          };
+        }),
+        next_cursor: logs.length > pageSize ? page[page.length - 1].id : null
+      });
+    } catch (error) {
+      console.error('Get activity error:', error);
+      res.status(500).json({ message: 'Server error fetching activity' });
+    }
+  });
+
+  app.get('/api/tps-reports/:id/logs', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      const report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      // Ensure user is either creator or receiver
+      if (report.creator_id !== userId && report.receiver_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this report logs' });
+      }
+      
+      const logs = await storage.getTpsLogsByReport(reportId);
+      
+      // Get users for additional context
+      const users = await storage.getAllUsers();
+      const usersMap = new Map(users.map(user => [user.id, user]));
+      
+      // Map logs to include user names
+      const enrichedLogs = logs.map(log => ({
+        ...log,
+        user_name: usersMap.get(log.user_id)?.name || 'Unknown'
+      }));
+      
+      res.json(enrichedLogs);
     } catch (error) {
       console.error('Get TPS logs error:', error);
       res.status(500).json({ message: 'Server error fetching TPS logs' });
     }
   });
 
-  // Serve the PDF templates
-  app.get('/api/templates/tps-vanilla', (req: Request, res: Response) => {
-    const pdfPath = path.join(process.cwd(), 'storage', 'pdfs', 'tps-vanilla.pdf');
-    
-    if (!fs.existsSync(pdfPath)) {
-      return res.status(404).json({ message: 'PDF template not found' });
+  // Field-by-field changes of every round of edits, oldest first
+  app.get('/api/tps-reports/:id/revisions', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      const report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      // Ensure user is either creator or receiver
+      if (report.creator_id !== userId && report.receiver_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this report revisions' });
+      }
+      
+      const revisions = await storage.getTpsRevisionsByReport(reportId);
+      
+      // Get users for additional context
+      const users = await storage.getAllUsers();
+      const usersMap = new Map(users.map(user => [user.id, user]));
+      
+      const rounds = buildRevisionRounds(revisions, report).map(round => ({
+        ...round,
+        user_name: round.user_id ? usersMap.get(round.user_id)?.name || 'Unknown' : 'Unknown'
+      }));
+      
+      res.json(rounds);
+    } catch (error) {
+      console.error('Get TPS revisions error:', error);
+      res.status(500).json({ message: 'Server error fetching TPS revisions' });
+    }
+  });
+
+  app.get('/api/tps-reports/:id/pdf', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const reportId = parseInt(req.params.id);
+      
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: 'Invalid report ID' });
+      }
+      
+      let report = await storage.getTpsReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: 'TPS report not found' });
+      }
+      
+      // Ensure user is either creator or receiver
+      if (report.creator_id !== userId && report.receiver_id !== userId) {
+        return res.status(403).json({ message: 'Access denied to this report' });
+      }
+      
+      // Reports saved before PDFs were generated on the server have no file yet
+      if (!report.pdf_path || !fs.existsSync(report.pdf_path)) {
+        report = await regenerateReportPdf(report);
+      }
+      
+      res.contentType('application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="tps_report_${report.id}.pdf"`);
+      res.send(await storage.readPdfFromDisk(report.pdf_path as string));
+    } catch (error) {
+      console.error('Get TPS report PDF error:', error);
+      res.status(500).json({ message: 'Server error fetching TPS report PDF' });
+    }
+  });
+
+  // PDF templates
+  app.get('/api/templates', authenticate, async (req: Request, res: Response) => {
+    try {
+      const templates = await storage.getTemplates();
+      res.json(templates.map(({ file_path, ...template }) => template));
+    } catch (error) {
+      console.error('Get templates error:', error);
+      res.status(500).json({ message: 'Server error fetching templates' });
+    }
+  });
+
+  // Upload a new template version as the raw PDF body, e.g.
+  // POST /api/templates?name=TPS%20Report&version=1.3
+  app.post('/api/templates', authenticate, express.raw({ type: 'application/pdf', limit: '20mb' }), async (req: Request, res: Response) => {
+    try {
+      const name = String(req.query.name || '').trim();
+      const version = String(req.query.version || '').trim();
+      
+      if (!name || !version) {
+        return res.status(400).json({ message: 'Template name and version are required' });
+      }
+      
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: 'Upload the template as an application/pdf body' });
+      }
+      
+      if (await storage.getTemplateByVersion(name, version)) {
+        return res.status(409).json({ message: `${name} ${version} already exists` });
+      }
+      
+      // Make sure it's a PDF pdf-lib can fill before accepting it
+      try {
+        const doc = await PDFDocument.load(req.body);
+        if (doc.getForm().getFields().length === 0) {
+          return res.status(400).json({ message: 'The template has no form fields' });
+        }
+      } catch (error) {
+        return res.status(400).json({ message: 'The upload is not a valid PDF' });
+      }
+      
+      const filePath = await storage.saveTemplateToDisk(name, version, req.body);
+      const { file_path, ...template } = await storage.createTemplate({
+        name,
+        version,
+        file_path: filePath,
+        uploaded_by: req.session.userId as number
+      });
+      
+      res.status(201).json(template);
+    } catch (error) {
+      console.error('Upload template error:', error);
+      res.status(500).json({ message: 'Server error uploading template' });
+    }
+  });
+
+  // Serve a template's PDF. "current" is the one new reports are created from.
+  app.get('/api/templates/:id/pdf', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const template = id === 'current'
+        ? await storage.getLatestTemplate()
+        : /^\d+$/.test(id) ? await storage.getTemplate(parseInt(id)) : undefined;
+      
+      if (!template || !fs.existsSync(template.file_path)) {
+        return res.status(404).json({ message: 'PDF template not found' });
+      }
+      
+      res.contentType('application/pdf');
+      res.sendFile(template.file_path);
+    } catch (error) {
+      console.error('Get template PDF error:', error);
+      res.status(500).json({ message: 'Server error fetching template PDF' });
     }
-    
-    console.log('Serving PDF template from:', pdfPath);
-    res.contentType('application/pdf');
-    res.sendFile(pdfPath);
   });
 
   // Stats
@@ -437,15 +1508,153 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const completed = reports.filter(r => r.status === TpsStatus.COMPLETED).length;
       const aborted = reports.filter(r => r.status === TpsStatus.ABORTED).length;
+      const expired = reports.filter(r => r.status === TpsStatus.EXPIRED).length;
       
-      res.json({ pending, completed, aborted });
+      res.json({ pending, completed, aborted, expired });
     } catch (error) {
       console.error('Get stats error:', error);
       res.status(500).json({ message: 'Server error fetching stats' });
     }
   });
 
+  // Charts for the insights page, over every report the user is part of
+  app.get('/api/stats/insights', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const period = (req.query.period || 'week') as InsightsPeriod;
+
+      if (!INSIGHTS_PERIODS.includes(period)) {
+        return res.status(400).json({ message: 'Period must be week or month' });
+      }
+
+      const reports = await storage.getTpsReportsByUser(userId);
+      const logs = await storage.getTpsLogs({
+        reportIds: reports.map(report => report.id),
+        actions: ['created', 'updated']
+      });
+      const users = await storage.getAllUsers();
+
+      res.json(computeReportInsights(reports, logs, users, period));
+    } catch (error) {
+      console.error('Get insights error:', error);
+      res.status(500).json({ message: 'Server error fetching insights' });
+    }
+  });
+
+  // Archive of every report the user shares with their partner, with its
+  // logs, revisions and PDFs. format=json gives the bare manifest.
+  app.get('/api/archive', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const format = String(req.query.format || 'zip');
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      if (format === 'json') {
+        const { manifest } = await buildArchive(userId, false);
+        res.setHeader('Content-Disposition', `attachment; filename="formplay_archive_${stamp}.json"`);
+        return res.json(manifest);
+      }
+      if (format !== 'zip') {
+        return res.status(400).json({ message: 'Format must be zip or json' });
+      }
+
+      const zip = await exportArchiveZip(userId);
+      res.contentType('application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="formplay_archive_${stamp}.zip"`);
+      res.send(zip);
+    } catch (error) {
+      if (error instanceof ArchiveError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Export archive error:', error);
+      res.status(500).json({ message: 'Server error exporting archive' });
+    }
+  });
+
+  // Restore an exported archive, ZIP or JSON, as the raw body. Only works
+  // while neither partner has any reports.
+  app.post('/api/archive', authenticate, express.raw({ type: ['application/zip', 'application/octet-stream'], limit: '200mb' }), async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      // Small JSON uploads sent as application/json arrive already parsed
+      const upload = Buffer.isBuffer(req.body) || (req.body && Object.keys(req.body).length > 0) ? req.body : null;
+
+      if (!upload || (Buffer.isBuffer(upload) && upload.length === 0)) {
+        return res.status(400).json({ message: 'Upload the archive as the request body' });
+      }
+
+      const summary = await importArchive(userId, upload);
+      res.status(201).json(summary);
+    } catch (error) {
+      if (error instanceof ArchiveError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ZipFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Import archive error:', error);
+      res.status(500).json({ message: 'Server error importing archive' });
+    }
+  });
+
+  // Snapshots of the whole instance, taken on a schedule or by hand. Only
+  // the users named in BACKUP_ADMINS see and manage them.
+  const requireBackupAdmin = async (req: Request, res: Response, next: Function) => {
+    try {
+      const user = await storage.getUser(req.session.userId as number);
+      if (user && backups.isAdmin(user.username)) return next();
+      res.status(403).json({ message: 'You are not allowed to manage backups' });
+    } catch (error) {
+      console.error('Check backup admin error:', error);
+      res.status(500).json({ message: 'Server error checking backup access' });
+    }
+  };
+
+  app.get('/api/backups', authenticate, requireBackupAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await backups.list());
+    } catch (error) {
+      console.error('Get backups error:', error);
+      res.status(500).json({ message: 'Server error fetching backups' });
+    }
+  });
+
+  app.post('/api/backups', authenticate, requireBackupAdmin, async (req: Request, res: Response) => {
+    try {
+      res.status(201).json(await backups.create('manual'));
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Create backup error:', error);
+      res.status(500).json({ message: 'Server error creating backup' });
+    }
+  });
+
+  // Replaces every report, user and file with the snapshot's, after taking
+  // a pre-restore snapshot of the current state. The body has to repeat the
+  // backup's name.
+  app.post('/api/backups/:name/restore', authenticate, requireBackupAdmin, async (req: Request, res: Response) => {
+    try {
+      if (req.body?.confirm !== req.params.name) {
+        return res.status(400).json({ message: 'Confirm the restore by sending the backup name as confirm' });
+      }
+
+      res.json(await backups.restore(req.params.name));
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Restore backup error:', error);
+      res.status(500).json({ message: 'Server error restoring backup' });
+    }
+  });
+
   const httpServer = createServer(app);
+  reportEvents.attach(httpServer, sessionMiddleware);
+  reportScheduler.start();
+  reportReminders.start();
+  backups.start();
 
   return httpServer;
 }
@@ -0,0 +1,128 @@
+import { ReportSchedule, TpsReport, TpsStatus } from '@shared/schema';
+import { parseRecurrenceRule, getOccurrences, getNextOccurrence, addDays, getLocalDate } from '@shared/recurrence';
+import { storage } from './storage';
+import { notifications } from './notifications';
+import { reportEvents } from './realtime';
+
+// Drafts are created days ahead of each occurrence, so checking hourly is
+// plenty
+const CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Creates the drafts of recurring reports. Occurrences that passed while
+// the server was down are skipped rather than created late.
+export class ReportScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start() {
+    if (this.timer) return;
+
+    this.runDueSchedules();
+    this.timer = setInterval(() => this.runDueSchedules(), CHECK_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async runDueSchedules(): Promise<TpsReport[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    const created: TpsReport[] = [];
+    try {
+      const schedules = await storage.getActiveReportSchedules();
+      for (const schedule of schedules) {
+        try {
+          created.push(...await this.runSchedule(schedule));
+        } catch (error) {
+          console.error(`Run report schedule ${schedule.id} error:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Run report schedules error:', error);
+    } finally {
+      this.running = false;
+    }
+
+    return created;
+  }
+
+  // Creates a draft for every occurrence from today up to lead_days ahead
+  // that doesn't have one yet, and retires schedules that have run out.
+  // Each occurrence is claimed before its draft is created, so a run that
+  // overlaps another (the hourly check and a schedule being saved) stops
+  // instead of creating the same draft twice.
+  async runSchedule(schedule: ReportSchedule): Promise<TpsReport[]> {
+    const rule = parseRecurrenceRule(schedule.rule);
+    const today = getLocalDate();
+    const horizon = addDays(today, schedule.lead_days);
+    const from = schedule.last_occurrence && schedule.last_occurrence >= today
+      ? addDays(schedule.last_occurrence, 1)
+      : today;
+
+    const created: TpsReport[] = [];
+    let previous = schedule.last_occurrence;
+    for (const date of getOccurrences(rule, schedule.start_date, from, horizon)) {
+      if (!await storage.claimScheduleOccurrence(schedule.id, previous, date)) return created;
+
+      const report = await this.createDraft(schedule, date, previous);
+      if (!report) return created;
+      created.push(report);
+      previous = date;
+    }
+
+    if (!getNextOccurrence(rule, schedule.start_date, horizon)) {
+      await storage.updateReportSchedule(schedule.id, { active: false });
+    }
+
+    return created;
+  }
+
+  // Copies the source report the same way replicating it does, at the
+  // occurrence's date and the schedule's time, and asks the creator to
+  // finish it
+  private async createDraft(schedule: ReportSchedule, date: string, previous: string | null): Promise<TpsReport | undefined> {
+    let report: TpsReport | undefined;
+    try {
+      report = await storage.replicateTpsReport(schedule.source_report_id, {
+        status: TpsStatus.DRAFT,
+        date,
+        time_start: schedule.time_start,
+        time_end: schedule.time_end
+      });
+    } catch (error) {
+      // Gives the claimed date back, so the next run tries it again
+      await storage.claimScheduleOccurrence(schedule.id, date, previous);
+      throw error;
+    }
+
+    if (!report) {
+      console.warn(`Report schedule ${schedule.id} lost its source report, pausing it`);
+      await storage.updateReportSchedule(schedule.id, { active: false });
+      return undefined;
+    }
+
+    await storage.createTpsLog({
+      tps_id: report.id,
+      user_id: schedule.creator_id,
+      action: 'scheduled',
+      details: { schedule_id: schedule.id, date }
+    });
+    reportEvents.publish([report.creator_id, report.receiver_id], { type: 'report.created', report_id: report.id });
+
+    const userData = await storage.getUserWithPartner(report.creator_id);
+    if (userData) {
+      await notifications.notifyReportEvent(userData.user, 'scheduled', {
+        creator: userData.user.name,
+        receiver: userData.partner.name
+      }, report.id);
+    }
+
+    return report;
+  }
+}
+
+export const reportScheduler = new ReportScheduler();
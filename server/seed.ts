@@ -0,0 +1,39 @@
+// The two partners created on first start. Set SEED_USERS to run an instance
+// for another couple, e.g. SEED_USERS="alex:Alex:alex@example.com,sam:Sam:sam@example.com"
+export interface SeedUser {
+  username: string;
+  name: string;
+  email: string;
+}
+
+const DEFAULT_SEED_USERS: SeedUser[] = [
+  { username: 'matt', name: 'Matt', email: 'matt@example.com' },
+  { username: 'mina', name: 'Mina', email: 'mina@example.com' }
+];
+
+export const SEED_PASSWORD = process.env.SEED_PASSWORD || 'password';
+
+export function getSeedUsers(): [SeedUser, SeedUser] {
+  const config = process.env.SEED_USERS;
+  if (!config) {
+    return [DEFAULT_SEED_USERS[0], DEFAULT_SEED_USERS[1]];
+  }
+
+  const seedUsers = config.split(',').map(entry => {
+    const [username, name, email] = entry.split(':').map(part => part.trim());
+    if (!username) {
+      throw new Error(`Invalid SEED_USERS entry: "${entry}"`);
+    }
+    return {
+      username: username.toLowerCase(),
+      name: name || username,
+      email: email || ''
+    };
+  });
+
+  if (seedUsers.length !== 2) {
+    throw new Error('SEED_USERS must list exactly two users');
+  }
+
+  return [seedUsers[0], seedUsers[1]];
+}
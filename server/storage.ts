@@ -2,13 +2,29 @@ import {
   User, InsertUser, 
   TpsReport, InsertTpsReport, 
   TpsLog, InsertTpsLog, 
-  TpsStatus 
+  TpsRevision, InsertTpsRevision,
+  Template, InsertTemplate,
+  UserNotification, InsertUserNotification,
+  PushSubscription, InsertPushSubscription,
+  AvailabilityWindow, InsertAvailabilityWindow,
+  ReportSchedule, InsertReportSchedule,
+  TpsStatus, TpsFormData
 } from "@shared/schema";
+import { resetParticipantSession } from '@shared/form-data';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as nodemailer from 'nodemailer';
-import * as ical from 'node-ical';
 import { promisify } from 'util';
+import { hashPasswordSync } from './auth';
+import { encryption } from './encryption';
+import { getSeedUsers, SEED_PASSWORD } from './seed';
+import { assertTransitionExists } from '@shared/workflow';
+import { changesRevisionContent, getRevisionSnapshot, StaleReportError } from '@shared/revisions';
+import { TPS_TEMPLATE } from '@shared/form-template';
+import { TEMPLATE_PATH, getTemplateFileName } from './pdf';
+import { TpsLogQuery } from '@shared/activity';
+import { TpsReportQuery, queryReports } from '@shared/report-query';
+import { getLocalDate } from '@shared/recurrence';
+import { ReportSearchHit, searchReports } from '@shared/search';
 
 // Modify the interface with any CRUD methods
 export interface IStorage {
@@ -16,76 +32,183 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: number, passwordHash: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  updateUserCalendarToken(id: number, token: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   getUserWithPartner(userId: number): Promise<{user: User, partner: User} | undefined>;
   
   // TPS Report methods
   createTpsReport(report: InsertTpsReport): Promise<TpsReport>;
   getTpsReport(id: number): Promise<TpsReport | undefined>;
-  updateTpsReport(id: number, data: Partial<TpsReport>): Promise<TpsReport | undefined>;
+  // userId is whoever made the change, recorded on the revision it creates
+  // Throws StaleReportError when expectedVersion is given and the report
+  // has moved past it
+  updateTpsReport(id: number, data: Partial<TpsReport>, userId?: number, expectedVersion?: number): Promise<TpsReport | undefined>;
   getAllTpsReports(): Promise<TpsReport[]>;
   getTpsReportsByUser(userId: number): Promise<TpsReport[]>;
   getTpsReportsByStatus(status: TpsStatus): Promise<TpsReport[]>;
-  replicateTpsReport(id: number): Promise<TpsReport | undefined>;
+  // One page of a user's report list, filtered and ordered as asked
+  queryTpsReports(query: TpsReportQuery): Promise<TpsReport[]>;
+  // Full-text search over the user's reports, best matches first
+  searchTpsReports(userId: number, query: string, limit: number): Promise<ReportSearchHit[]>;
+  // overrides replace the copied values, such as the date of a scheduled copy
+  replicateTpsReport(id: number, overrides?: Partial<InsertTpsReport>): Promise<TpsReport | undefined>;
   
   // Log methods
   createTpsLog(log: InsertTpsLog): Promise<TpsLog>;
   getTpsLogsByReport(tpsId: number): Promise<TpsLog[]>;
+  // Newest first, across the given reports; the activity feed pages through it
+  getTpsLogs(query: TpsLogQuery): Promise<TpsLog[]>;
   
-  // Helper methods
-  sendEmail(to: string, subject: string, body: string): Promise<boolean>;
-  addToCalendar(userId: number, event: any): Promise<boolean>;
+  // Revision methods
+  createTpsRevision(revision: InsertTpsRevision): Promise<TpsRevision>;
+  getTpsRevisionsByReport(tpsId: number): Promise<TpsRevision[]>;
+  
+  // Template methods
+  createTemplate(template: InsertTemplate): Promise<Template>;
+  getTemplate(id: number): Promise<Template | undefined>;
+  getTemplates(): Promise<Template[]>;
+  getLatestTemplate(): Promise<Template | undefined>;
+  getTemplateByVersion(name: string, version: string): Promise<Template | undefined>;
+  
+  // Notification methods
+  createNotification(notification: InsertUserNotification): Promise<UserNotification>;
+  // Newest first
+  getNotificationsByUser(userId: number, limit: number): Promise<UserNotification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  // Marks the given notifications read, or all of the user's when ids is left out
+  markNotificationsRead(userId: number, ids?: number[]): Promise<void>;
+  
+  // Push subscription methods
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]>;
+  // Only deletes the given user's subscription when userId is passed
+  deletePushSubscription(endpoint: string, userId?: number): Promise<void>;
+  
+  // Availability methods
+  getAvailabilityWindowsByUsers(userIds: number[]): Promise<AvailabilityWindow[]>;
+  getAvailabilityWindow(id: number): Promise<AvailabilityWindow | undefined>;
+  createAvailabilityWindow(window: InsertAvailabilityWindow): Promise<AvailabilityWindow>;
+  deleteAvailabilityWindow(id: number): Promise<void>;
+  
+  // Report schedule methods
+  getReportSchedulesByUser(userId: number): Promise<ReportSchedule[]>;
+  getActiveReportSchedules(): Promise<ReportSchedule[]>;
+  getReportSchedule(id: number): Promise<ReportSchedule | undefined>;
+  createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule>;
+  updateReportSchedule(id: number, data: Partial<ReportSchedule>): Promise<ReportSchedule | undefined>;
+  // Moves last_occurrence from previous to occurrence, unless it has moved
+  // since; false means another run got there first
+  claimScheduleOccurrence(id: number, previous: string | null, occurrence: string | null): Promise<boolean>;
+  deleteReportSchedule(id: number): Promise<void>;
+  
+  // Archive restore methods. Rows go in as they were exported, keeping
+  // their timestamps and versions, and under new ids.
+  restoreTpsReport(report: Omit<TpsReport, 'id' | 'pdf_path'>, pdf?: Buffer): Promise<TpsReport>;
+  restoreTpsLog(log: Omit<TpsLog, 'id'>): Promise<TpsLog>;
+  restoreTpsRevision(revision: Omit<TpsRevision, 'id'>): Promise<TpsRevision>;
+  // Undoes a restore that failed part way: deletes the reports with their
+  // logs, revisions and PDFs, then the templates with their files
+  discardRestoredArchive(reportIds: number[], templateIds: number[]): Promise<void>;
+  
+  // Helper methods. Report PDFs are encrypted on disk when a key is
+  // configured, so they're read back through readPdfFromDisk.
   savePdfToDisk(reportId: number, pdfData: Buffer): Promise<string>;
+  readPdfFromDisk(pdfPath: string): Promise<Buffer>;
+  saveTemplateToDisk(name: string, version: string, pdfData: Buffer): Promise<string>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private tpsReports: Map<number, TpsReport>;
   private tpsLogs: Map<number, TpsLog>;
+  private tpsRevisions: Map<number, TpsRevision>;
+  private templates: Map<number, Template>;
+  private notifications: Map<number, UserNotification>;
+  private pushSubscriptions: Map<string, PushSubscription>;
+  private availabilityWindows: Map<number, AvailabilityWindow>;
+  private reportSchedules: Map<number, ReportSchedule>;
   private userId: number;
   private tpsId: number;
   private logId: number;
+  private revisionId: number;
+  private templateId: number;
+  private notificationId: number;
+  private pushSubscriptionId: number;
+  private availabilityWindowId: number;
+  private reportScheduleId: number;
   private pdfDir: string;
+  private templateDir: string;
   
   constructor() {
     this.users = new Map();
     this.tpsReports = new Map();
     this.tpsLogs = new Map();
+    this.tpsRevisions = new Map();
+    this.templates = new Map();
+    this.notifications = new Map();
+    this.pushSubscriptions = new Map();
+    this.availabilityWindows = new Map();
+    this.reportSchedules = new Map();
     this.userId = 1;
     this.tpsId = 1;
     this.logId = 1;
+    this.revisionId = 1;
+    this.templateId = 1;
+    this.notificationId = 1;
+    this.pushSubscriptionId = 1;
+    this.availabilityWindowId = 1;
+    this.reportScheduleId = 1;
     this.pdfDir = path.join(process.cwd(), 'storage', 'pdfs');
+    this.templateDir = path.join(process.cwd(), 'storage', 'templates');
     
-    // Ensure PDF directory exists
-    if (!fs.existsSync(this.pdfDir)) {
-      fs.mkdirSync(this.pdfDir, { recursive: true });
-    }
+    // Ensure PDF directories exist
+    [this.pdfDir, this.templateDir].forEach(dir => {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    });
     
-    // Initialize with Matt and Mina users
+    // Initialize with the two partners and the bundled template
     this.initUsers();
+    this.initTemplates();
+  }
+  
+  private initTemplates() {
+    const template: Template = {
+      id: this.templateId++,
+      name: TPS_TEMPLATE.name,
+      version: TPS_TEMPLATE.version,
+      file_path: TEMPLATE_PATH,
+      uploaded_by: null,
+      created_at: new Date()
+    };
+    
+    this.templates.set(template.id, template);
   }
   
   private initUsers() {
-    const matt: User = {
+    const [first, second] = getSeedUsers();
+    
+    const firstUser: User = {
       id: this.userId++,
-      username: 'matt',
-      password: 'password', // In a real app, this would be hashed
-      name: 'Matt',
-      email: 'matt@example.com',
-      partner_id: 2
+      ...first,
+      password: hashPasswordSync(SEED_PASSWORD),
+      partner_id: 2,
+      calendar_token: null
     };
     
-    const mina: User = {
+    const secondUser: User = {
       id: this.userId++,
-      username: 'mina',
-      password: 'password', // In a real app, this would be hashed
-      name: 'Mina',
-      email: 'mina@example.com',
-      partner_id: 1
+      ...second,
+      password: hashPasswordSync(SEED_PASSWORD),
+      partner_id: 1,
+      calendar_token: null
     };
     
-    this.users.set(matt.id, matt);
-    this.users.set(mina.id, mina);
+    this.users.set(firstUser.id, firstUser);
+    this.users.set(secondUser.id, secondUser);
   }
   
   // User methods
@@ -101,11 +224,35 @@ export class MemStorage implements IStorage {
   
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, calendar_token: null };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUserPassword(id: number, passwordHash: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, password: passwordHash };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.calendar_token === token
+    );
+  }
+  
+  async updateUserCalendarToken(id: number, token: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, calendar_token: token };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
@@ -127,6 +274,8 @@ export class MemStorage implements IStorage {
     const tpsReport: TpsReport = {
       ...report,
       id,
+      counter_round: report.counter_round ?? 0,
+      version: 1,
       created_at: now,
       updated_at: now
     };
@@ -148,13 +297,35 @@ export class MemStorage implements IStorage {
     return this.tpsReports.get(id);
   }
   
-  async updateTpsReport(id: number, data: Partial<TpsReport>): Promise<TpsReport | undefined> {
+  async updateTpsReport(id: number, data: Partial<TpsReport>, userId?: number, expectedVersion?: number): Promise<TpsReport | undefined> {
     const report = this.tpsReports.get(id);
     if (!report) return undefined;
     
+    if (expectedVersion !== undefined && expectedVersion !== report.version) {
+      throw new StaleReportError(expectedVersion, report.version);
+    }
+    
+    // Status changes have to follow the transition table
+    if (data.status && data.status !== report.status) {
+      assertTransitionExists(report.status, data.status);
+    }
+    
+    // Keep the version being replaced so the change can be diffed later
+    const changesContent = changesRevisionContent(report, data);
+    if (changesContent) {
+      const revisions = await this.getTpsRevisionsByReport(id);
+      await this.createTpsRevision({
+        tps_id: id,
+        revision: revisions.length + 1,
+        user_id: userId ?? null,
+        ...getRevisionSnapshot(report)
+      });
+    }
+    
     const updatedReport: TpsReport = {
       ...report,
       ...data,
+      version: changesContent ? report.version + 1 : report.version,
       updated_at: new Date()
     };
     
@@ -178,20 +349,23 @@ export class MemStorage implements IStorage {
     );
   }
   
-  async replicateTpsReport(id: number): Promise<TpsReport | undefined> {
+  async queryTpsReports(query: TpsReportQuery): Promise<TpsReport[]> {
+    return queryReports(Array.from(this.tpsReports.values()), query);
+  }
+  
+  async searchTpsReports(userId: number, query: string, limit: number): Promise<ReportSearchHit[]> {
+    return searchReports(Array.from(this.tpsReports.values()), userId, query, limit);
+  }
+  
+  async replicateTpsReport(id: number, overrides: Partial<InsertTpsReport> = {}): Promise<TpsReport | undefined> {
     const original = await this.getTpsReport(id);
     if (!original) return undefined;
     
-    // Create a copy with reset dates and emotional state
-    const formData = JSON.parse(JSON.stringify(original.form_data));
-    
-    // Reset emotional state
-    if (formData.emotional_state) {
-      formData.emotional_state = { matt: '', mina: '' };
-    }
+    // Create a copy with reset dates and each participant's emotional state
+    const formData = resetParticipantSession(original.form_data as TpsFormData);
     
     // Set current date
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalDate();
     
     const newReport: InsertTpsReport = {
       creator_id: original.creator_id,
@@ -209,7 +383,11 @@ export class MemStorage implements IStorage {
       creator_initials: '',
       receiver_initials: '',
       replicated_from_id: original.id,
-      pdf_path: ''
+      pdf_path: '',
+      // Copies keep the original's template so its form data still lines up
+      template_id: original.template_id,
+      template_version: original.template_version,
+      ...overrides
     };
     
     const report = await this.createTpsReport(newReport);
@@ -244,24 +422,285 @@ export class MemStorage implements IStorage {
     ).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
   
-  // Helper methods
-  async sendEmail(to: string, subject: string, body: string): Promise<boolean> {
-    // In a real app, this would send an actual email
-    console.log(`Email sent to ${to}: ${subject} - ${body}`);
-    return true;
+  async getTpsLogs(query: TpsLogQuery): Promise<TpsLog[]> {
+    const reportIds = new Set(query.reportIds);
+    const logs = Array.from(this.tpsLogs.values()).filter(log =>
+      reportIds.has(log.tps_id) &&
+      (!query.actions || query.actions.includes(log.action)) &&
+      (query.userId === undefined || log.user_id === query.userId) &&
+      (!query.from || log.timestamp >= query.from) &&
+      (!query.to || log.timestamp <= query.to) &&
+      (query.before === undefined || log.id < query.before)
+    ).sort((a, b) => b.id - a.id);
+
+    return query.limit ? logs.slice(0, query.limit) : logs;
+  }
+  
+  // Revision methods
+  async createTpsRevision(revision: InsertTpsRevision): Promise<TpsRevision> {
+    const id = this.revisionId++;
+    const tpsRevision: TpsRevision = {
+      ...revision,
+      id,
+      user_id: revision.user_id ?? null,
+      created_at: new Date()
+    };
+    
+    this.tpsRevisions.set(id, tpsRevision);
+    return tpsRevision;
+  }
+  
+  async getTpsRevisionsByReport(tpsId: number): Promise<TpsRevision[]> {
+    return Array.from(this.tpsRevisions.values())
+      .filter(revision => revision.tps_id === tpsId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+  
+  // Template methods
+  async createTemplate(template: InsertTemplate): Promise<Template> {
+    const id = this.templateId++;
+    const newTemplate: Template = {
+      ...template,
+      id,
+      uploaded_by: template.uploaded_by ?? null,
+      created_at: new Date()
+    };
+    
+    this.templates.set(id, newTemplate);
+    return newTemplate;
+  }
+  
+  async getTemplate(id: number): Promise<Template | undefined> {
+    return this.templates.get(id);
+  }
+  
+  async getTemplates(): Promise<Template[]> {
+    return Array.from(this.templates.values()).sort((a, b) => b.id - a.id);
+  }
+  
+  async getLatestTemplate(): Promise<Template | undefined> {
+    return (await this.getTemplates())[0];
+  }
+  
+  async getTemplateByVersion(name: string, version: string): Promise<Template | undefined> {
+    return Array.from(this.templates.values()).find(
+      template => template.name === name && template.version === version
+    );
+  }
+  
+  // Notification methods
+  async createNotification(notification: InsertUserNotification): Promise<UserNotification> {
+    const id = this.notificationId++;
+    const userNotification: UserNotification = {
+      ...notification,
+      id,
+      tps_id: notification.tps_id ?? null,
+      read_at: null,
+      created_at: new Date()
+    };
+    
+    this.notifications.set(id, userNotification);
+    return userNotification;
+  }
+  
+  async getNotificationsByUser(userId: number, limit: number): Promise<UserNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.user_id === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values()).filter(
+      notification => notification.user_id === userId && !notification.read_at
+    ).length;
+  }
+  
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+    const now = new Date();
+    this.notifications.forEach((notification, id) => {
+      if (notification.user_id !== userId || notification.read_at) return;
+      if (ids && !ids.includes(id)) return;
+      this.notifications.set(id, { ...notification, read_at: now });
+    });
+  }
+  
+  // Push subscription methods
+  async savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    // Subscribing the same browser again just moves it to whoever is logged in
+    const existing = this.pushSubscriptions.get(subscription.endpoint);
+    const pushSubscription: PushSubscription = {
+      ...subscription,
+      id: existing?.id ?? this.pushSubscriptionId++,
+      created_at: existing?.created_at ?? new Date()
+    };
+    
+    this.pushSubscriptions.set(subscription.endpoint, pushSubscription);
+    return pushSubscription;
+  }
+  
+  async getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values()).filter(
+      subscription => subscription.user_id === userId
+    );
+  }
+  
+  async deletePushSubscription(endpoint: string, userId?: number): Promise<void> {
+    const subscription = this.pushSubscriptions.get(endpoint);
+    if (subscription && (userId === undefined || subscription.user_id === userId)) {
+      this.pushSubscriptions.delete(endpoint);
+    }
+  }
+  
+  // Availability methods
+  async getAvailabilityWindowsByUsers(userIds: number[]): Promise<AvailabilityWindow[]> {
+    return Array.from(this.availabilityWindows.values()).filter(
+      window => userIds.includes(window.user_id)
+    );
   }
   
-  async addToCalendar(userId: number, event: any): Promise<boolean> {
-    // In a real app, this would add to the user's calendar
-    console.log(`Calendar event added for user ${userId}: ${JSON.stringify(event)}`);
+  async getAvailabilityWindow(id: number): Promise<AvailabilityWindow | undefined> {
+    return this.availabilityWindows.get(id);
+  }
+  
+  async createAvailabilityWindow(window: InsertAvailabilityWindow): Promise<AvailabilityWindow> {
+    const id = this.availabilityWindowId++;
+    const availabilityWindow: AvailabilityWindow = {
+      days_of_week: null,
+      start_date: null,
+      end_date: null,
+      time_start: null,
+      time_end: null,
+      ...window,
+      id,
+      created_at: new Date()
+    };
+    
+    this.availabilityWindows.set(id, availabilityWindow);
+    return availabilityWindow;
+  }
+  
+  async deleteAvailabilityWindow(id: number): Promise<void> {
+    this.availabilityWindows.delete(id);
+  }
+  
+  // Report schedule methods
+  async getReportSchedulesByUser(userId: number): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values()).filter(
+      schedule => schedule.creator_id === userId
+    );
+  }
+  
+  async getActiveReportSchedules(): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values()).filter(schedule => schedule.active);
+  }
+  
+  async getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+    return this.reportSchedules.get(id);
+  }
+  
+  async createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const id = this.reportScheduleId++;
+    const reportSchedule: ReportSchedule = {
+      lead_days: 3,
+      active: true,
+      ...schedule,
+      id,
+      last_occurrence: null,
+      created_at: new Date()
+    };
+    
+    this.reportSchedules.set(id, reportSchedule);
+    return reportSchedule;
+  }
+  
+  async updateReportSchedule(id: number, data: Partial<ReportSchedule>): Promise<ReportSchedule | undefined> {
+    const schedule = this.reportSchedules.get(id);
+    if (!schedule) return undefined;
+    
+    const updatedSchedule = { ...schedule, ...data, id };
+    this.reportSchedules.set(id, updatedSchedule);
+    return updatedSchedule;
+  }
+  
+  async claimScheduleOccurrence(id: number, previous: string | null, occurrence: string | null): Promise<boolean> {
+    const schedule = this.reportSchedules.get(id);
+    if (!schedule || schedule.last_occurrence !== previous) return false;
+    
+    this.reportSchedules.set(id, { ...schedule, last_occurrence: occurrence });
     return true;
   }
   
+  async deleteReportSchedule(id: number): Promise<void> {
+    this.reportSchedules.delete(id);
+  }
+  
+  // Archive restore methods
+  async restoreTpsReport(report: Omit<TpsReport, 'id' | 'pdf_path'>, pdf?: Buffer): Promise<TpsReport> {
+    const id = this.tpsId++;
+    const restored: TpsReport = {
+      ...report,
+      id,
+      pdf_path: pdf ? await this.savePdfToDisk(id, pdf) : null
+    };
+    
+    this.tpsReports.set(id, restored);
+    return restored;
+  }
+  
+  async restoreTpsLog(log: Omit<TpsLog, 'id'>): Promise<TpsLog> {
+    const id = this.logId++;
+    const restored: TpsLog = { ...log, id };
+    
+    this.tpsLogs.set(id, restored);
+    return restored;
+  }
+  
+  async restoreTpsRevision(revision: Omit<TpsRevision, 'id'>): Promise<TpsRevision> {
+    const id = this.revisionId++;
+    const restored: TpsRevision = { ...revision, id };
+    
+    this.tpsRevisions.set(id, restored);
+    return restored;
+  }
+  
+  async discardRestoredArchive(reportIds: number[], templateIds: number[]): Promise<void> {
+    const filePaths: (string | null)[] = [];
+    Array.from(this.tpsLogs.values())
+      .filter(log => reportIds.includes(log.tps_id))
+      .forEach(log => this.tpsLogs.delete(log.id));
+    Array.from(this.tpsRevisions.values())
+      .filter(revision => reportIds.includes(revision.tps_id))
+      .forEach(revision => this.tpsRevisions.delete(revision.id));
+    reportIds.forEach(id => {
+      filePaths.push(this.tpsReports.get(id)?.pdf_path ?? null);
+      this.tpsReports.delete(id);
+    });
+    templateIds.forEach(id => {
+      filePaths.push(this.templates.get(id)?.file_path ?? null);
+      this.templates.delete(id);
+    });
+    for (const filePath of filePaths) {
+      if (filePath && fs.existsSync(filePath)) await promisify(fs.unlink)(filePath);
+    }
+  }
+  
+  // Helper methods
   async savePdfToDisk(reportId: number, pdfData: Buffer): Promise<string> {
     const pdfPath = path.join(this.pdfDir, `tps_report_${reportId}.pdf`);
-    await promisify(fs.writeFile)(pdfPath, pdfData);
+    await promisify(fs.writeFile)(pdfPath, encryption.encryptFile(pdfData));
     return pdfPath;
   }
+  
+  async readPdfFromDisk(pdfPath: string): Promise<Buffer> {
+    return encryption.decryptFile(await promisify(fs.readFile)(pdfPath));
+  }
+  
+  async saveTemplateToDisk(name: string, version: string, pdfData: Buffer): Promise<string> {
+    const templatePath = path.join(this.templateDir, getTemplateFileName(name, version));
+    await promisify(fs.writeFile)(templatePath, pdfData);
+    return templatePath;
+  }
 }
 
 // Import the DatabaseStorage implementation
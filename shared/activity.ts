@@ -0,0 +1,84 @@
+import { TpsLog } from "./schema";
+import { ParticipantNames } from "./form-data";
+
+// Every action tps_logs records, with how the activity feed labels it
+export const ACTIVITY_ACTIONS: Record<string, string> = {
+  created: "Created",
+  viewed: "Viewed",
+  updated: "Updated",
+  countered: "Countered",
+  replicated: "Replicated",
+  scheduled: "Scheduled",
+  reminded: "Reminded",
+  expired: "Expired"
+};
+
+// Views are logged on every visit, so the feed leaves them out unless asked
+export const DEFAULT_ACTIVITY_ACTIONS = Object.keys(ACTIVITY_ACTIONS).filter(action => action !== "viewed");
+
+export const ACTIVITY_PAGE_SIZE = 50;
+export const MAX_ACTIVITY_PAGE_SIZE = 200;
+
+// Which logs the feed returns, newest first
+export interface TpsLogQuery {
+  // Reports the feed covers, always limited to the user's own
+  reportIds: number[];
+  actions?: string[];
+  userId?: number;
+  from?: Date;
+  to?: Date;
+  // Cursor: only logs older than this log id
+  before?: number;
+  limit?: number;
+}
+
+export interface ActivityEntry extends TpsLog {
+  user_name: string;
+  report_date: string | null;
+  report_status: string | null;
+  // Who the changes in details.changes belong to
+  participant_names: ParticipantNames;
+}
+
+export interface ActivityPage {
+  items: ActivityEntry[];
+  // Pass back as cursor for the next page; null on the last one
+  next_cursor: number | null;
+}
+
+const STATUS_ACTIVITY: Record<string, string> = {
+  draft: "saved the draft",
+  pending_review: "sent the report for review",
+  pending_approval: "reviewed the report",
+  completed: "approved the report",
+  aborted: "aborted the report",
+  expired: "let the report expire"
+};
+
+// One line for the timeline, e.g. "Mina reviewed the report"
+export function describeActivity(log: Pick<TpsLog, "action" | "details">, userName: string): string {
+  const details = (log.details || {}) as Record<string, any>;
+
+  switch (log.action) {
+    case "created":
+      return `${userName} created the report`;
+    case "viewed":
+      return `${userName} viewed the report`;
+    case "updated":
+      return details.from && details.from !== details.status && STATUS_ACTIVITY[details.status]
+        ? `${userName} ${STATUS_ACTIVITY[details.status]}`
+        : `${userName} edited the report`;
+    case "countered":
+      return `${userName} sent a counter-proposal${details.round ? ` (round ${details.round})` : ""}`;
+    case "replicated":
+      return `Copied from report #${details.original_id}`;
+    case "scheduled":
+      return `Draft created by a recurring schedule for ${details.date}`;
+    case "reminded":
+      return `${userName} was reminded about the report`;
+    case "expired":
+      return "The report expired before it was approved";
+    default:
+      return `${userName}: ${log.action}`;
+  }
+}
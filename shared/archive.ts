@@ -0,0 +1,43 @@
+import { Template, TpsLog, TpsReport, TpsRevision } from "./schema";
+
+export const ARCHIVE_FORMAT = "formplay-archive";
+// Bump when the manifest changes shape; imports accept this version and older
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_MANIFEST_FILE = "manifest.json";
+
+export interface ArchiveUser {
+  id: number;
+  username: string;
+  name: string;
+}
+
+export interface ArchiveTemplate extends Omit<Template, "file_path"> {
+  // Path of the template PDF inside the ZIP, null in a JSON export
+  file: string | null;
+}
+
+export interface ArchiveReport extends Omit<TpsReport, "pdf_path"> {
+  // Path of the generated PDF inside the ZIP, null when there is none
+  pdf_file: string | null;
+}
+
+// Everything a couple's history is made of. Ids are the exporting
+// instance's; an import gives every row a new one and remaps references.
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  users: ArchiveUser[];
+  templates: ArchiveTemplate[];
+  reports: ArchiveReport[];
+  logs: TpsLog[];
+  revisions: TpsRevision[];
+}
+
+export interface ArchiveImportSummary {
+  reports: number;
+  logs: number;
+  revisions: number;
+  templates: number;
+  pdfs: number;
+}
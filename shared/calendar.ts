@@ -0,0 +1,85 @@
+import { TpsReport, TpsStatus } from "./schema";
+import { getTemplateField, getOptionLabel } from "./form-template";
+
+export type CalendarEventStatus = "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+
+export interface CalendarEvent {
+  // Stays the same for the life of a report, so calendar apps update the
+  // event they already have instead of adding another one
+  uid: string;
+  title: string;
+  start: Date;
+  end?: Date;
+  // Reports without a start time become all-day events
+  allDay?: boolean;
+  description?: string;
+  location?: string;
+  status: CalendarEventStatus;
+  // Goes up every time the event changes in a way apps should pick up
+  sequence: number;
+  updated: Date;
+  // Event of the report this one was replicated from
+  relatedTo?: string;
+}
+
+const locationField = getTemplateField("Location")!;
+
+const EVENT_STATUS: Partial<Record<TpsStatus, CalendarEventStatus>> = {
+  [TpsStatus.PENDING_REVIEW]: "TENTATIVE",
+  [TpsStatus.PENDING_APPROVAL]: "TENTATIVE",
+  [TpsStatus.COMPLETED]: "CONFIRMED",
+  [TpsStatus.ABORTED]: "CANCELLED",
+  [TpsStatus.EXPIRED]: "CANCELLED"
+};
+
+// Order the statuses are reached in, so every move bumps the sequence.
+// A counter-proposal sends the report back, hence two steps per round. The
+// report's version is added on top, so a new date, time or place without a
+// status change still reaches calendars that already have the event.
+const STATUS_SEQUENCE: Partial<Record<TpsStatus, number>> = {
+  [TpsStatus.PENDING_REVIEW]: 0,
+  [TpsStatus.PENDING_APPROVAL]: 1,
+  [TpsStatus.COMPLETED]: 2,
+  [TpsStatus.ABORTED]: 3,
+  [TpsStatus.EXPIRED]: 3
+};
+
+export function getReportEventUid(reportId: number): string {
+  return `tps-report-${reportId}@formplay`;
+}
+
+// Reports show up on the calendar once they've been sent to the partner
+export function hasCalendarEvent(report: Pick<TpsReport, "status">): boolean {
+  return report.status in EVENT_STATUS;
+}
+
+// Local date and time from the report's date and "HH:MM" times
+function toDate(date: string, time?: string | null): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = (time || "0:0").split(":").map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+}
+
+export function createTpsReviewEvent(report: TpsReport): CalendarEvent {
+  const allDay = !report.time_start;
+  const start = toDate(report.date, report.time_start);
+  let end = report.time_end ? toDate(report.date, report.time_end) : undefined;
+  // An end time before the start runs past midnight
+  if (end && end <= start) end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+
+  return {
+    uid: getReportEventUid(report.id),
+    title: "Review TPS Reports",
+    start,
+    end: allDay ? undefined : end,
+    allDay,
+    description: `TPS Report #${report.id} review session`,
+    location: report.location === "other" && report.location_other
+      ? report.location_other
+      : getOptionLabel(locationField, report.location),
+    status: EVENT_STATUS[report.status as TpsStatus] ?? "TENTATIVE",
+    sequence: report.version + report.counter_round * 2 + (STATUS_SEQUENCE[report.status as TpsStatus] ?? 0),
+    updated: new Date(report.updated_at),
+    relatedTo: report.replicated_from_id ? getReportEventUid(report.replicated_from_id) : undefined
+  };
+}
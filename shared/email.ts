@@ -0,0 +1,57 @@
+import { TpsStatus } from "./schema";
+
+// What a participant is told when a report moves along. "countered" is the
+// creator sending it back with a counter-proposal rather than a status,
+// "scheduled" a draft created from a recurring schedule, and the reminders
+// nudge whoever a pending report is waiting on.
+export type NotificationEvent = TpsStatus | "countered" | "scheduled" | "review_reminder" | "approval_reminder";
+
+export function getEmailSubjectForStatus(status: string, creator: string, receiver: string): string {
+  switch (status) {
+    case "pending_review":
+      return `New TPS Report from ${creator}`;
+    case "pending_approval":
+      return `TPS Report Reviewed by ${receiver}`;
+    case "countered":
+      return `${creator} Suggested Some Changes`;
+    case "scheduled":
+      return "Your Next TPS Report Is Ready to Fill In";
+    case "completed":
+      return "TPS Report Completed";
+    case "aborted":
+      return "TPS Report Aborted";
+    case "expired":
+      return "TPS Report Expired";
+    case "review_reminder":
+      return `${creator}'s TPS Report Is Waiting for You`;
+    case "approval_reminder":
+      return "Your TPS Report Is Waiting for Approval";
+    default:
+      return "TPS Report Update";
+  }
+}
+
+export function getEmailBodyForStatus(status: string, creator: string, receiver: string): string {
+  switch (status) {
+    case "pending_review":
+      return `${creator} has created a new TPS report for you to review. Please log in to FormPlay to check it out!`;
+    case "pending_approval":
+      return `${receiver} has reviewed your TPS report and made some changes. Please log in to FormPlay to approve it.`;
+    case "countered":
+      return `${creator} would like to change a few things on your TPS report. Please log in to FormPlay to review the new version.`;
+    case "scheduled":
+      return `A draft TPS report was created from your recurring schedule. Please log in to FormPlay to finish it and send it to ${receiver}.`;
+    case "completed":
+      return `Your TPS report has been approved! Time to review TPS reports together.`;
+    case "aborted":
+      return `Unfortunately, your TPS report has been declined. Please log in to FormPlay for more details.`;
+    case "expired":
+      return `Your TPS report's time has passed before it was approved, so it has expired. You can replicate it to pick a new time.`;
+    case "review_reminder":
+      return `Just a gentle reminder: ${creator}'s TPS report is still waiting for your review. Please log in to FormPlay when you have a moment.`;
+    case "approval_reminder":
+      return `Just a gentle reminder: ${receiver} reviewed your TPS report and it's still waiting for your approval. Please log in to FormPlay when you have a moment.`;
+    default:
+      return "There has been an update to your TPS report.";
+  }
+}
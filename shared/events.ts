@@ -0,0 +1,10 @@
+// Pushed to both partners over the WebSocket at REPORT_EVENTS_PATH whenever
+// a report changes, so open pages can refetch instead of waiting for a reload
+export const REPORT_EVENTS_PATH = "/api/ws";
+
+export type ReportEventType = "report.created" | "report.updated" | "report.log" | "notification.created";
+
+export interface ReportEvent {
+  type: ReportEventType;
+  report_id: number;
+}
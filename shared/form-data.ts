@@ -0,0 +1,172 @@
+import { TpsFormData, ParticipantFormData } from "./schema";
+import { ParticipantRole } from "./workflow";
+
+export const PARTICIPANT_ROLES: ParticipantRole[] = ["creator", "receiver"];
+
+// Display names of the two participants, taken from the users table. The PDF
+// template prefixes each participant's own fields with their name.
+export interface ParticipantNames {
+  creator: string;
+  receiver: string;
+}
+
+// Participant fields that describe a single session and start over on replication
+export const PARTICIPANT_SESSION_FIELDS = ["EmotionalState", "Initials"];
+
+// Older reports stored these with short codes instead of the PDF export values
+const LEGACY_EMOTIONAL_STATES: Record<string, string> = {
+  calm: "Calm",
+  anxious: "Anxious",
+  curious: "Curious",
+  not: "Nope",
+  other: "Other"
+};
+
+const LEGACY_PHYSICAL_CONDITIONS: Record<string, string> = {
+  good: "Good",
+  fatigue: "Fatigue",
+  headache: "Headache",
+  hormonal: "Hormones",
+  sensitivities: "Sensitive"
+};
+
+function emptyParticipant(): ParticipantFormData {
+  return { fields: {} };
+}
+
+export function createEmptyFormData(): TpsFormData {
+  return {
+    fields: {},
+    participants: { creator: emptyParticipant(), receiver: emptyParticipant() }
+  };
+}
+
+function getNamePrefix(name: string): string {
+  return `${name.toLowerCase()}_`;
+}
+
+// Splits a template field name like "Mina_Initials" into its owner and the
+// role-neutral name, or returns null for shared fields
+export function parsePdfFieldName(
+  fieldName: string,
+  names: ParticipantNames
+): { role: ParticipantRole; field: string } | null {
+  for (const role of PARTICIPANT_ROLES) {
+    const name = names[role];
+    if (name && fieldName.toLowerCase().startsWith(getNamePrefix(name))) {
+      return { role, field: fieldName.slice(name.length + 1) };
+    }
+  }
+  return null;
+}
+
+// Path inside form_data where a template field is stored
+export function getPdfFieldPath(fieldName: string, names: ParticipantNames): string[] {
+  const parsed = parsePdfFieldName(fieldName, names);
+  return parsed
+    ? ["participants", parsed.role, "fields", parsed.field]
+    : ["fields", fieldName];
+}
+
+// Flattens form_data back into template field names for filling the PDF
+export function toPdfFieldValues(formData: TpsFormData | null | undefined, names: ParticipantNames): Record<string, any> {
+  const values: Record<string, any> = { ...(formData?.fields || {}) };
+
+  PARTICIPANT_ROLES.forEach(role => {
+    const fields = formData?.participants?.[role]?.fields || {};
+    Object.keys(fields).forEach(field => {
+      values[`${names[role]}_${field}`] = fields[field];
+    });
+  });
+
+  return values;
+}
+
+// Splits template field values into shared and per-participant data
+export function fromPdfFieldValues(
+  values: Record<string, any>,
+  names: ParticipantNames,
+  metadata?: TpsFormData["metadata"]
+): TpsFormData {
+  const formData = createEmptyFormData();
+
+  Object.keys(values).forEach(fieldName => {
+    const parsed = parsePdfFieldName(fieldName, names);
+    if (parsed) {
+      formData.participants[parsed.role].fields[parsed.field] = values[fieldName];
+    } else {
+      formData.fields[fieldName] = values[fieldName];
+    }
+  });
+
+  if (metadata) formData.metadata = metadata;
+  return formData;
+}
+
+export function isParticipantFormData(formData: any): formData is TpsFormData {
+  return !!formData && typeof formData === "object" && !!formData.participants;
+}
+
+// Converts form_data saved before it was keyed by participant role. Those
+// reports used the participants' names, e.g. fields.Matt_Initials,
+// metadata.mina_notes or emotional_state.matt.
+export function migrateLegacyFormData(legacy: any, names: ParticipantNames): TpsFormData {
+  if (isParticipantFormData(legacy)) return legacy;
+
+  const source = legacy && typeof legacy === "object" ? { ...legacy } : {};
+  const metadata = { ...(source.metadata || {}) };
+  const formData = fromPdfFieldValues(source.fields || {}, names);
+
+  PARTICIPANT_ROLES.forEach(role => {
+    const key = names[role].toLowerCase();
+    const fields = formData.participants[role].fields;
+
+    const emotionalState = source.emotional_state?.[key];
+    if (emotionalState && fields.EmotionalState === undefined) {
+      fields.EmotionalState = LEGACY_EMOTIONAL_STATES[emotionalState] || emotionalState;
+    }
+
+    const physical = source.physical_conditions?.[key];
+    if (Array.isArray(physical) && physical.length > 0 && fields.Physical === undefined) {
+      fields.Physical = physical.map((value: string) => LEGACY_PHYSICAL_CONDITIONS[value] || value);
+    }
+
+    const notes = metadata[`${key}_notes`] || source[`${key}_notes`];
+    if (notes && !fields.Notes) {
+      fields.Notes = notes;
+    }
+    delete metadata[`${key}_notes`];
+  });
+
+  // Everything else from the old shape was shared between both participants
+  const ownKeys = new Set(["fields", "metadata", "emotional_state", "physical_conditions"]);
+  PARTICIPANT_ROLES.forEach(role => ownKeys.add(`${names[role].toLowerCase()}_notes`));
+  Object.keys(source).forEach(key => {
+    if (!ownKeys.has(key)) formData.fields[key] = source[key];
+  });
+
+  if (Object.keys(metadata).length > 0) formData.metadata = metadata;
+  return formData;
+}
+
+// Copy of form_data for a replicated report, with each participant's
+// per-session answers cleared
+export function resetParticipantSession(formData: TpsFormData): TpsFormData {
+  const copy: TpsFormData = JSON.parse(JSON.stringify(formData));
+
+  PARTICIPANT_ROLES.forEach(role => {
+    const participant = copy.participants?.[role];
+    if (!participant) return;
+    PARTICIPANT_SESSION_FIELDS.forEach(field => delete participant.fields[field]);
+  });
+
+  return copy;
+}
+
+// Copy of form_data with one participant's initials removed, for when a
+// change means they have to sign off on the report again
+export function clearParticipantInitials(formData: TpsFormData, role: ParticipantRole): TpsFormData {
+  const copy: TpsFormData = JSON.parse(JSON.stringify(formData));
+  delete copy.participants?.[role]?.fields?.Initials;
+  return copy;
+}
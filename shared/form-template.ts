@@ -0,0 +1,329 @@
+import { TpsReport, TpsFormData } from "./schema";
+import { ParticipantRole } from "./workflow";
+import { ParticipantNames, PARTICIPANT_ROLES } from "./form-data";
+
+export type TemplateFieldType = "text" | "textarea" | "date" | "time" | "radio" | "checkboxes" | "checkbox";
+
+export interface TemplateOption {
+  // Export value of the PDF widget, which is also what form_data stores
+  value: string;
+  label: string;
+  // Short code kept in the report column, when the field has one
+  code?: string;
+}
+
+export interface TemplateField {
+  // AcroForm field name. Participant fields leave off the name prefix, so
+  // "EmotionalState" fills "Matt_EmotionalState" and "Mina_EmotionalState".
+  name: string;
+  label: string;
+  type: TemplateFieldType;
+  owner: "shared" | "participant";
+  // Report column mirroring this field. For participant fields this is the
+  // suffix after the role, e.g. "initials" for creator_initials.
+  column?: string;
+  options?: TemplateOption[];
+  // Free-text field filled in when the "Other" option is picked
+  otherField?: string;
+  // Checkbox this field belongs to, e.g. the show for Netflix and Chill
+  parent?: string;
+  // Sub-heading the field is listed under within its section
+  group?: string;
+  placeholder?: string;
+}
+
+export interface TemplateSection {
+  id: string;
+  title: string;
+  description?: string;
+  fields: TemplateField[];
+}
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  version: string;
+  sections: TemplateSection[];
+}
+
+// Single checkboxes on the template are checked with this export value
+export const CHECKED_VALUE = "Yes";
+
+// The TPS report as printed on storage/pdfs/tps-vanilla.pdf. Fields the PDF
+// doesn't have are kept in form_data and left off the printout.
+export const TPS_TEMPLATE: FormTemplate = {
+  id: "tps-vanilla",
+  name: "TPS Report",
+  version: "1.2",
+  sections: [
+    {
+      id: "schedule",
+      title: "When",
+      fields: [
+        { name: "Date", label: "Date", type: "date", owner: "shared", column: "date" },
+        { name: "Time_Start", label: "Time (Start)", type: "time", owner: "shared", column: "time_start" },
+        { name: "Time_End", label: "Time (End)", type: "time", owner: "shared", column: "time_end" }
+      ]
+    },
+    {
+      id: "check_in",
+      title: "1) Emotional and Physical Check-In",
+      fields: [
+        {
+          name: "EmotionalState",
+          label: "Emotional State",
+          type: "radio",
+          owner: "participant",
+          options: [
+            { value: "Calm", label: "Calm or relaxed" },
+            { value: "Anxious", label: "Anxious or nervous" },
+            { value: "Curious", label: "Curious or open" },
+            { value: "Nope", label: "Not into this" },
+            { value: "Other", label: "Other (explain below)" }
+          ]
+        },
+        {
+          name: "Physical",
+          label: "Physical Conditions",
+          type: "checkboxes",
+          owner: "participant",
+          options: [
+            { value: "Good", label: "I'm good" },
+            { value: "Fatigue", label: "Fatigue" },
+            { value: "Headache", label: "Headache" },
+            { value: "Hormones", label: "Hormonal changes" },
+            { value: "Sensitive", label: "Sensitivities (explain in notes)" }
+          ]
+        },
+        { name: "Notes", label: "Notes", type: "textarea", owner: "participant", column: "notes" }
+      ]
+    },
+    {
+      id: "setting",
+      title: "2) Setting and Atmosphere",
+      fields: [
+        {
+          name: "Location",
+          label: "Location",
+          type: "radio",
+          owner: "shared",
+          column: "location",
+          otherField: "Location_Other",
+          options: [
+            { value: "MasterBedroom", label: "Master bedroom", code: "master" },
+            { value: "Basement", label: "Basement", code: "basement" },
+            { value: "Other", label: "Other", code: "other" }
+          ]
+        },
+        { name: "Location_Other", label: "Other location", type: "text", owner: "shared", column: "location_other", parent: "Location" },
+        {
+          name: "Sound",
+          label: "Sound",
+          type: "radio",
+          owner: "shared",
+          column: "sound",
+          options: [
+            { value: "Quiet", label: "No music, quiet", code: "quiet" },
+            { value: "Music", label: "Soft background music", code: "soft" },
+            { value: "WhiteNoise", label: "White noise / ambient", code: "white" }
+          ]
+        },
+        {
+          name: "Alterations",
+          label: "Alterations",
+          type: "checkboxes",
+          owner: "shared",
+          otherField: "Alterations_Other",
+          options: [
+            { value: "Drinks", label: "Drinks" },
+            { value: "Sober", label: "Sober (no weed)" },
+            { value: "Other", label: "Other" }
+          ]
+        },
+        { name: "Alterations_Other", label: "Other alterations", type: "text", owner: "shared", parent: "Alterations" },
+        {
+          name: "Kids",
+          label: "Kids",
+          type: "checkboxes",
+          owner: "shared",
+          otherField: "Kids_Other",
+          options: [
+            { value: "Asleep", label: "Asleep" },
+            { value: "Movie", label: "Watching a movie" },
+            { value: "Other", label: "Other" }
+          ]
+        },
+        { name: "Kids_Other", label: "Other kids arrangement", type: "text", owner: "shared", parent: "Kids" }
+      ]
+    },
+    {
+      id: "activities",
+      title: "3) Levels of Physical Contact",
+      description: "Check the box next to activities you feel like doing. Cross out checked suggestions you are uncomfortable with, if any.",
+      fields: [
+        { name: "Affection_NetflixAndChill", label: "Netflix and Chill™", type: "checkbox", owner: "shared", group: "Affection" },
+        {
+          name: "Affection_NetflixAndChill_Show_Value",
+          label: "Show",
+          type: "text",
+          owner: "shared",
+          group: "Affection",
+          parent: "Affection_NetflixAndChill",
+          placeholder: "Show: (Optional)"
+        },
+        { name: "Affection_HoldHands", label: "Hold hands for a little bit", type: "checkbox", owner: "shared", group: "Affection" },
+        { name: "Affection_Hug", label: "Squeeze hug", type: "checkbox", owner: "shared", group: "Affection" },
+        { name: "Affection_BrushHair", label: "Brush hair", type: "checkbox", owner: "shared", group: "Affection" },
+        { name: "LightIntimacy_BackMassage", label: "Back massage", type: "checkbox", owner: "shared", group: "Light Intimacy" },
+        { name: "LightIntimacy_Cuddle", label: "Cuddle on the couch", type: "checkbox", owner: "shared", group: "Light Intimacy" },
+        { name: "LightIntimacy_Kisses", label: "Light kisses", type: "checkbox", owner: "shared", group: "Light Intimacy" },
+        { name: "ModerateIntimacy_DeepKissing", label: "Deep kissing", type: "checkbox", owner: "shared", group: "Moderate Intimacy" },
+        { name: "ModerateIntimacy_Touching", label: "Above-clothes touching", type: "checkbox", owner: "shared", group: "Moderate Intimacy" }
+      ]
+    },
+    {
+      id: "initials",
+      title: "Initials",
+      description: "By initialing below, we agree that this reflects our understanding and comfort levels for the upcoming intimate encounter. " +
+        "We acknowledge that consent can be withdrawn at any time, and that this form is a starting point for discussion, not a binding contract. " +
+        "We acknowledge that only the items checked will be attempted. The purpose of this form is to ensure mutual respect, safety, and pleasure, " +
+        "and is actually serious and not a joke.",
+      fields: [
+        { name: "Initials", label: "Initials", type: "text", owner: "participant", column: "initials", placeholder: "Initials" }
+      ]
+    }
+  ]
+};
+
+export function getTemplateFields(template: FormTemplate = TPS_TEMPLATE): TemplateField[] {
+  return template.sections.flatMap(section => section.fields);
+}
+
+export function getTemplateField(name: string, template: FormTemplate = TPS_TEMPLATE): TemplateField | undefined {
+  return getTemplateFields(template).find(field => field.name === name);
+}
+
+// Report column a field is mirrored to, for the given participant
+export function getFieldColumn(field: TemplateField, role?: ParticipantRole): keyof TpsReport | undefined {
+  if (!field.column) return undefined;
+  if (field.owner === "participant") {
+    return role ? `${role}_${field.column}` as keyof TpsReport : undefined;
+  }
+  return field.column as keyof TpsReport;
+}
+
+// Value a column stores for an option, which is the short code when there is one
+export function getOptionColumnValue(option: TemplateOption): string {
+  return option.code ?? option.value;
+}
+
+function findOption(field: TemplateField, value: any): TemplateOption | undefined {
+  return field.options?.find(option => option.value === value || option.code === value);
+}
+
+// Label for a stored value, accepting either the export value or the column code
+export function getOptionLabel(field: TemplateField, value: any): string {
+  return findOption(field, value)?.label ?? (value ? String(value) : "");
+}
+
+export function isChecked(value: any): boolean {
+  return value === true || value === CHECKED_VALUE;
+}
+
+export function isOptionSelected(value: any, option: TemplateOption): boolean {
+  const values = Array.isArray(value) ? value : [value];
+  return values.includes(option.value);
+}
+
+// Reads a field out of form_data, from the participant's part when it's theirs
+export function getFieldValue(formData: TpsFormData | null | undefined, field: TemplateField, role?: ParticipantRole): any {
+  if (field.owner === "participant") {
+    return role ? formData?.participants?.[role]?.fields?.[field.name] : undefined;
+  }
+  return formData?.fields?.[field.name];
+}
+
+// Template field values for the data kept in report columns, keyed by the
+// AcroForm field name so they can be merged with toPdfFieldValues
+export function getColumnPdfValues(
+  report: Partial<TpsReport>,
+  names: ParticipantNames,
+  template: FormTemplate = TPS_TEMPLATE
+): Record<string, any> {
+  const values: Record<string, any> = {};
+
+  getTemplateFields(template).forEach(field => {
+    const roles = field.owner === "participant" ? PARTICIPANT_ROLES : [undefined];
+    roles.forEach(role => {
+      const column = getFieldColumn(field, role);
+      const value = column ? report[column] : undefined;
+      if (value === undefined || value === null || value === "") return;
+
+      const pdfName = role ? `${names[role]}_${field.name}` : field.name;
+      values[pdfName] = findOption(field, value)?.value ?? value;
+    });
+  });
+
+  return values;
+}
+
+// Report columns to save for a set of template field values. Empty values
+// are left out so they never overwrite what's already stored.
+export function getColumnValuesFromPdf(
+  values: Record<string, any>,
+  names: ParticipantNames,
+  template: FormTemplate = TPS_TEMPLATE
+): Partial<TpsReport> {
+  const columns: Record<string, any> = {};
+
+  getTemplateFields(template).forEach(field => {
+    const roles = field.owner === "participant" ? PARTICIPANT_ROLES : [undefined];
+    roles.forEach(role => {
+      const column = getFieldColumn(field, role);
+      const pdfName = role ? `${names[role]}_${field.name}` : field.name;
+      let value = values[pdfName];
+      if (!column || value === undefined || value === null || value === "" || value === false) return;
+
+      // Option groups keep a single selection in their column
+      if (Array.isArray(value)) value = value[0];
+      const option = findOption(field, value);
+      columns[column] = option ? getOptionColumnValue(option) : value;
+    });
+  });
+
+  return columns as Partial<TpsReport>;
+}
+
+// Labels of everything checked in a section, with any detail filled in
+// underneath (such as which show to watch), for read-only summaries
+export function getSelectedLabels(
+  formData: TpsFormData | null | undefined,
+  sectionId: string,
+  template: FormTemplate = TPS_TEMPLATE
+): { group?: string; label: string }[] {
+  const section = template.sections.find(s => s.id === sectionId);
+  if (!section) return [];
+
+  const selected: { group?: string; label: string }[] = [];
+  section.fields.forEach(field => {
+    if (field.owner !== "shared" || field.parent) return;
+    const value = getFieldValue(formData, field);
+
+    if (field.type === "checkbox") {
+      if (!isChecked(value)) return;
+      const details = section.fields
+        .filter(child => child.parent === field.name)
+        .map(child => getFieldValue(formData, child))
+        .filter(Boolean);
+      const suffix = details.length > 0 ? ` (${details.join(", ")})` : "";
+      selected.push({ group: field.group, label: `${field.label}${suffix}` });
+    } else if (field.options) {
+      field.options.filter(option => isOptionSelected(value, option)).forEach(option => {
+        const other = option.value === "Other" && field.otherField ? formData?.fields?.[field.otherField] : "";
+        selected.push({ group: field.group ?? field.label, label: other ? `${option.label}: ${other}` : option.label });
+      });
+    }
+  });
+
+  return selected;
+}
@@ -0,0 +1,169 @@
+import { TpsStatus, TpsReport } from "./schema";
+import { ParticipantRole, ReportAction } from "./workflow";
+
+// How much of form_data a participant may change: "shared" covers everything
+// except the partner's participant data, "own" only the participant's data
+export type FormDataAccess = "shared" | "own";
+
+interface WriteMask {
+  columns: (keyof TpsReport)[];
+  formData?: FormDataAccess;
+}
+
+// What each participant may write while a report sits in a given status.
+// Anything missing here is read-only for that participant.
+export const REPORT_WRITE_MASKS: Record<ParticipantRole, Partial<Record<TpsStatus, WriteMask>>> = {
+  creator: {
+    [TpsStatus.DRAFT]: {
+      columns: ["status", "date", "time_start", "time_end", "location", "location_other", "sound", "creator_notes"],
+      formData: "shared"
+    },
+    [TpsStatus.PENDING_APPROVAL]: {
+      columns: ["status", "creator_initials", "creator_notes"],
+      formData: "own"
+    }
+  },
+  receiver: {
+    [TpsStatus.PENDING_REVIEW]: {
+      columns: ["status", "receiver_initials", "receiver_notes"],
+      formData: "shared"
+    }
+  }
+};
+
+// What an action may change on top of its status change. A counter-proposal
+// strikes or edits the shared items the receiver agreed to, so they can
+// review the new version.
+export const ACTION_WRITE_MASKS: Record<ReportAction, WriteMask> = {
+  counter: {
+    columns: ["date", "time_start", "time_end", "location", "location_other", "sound", "creator_notes"],
+    formData: "shared"
+  }
+};
+
+function getWriteMask(status: string, role: ParticipantRole, action?: ReportAction): WriteMask | undefined {
+  return action ? ACTION_WRITE_MASKS[action] : REPORT_WRITE_MASKS[role][status as TpsStatus];
+}
+
+export function canWriteColumn(column: keyof TpsReport, status: string, role: ParticipantRole, action?: ReportAction): boolean {
+  return getWriteMask(status, role, action)?.columns.includes(column) ?? false;
+}
+
+// Participant data lives under participants.<role>, everything else is shared
+export function getFormPathOwner(path: string[]): ParticipantRole | null {
+  if (path[0] === "participants" && (path[1] === "creator" || path[1] === "receiver")) {
+    return path[1];
+  }
+  return null;
+}
+
+export function canWriteFormPath(path: string[], status: string, role: ParticipantRole, action?: ReportAction): boolean {
+  const access = getWriteMask(status, role, action)?.formData;
+  if (!access) return false;
+
+  const owner = getFormPathOwner(path);
+  return owner === role || (access === "shared" && owner === null);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Every path under a value, down to the values that aren't objects
+function getLeafPaths(value: any, path: string[]): string[][] {
+  if (!isPlainObject(value) || Object.keys(value).length === 0) return [path];
+  return Object.keys(value).flatMap(key => getLeafPaths(value[key], [...path, key]));
+}
+
+// Walks both versions of form_data and keeps the incoming value only where
+// the path is writable, falling back to the stored value everywhere else.
+// A key left out keeps its stored value, and a subtree is only replaced as a
+// whole when every path in it is writable, so neither can drop the
+// partner's answers.
+function mergeFormData(
+  current: any,
+  incoming: any,
+  path: string[],
+  canWrite: (path: string[]) => boolean,
+  rejected: string[]
+): any {
+  if (incoming === undefined || isEqual(current, incoming)) return current;
+
+  if (isPlainObject(incoming) && (isPlainObject(current) || current == null || canWrite(path))) {
+    const stored: Record<string, any> = isPlainObject(current) ? current : {};
+    const merged: Record<string, any> = {};
+    const keys = Array.from(new Set([...Object.keys(stored), ...Object.keys(incoming)]));
+    keys.forEach(key => {
+      const value = mergeFormData(stored[key], incoming[key], [...path, key], canWrite, rejected);
+      if (value !== undefined) merged[key] = value;
+    });
+    return !isPlainObject(current) && Object.keys(merged).length === 0 ? current : merged;
+  }
+
+  if (isPlainObject(current)) {
+    if (getLeafPaths(current, path).every(canWrite)) return incoming;
+
+    // Clears what may be cleared and keeps the rest
+    const merged: Record<string, any> = {};
+    Object.keys(current).forEach(key => {
+      merged[key] = mergeFormData(current[key], null, [...path, key], canWrite, rejected);
+    });
+    return merged;
+  }
+
+  if (canWrite(path)) return incoming;
+
+  rejected.push(["form_data", ...path].join("."));
+  return current;
+}
+
+// Strips everything from an update that the participant isn't allowed to
+// write in the report's current status, or with the given action. Unchanged
+// values pass through quietly so clients can send the whole report back.
+export function applyWriteMask(
+  report: TpsReport,
+  data: Record<string, any>,
+  role: ParticipantRole,
+  action?: ReportAction
+): { data: Partial<TpsReport>; rejected: string[] } {
+  const mask = getWriteMask(report.status, role, action);
+  const allowed: Record<string, any> = {};
+  const rejected: string[] = [];
+
+  Object.keys(data).forEach(key => {
+    // Extra keys such as creator_name aren't columns at all
+    if (!(key in report)) return;
+
+    const column = key as keyof TpsReport;
+    if (isEqual(data[key], report[column])) return;
+
+    if (column === "form_data") {
+      if (!mask?.formData) {
+        rejected.push(key);
+        return;
+      }
+
+      const formData = mergeFormData(
+        report.form_data,
+        data.form_data,
+        [],
+        path => canWriteFormPath(path, report.status, role, action),
+        rejected
+      );
+      if (!isEqual(formData, report.form_data)) allowed.form_data = formData;
+      return;
+    }
+
+    if (mask?.columns.includes(column)) {
+      allowed[key] = data[key];
+    } else {
+      rejected.push(key);
+    }
+  });
+
+  return { data: allowed as Partial<TpsReport>, rejected };
+}
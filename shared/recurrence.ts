@@ -0,0 +1,248 @@
+import { WEEKDAY_LABELS, parseDate } from "./scheduling";
+
+// The part of iCalendar's RRULE (RFC 5545) that recurring reports need:
+// FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (with an ordinal such as
+// 1FR or -1SU for monthly rules), BYMONTHDAY, COUNT and UNTIL. Weeks start
+// on Monday. For example "FREQ=WEEKLY;BYDAY=FR" is every Friday.
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: { weekday: number; ordinal?: number }[]; // 0 = Sunday
+  byMonthDay: number[]; // Negative days count from the end of the month
+  count?: number;
+  until?: string; // YYYY-MM-DD
+}
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINAL_NAMES: Record<string, string> = { "1": "first", "2": "second", "3": "third", "4": "fourth", "-1": "last" };
+
+// How far ahead to look for the next occurrence of a sparse rule
+const MAX_SEARCH_DAYS = 5 * 366;
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
+
+function toDateString(day: number): string {
+  return new Date(day * 86400000).toISOString().split("T")[0];
+}
+
+// The epoch was a Thursday
+function getWeekday(day: number): number {
+  return (day + 4) % 7;
+}
+
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = value.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const fields: Record<string, string> = {};
+
+  parts.forEach(part => {
+    const [key, fieldValue] = part.split("=");
+    if (!key || fieldValue === undefined) {
+      throw new RecurrenceRuleError(`"${part}" is not a KEY=VALUE pair`);
+    }
+    fields[key.toUpperCase()] = fieldValue.toUpperCase();
+  });
+
+  const freq = fields.FREQ as RecurrenceFrequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY"].includes(freq)) {
+    throw new RecurrenceRuleError("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, byDay: [], byMonthDay: [] };
+
+  Object.entries(fields).forEach(([key, fieldValue]) => {
+    switch (key) {
+      case "FREQ":
+      case "WKST":
+        break;
+      case "INTERVAL":
+        rule.interval = parseInt(fieldValue);
+        if (!/^\d+$/.test(fieldValue) || rule.interval < 1) {
+          throw new RecurrenceRuleError("INTERVAL must be a positive number");
+        }
+        break;
+      case "BYDAY":
+        rule.byDay = fieldValue.split(",").map(day => {
+          const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+          if (!match) throw new RecurrenceRuleError(`"${day}" is not a day such as MO or 1FR`);
+          if (match[1] && freq !== "MONTHLY") {
+            throw new RecurrenceRuleError("Numbered days such as 1FR only work with FREQ=MONTHLY");
+          }
+          const ordinal = match[1] ? parseInt(match[1]) : undefined;
+          if (ordinal === 0 || (ordinal !== undefined && Math.abs(ordinal) > 5)) {
+            throw new RecurrenceRuleError(`"${day}" is not a day of a month`);
+          }
+          return { weekday: RRULE_DAYS.indexOf(match[2]), ordinal };
+        });
+        break;
+      case "BYMONTHDAY":
+        if (freq !== "MONTHLY") throw new RecurrenceRuleError("BYMONTHDAY only works with FREQ=MONTHLY");
+        rule.byMonthDay = fieldValue.split(",").map(day => {
+          const monthDay = parseInt(day);
+          if (!/^-?\d+$/.test(day) || monthDay === 0 || Math.abs(monthDay) > 31) {
+            throw new RecurrenceRuleError(`"${day}" is not a day of a month`);
+          }
+          return monthDay;
+        });
+        break;
+      case "COUNT":
+        rule.count = parseInt(fieldValue);
+        if (!/^\d+$/.test(fieldValue) || rule.count < 1) {
+          throw new RecurrenceRuleError("COUNT must be a positive number");
+        }
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})/.exec(fieldValue);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+        if (parseDate(until) === null) throw new RecurrenceRuleError("UNTIL must be a date such as 20261231");
+        rule.until = until;
+        break;
+      }
+      default:
+        throw new RecurrenceRuleError(`${key} isn't supported`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RecurrenceRuleError("Use either COUNT or UNTIL, not both");
+  }
+
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ""}${RRULE_DAYS[day.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+// Whether the rule falls on a day, ignoring COUNT and UNTIL. Days without
+// BYDAY or BYMONTHDAY repeat the start date's weekday or day of the month.
+function matchesDay(rule: RecurrenceRule, start: number, day: number): boolean {
+  const date = new Date(day * 86400000);
+  const startDate = new Date(start * 86400000);
+  const weekday = getWeekday(day);
+
+  switch (rule.freq) {
+    case "DAILY":
+      return (day - start) % rule.interval === 0 &&
+        (rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.weekday === weekday));
+
+    case "WEEKLY": {
+      const mondayOf = (value: number) => value - (getWeekday(value) + 6) % 7;
+      const week = (mondayOf(day) - mondayOf(start)) / 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(byDay => byDay.weekday) : [getWeekday(start)];
+      return week % rule.interval === 0 && weekdays.includes(weekday);
+    }
+
+    case "MONTHLY": {
+      const month = (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 +
+        date.getUTCMonth() - startDate.getUTCMonth();
+      if (month % rule.interval !== 0) return false;
+
+      const monthDay = date.getUTCDate();
+      const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+      if (rule.byMonthDay.length > 0) {
+        return rule.byMonthDay.some(byMonthDay =>
+          byMonthDay > 0 ? byMonthDay === monthDay : daysInMonth + byMonthDay + 1 === monthDay
+        );
+      }
+      if (rule.byDay.length > 0) {
+        const nth = Math.ceil(monthDay / 7);
+        const nthFromEnd = -Math.ceil((daysInMonth - monthDay + 1) / 7);
+        return rule.byDay.some(byDay =>
+          byDay.weekday === weekday &&
+          (byDay.ordinal === undefined || byDay.ordinal === nth || byDay.ordinal === nthFromEnd)
+        );
+      }
+      return monthDay === startDate.getUTCDate();
+    }
+  }
+}
+
+// Dates the rule falls on from startDate, limited to from..to (both
+// included). COUNT counts from the start date, so earlier occurrences are
+// walked over too.
+export function getOccurrences(rule: RecurrenceRule, startDate: string, from: string, to: string): string[] {
+  const start = parseDate(startDate);
+  const first = parseDate(from);
+  let last = parseDate(to);
+  if (start === null || first === null || last === null) return [];
+
+  const until = parseDate(rule.until);
+  if (until !== null) last = Math.min(last, until);
+
+  const occurrences: string[] = [];
+  let count = 0;
+  for (let day = rule.count !== undefined ? start : Math.max(start, first); day <= last; day++) {
+    if (!matchesDay(rule, start, day)) continue;
+
+    count++;
+    if (rule.count !== undefined && count > rule.count) break;
+    if (day >= first) occurrences.push(toDateString(day));
+  }
+
+  return occurrences;
+}
+
+// The first date after the given one the rule falls on, or null once it's over
+export function getNextOccurrence(rule: RecurrenceRule, startDate: string, after: string): string | null {
+  const day = parseDate(after);
+  if (day === null) return null;
+
+  const [next] = getOccurrences(rule, startDate, toDateString(day + 1), toDateString(day + MAX_SEARCH_DAYS));
+  return next ?? null;
+}
+
+// The date in the local time zone, the way report dates and times are read
+export function getLocalDate(date: Date = new Date()): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map(part => String(part).padStart(2, "0"))
+    .join("-");
+}
+
+export function addDays(date: string, days: number): string {
+  const day = parseDate(date);
+  return day === null ? date : toDateString(day + days);
+}
+
+// Reads the rule back in words, e.g. "Every 2 weeks on Fri"
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) {
+    text = rule.interval === 1 && rule.byDay.length === 1
+      ? `Every ${WEEKDAY_NAMES[rule.byDay[0].weekday]}`
+      : `${text} on ${rule.byDay.map(day => WEEKDAY_LABELS[day.weekday]).join(", ")}`;
+  } else if (rule.byDay.length > 0) {
+    text += ` on ${rule.byDay.map(day =>
+      day.ordinal !== undefined
+        ? `the ${ORDINAL_NAMES[String(day.ordinal)] || `#${day.ordinal}`} ${WEEKDAY_NAMES[day.weekday]}`
+        : WEEKDAY_LABELS[day.weekday]
+    ).join(", ")}`;
+  } else if (rule.byMonthDay.length > 0) {
+    text += ` on ${rule.byMonthDay.map(day =>
+      day === -1 ? "the last day" : day < 0 ? `day ${-day} from the end` : `day ${day}`
+    ).join(", ")}`;
+  }
+
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
+}
@@ -0,0 +1,104 @@
+import { TpsFormData, TpsReport } from "./schema";
+import { TPS_TEMPLATE } from "./form-template";
+import { getSearchDetails, getSearchTerms } from "./search";
+
+export type ReportSort = "date_desc" | "date_asc" | "updated_desc" | "created_desc";
+
+export const REPORT_SORTS: Record<ReportSort, string> = {
+  date_desc: "Latest date first",
+  date_asc: "Earliest date first",
+  updated_desc: "Recently updated",
+  created_desc: "Recently created"
+};
+
+export const DEFAULT_REPORT_SORT: ReportSort = "date_desc";
+export const REPORT_PAGE_SIZE = 20;
+export const MAX_REPORT_PAGE_SIZE = 100;
+
+// Checkboxes a report list can be filtered by, keyed by field name
+export const REPORT_ACTIVITY_FILTERS = (TPS_TEMPLATE.sections.find(section => section.id === "activities")?.fields || [])
+  .filter(field => field.type === "checkbox")
+  .map(field => ({ name: field.name, label: field.label }));
+
+// Where the last page ended: the sort value of its last report, with the id
+// to break ties between reports that share it
+export interface ReportCursor {
+  value: string;
+  id: number;
+}
+
+// Which of a user's reports a list shows, and in what order
+export interface TpsReportQuery {
+  userId: number;
+  statuses?: string[];
+  // Report dates, inclusive
+  from?: string;
+  to?: string;
+  // Location column codes
+  locations?: string[];
+  // Activity checkbox that has to be checked
+  activity?: string;
+  // Full-text search over the notes and other free text
+  search?: string;
+  sort: ReportSort;
+  after?: ReportCursor;
+  limit?: number;
+}
+
+export interface ReportListPage<T> {
+  items: T[];
+  // Pass back as cursor for the next page; null on the last one
+  next_cursor: string | null;
+}
+
+// The value a report is ordered by. Dates sort with their start time, and
+// timestamps are cut to milliseconds like the database compares them.
+export function getReportSortValue(report: Pick<TpsReport, "date" | "time_start" | "updated_at" | "created_at">, sort: ReportSort): string {
+  switch (sort) {
+    case "date_desc":
+    case "date_asc":
+      return `${report.date} ${report.time_start}`;
+    case "updated_desc":
+      return new Date(report.updated_at).toISOString();
+    case "created_desc":
+      return new Date(report.created_at).toISOString();
+  }
+}
+
+export function encodeReportCursor(cursor: ReportCursor): string {
+  return `${cursor.id}_${cursor.value}`;
+}
+
+export function decodeReportCursor(value: string): ReportCursor | null {
+  const match = value.match(/^(\d+)_(.+)$/);
+  return match ? { id: parseInt(match[1]), value: match[2] } : null;
+}
+
+// The query applied to reports in memory, for storage that can't leave it
+// to the database. Search needs every word somewhere, without stemming.
+export function queryReports(reports: TpsReport[], query: TpsReportQuery): TpsReport[] {
+  const terms = query.search ? getSearchTerms(query.search) : [];
+  const direction = query.sort === "date_asc" ? 1 : -1;
+  // Orders by sort value, then id, in the direction of the sort
+  const compare = (value: string, id: number, otherValue: string, otherId: number) =>
+    direction * (value < otherValue ? -1 : value > otherValue ? 1 : id - otherId);
+
+  const matches = reports.filter(report => {
+    const fields = (report.form_data as TpsFormData)?.fields || {};
+    return (report.creator_id === query.userId || report.receiver_id === query.userId) &&
+      (!query.statuses || query.statuses.includes(report.status)) &&
+      (!query.from || report.date >= query.from) &&
+      (!query.to || report.date <= query.to) &&
+      (!query.locations || query.locations.includes(report.location)) &&
+      (!query.activity || fields[query.activity] === "Yes" || fields[query.activity] === true) &&
+      (terms.length === 0 || terms.every(term =>
+        [report.creator_notes, report.receiver_notes, getSearchDetails(report)]
+          .some(text => text?.toLowerCase().includes(term)))) &&
+      (!query.after ||
+        compare(getReportSortValue(report, query.sort), report.id, query.after.value, query.after.id) > 0);
+  }).sort((a, b) =>
+    compare(getReportSortValue(a, query.sort), a.id, getReportSortValue(b, query.sort), b.id)
+  );
+
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
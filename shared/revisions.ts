@@ -0,0 +1,256 @@
+import { TpsReport, TpsFormData, TpsRevision } from "./schema";
+import { ParticipantRole } from "./workflow";
+import { PARTICIPANT_ROLES } from "./form-data";
+import {
+  FormTemplate,
+  TemplateField,
+  TPS_TEMPLATE,
+  getTemplateFields,
+  getFieldColumn,
+  getOptionLabel,
+  isChecked
+} from "./form-template";
+
+// Report columns a revision keeps next to form_data
+export const REVISION_COLUMNS: (keyof TpsReport)[] = [
+  "date",
+  "time_start",
+  "time_end",
+  "location",
+  "location_other",
+  "sound",
+  "creator_notes",
+  "receiver_notes",
+  "creator_initials",
+  "receiver_initials"
+];
+
+export interface RevisionSnapshot {
+  status: string;
+  columns: Record<string, any>;
+  form_data: TpsFormData;
+}
+
+export type FieldChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  // Where the value lives, e.g. "location" or "participants.receiver.fields.Notes"
+  path: string;
+  label: string;
+  // Participant the field belongs to, unset for shared fields
+  role?: ParticipantRole;
+  kind: FieldChangeKind;
+  before: string;
+  after: string;
+}
+
+// One round of edits: what a participant changed, going from the version
+// captured in a revision to the version that replaced it
+export interface RevisionRound {
+  revision: number;
+  user_id: number | null;
+  created_at: Date;
+  status_from: string;
+  status_to: string;
+  changes: FieldChange[];
+}
+
+export function getRevisionSnapshot(report: TpsReport): RevisionSnapshot {
+  const columns: Record<string, any> = {};
+  REVISION_COLUMNS.forEach(column => {
+    columns[column] = report[column] ?? null;
+  });
+  return { status: report.status, columns, form_data: report.form_data as TpsFormData };
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Whether an update touches anything a revision captures, so writes like
+// storing the generated PDF path don't add empty revisions
+export function changesRevisionContent(report: TpsReport, data: Partial<TpsReport>): boolean {
+  return (["status", "form_data", ...REVISION_COLUMNS] as (keyof TpsReport)[]).some(
+    key => key in data && !isEqual(data[key], report[key])
+  );
+}
+
+// An edit was made against an older version than the stored one, i.e. the
+// partner saved in between. The report's version moves in step with its
+// revisions, so a PDF regenerating doesn't count.
+export class StaleReportError extends Error {
+  code = "stale_report" as const;
+  expectedVersion: number;
+  currentVersion: number;
+
+  constructor(expectedVersion: number, currentVersion: number) {
+    super(`Report was changed since version ${expectedVersion}, it is at version ${currentVersion} now`);
+    this.name = "StaleReportError";
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function mergeValue(base: any, edited: any, current: any): any {
+  if (isEqual(edited, base)) return current;
+  if (isEqual(current, base)) return edited;
+
+  // Both sides changed: nested objects such as form data merge key by key,
+  // anything else keeps the edit
+  if (isPlainObject(edited) && isPlainObject(current)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Record<string, any> = {};
+    new Set([...Object.keys(current), ...Object.keys(edited)]).forEach(key => {
+      merged[key] = mergeValue(baseObject[key], edited[key], current[key]);
+    });
+    return merged;
+  }
+  return edited;
+}
+
+// Rebases an edit made against an older version onto the stored report:
+// every field the edit changed wins, every other field keeps whatever the
+// partner saved in between
+export function mergeReportEdits(
+  base: TpsReport,
+  edits: Record<string, any>,
+  current: TpsReport
+): Record<string, any> {
+  const merged: Record<string, any> = {};
+  Object.keys(edits).forEach(key => {
+    merged[key] = mergeValue(
+      base[key as keyof TpsReport],
+      edits[key],
+      current[key as keyof TpsReport]
+    );
+  });
+  return merged;
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === "" || value === false ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function formatValue(field: TemplateField | undefined, value: any): string {
+  if (isEmptyValue(value)) return "";
+  if (Array.isArray(value)) return value.map(v => formatValue(field, v)).join(", ");
+  if (field?.type === "checkbox") return isChecked(value) ? "Checked" : "";
+  if (field?.options) return getOptionLabel(field, value);
+  return String(value);
+}
+
+function humanize(name: string): string {
+  return name.replace(/_/g, " ").replace(/^\w/, c => c.toUpperCase());
+}
+
+function createChange(
+  path: string,
+  field: TemplateField | undefined,
+  fallbackLabel: string,
+  role: ParticipantRole | undefined,
+  beforeValue: any,
+  afterValue: any
+): FieldChange | null {
+  const before = formatValue(field, beforeValue);
+  const after = formatValue(field, afterValue);
+  if (before === after) return null;
+
+  return {
+    path,
+    label: field?.label ?? humanize(fallbackLabel),
+    role,
+    kind: !before ? "added" : !after ? "removed" : "changed",
+    before,
+    after
+  };
+}
+
+// Leaf values of form_data keyed by path, skipping display-only metadata
+function flattenFormData(formData: TpsFormData | null | undefined): Record<string, { role?: ParticipantRole; name: string; value: any }> {
+  const values: Record<string, { role?: ParticipantRole; name: string; value: any }> = {};
+
+  Object.entries(formData?.fields || {}).forEach(([name, value]) => {
+    values[`fields.${name}`] = { name, value };
+  });
+  PARTICIPANT_ROLES.forEach(role => {
+    Object.entries(formData?.participants?.[role]?.fields || {}).forEach(([name, value]) => {
+      values[`participants.${role}.fields.${name}`] = { role, name, value };
+    });
+  });
+
+  return values;
+}
+
+// Field-by-field differences between two versions of a report, labelled
+// from the form template
+export function diffSnapshots(
+  before: RevisionSnapshot,
+  after: RevisionSnapshot,
+  template: FormTemplate = TPS_TEMPLATE
+): FieldChange[] {
+  const fields = getTemplateFields(template);
+  const changes: FieldChange[] = [];
+  // Fields mirrored to a column show up once, under the column
+  const seen = new Set<string>();
+
+  REVISION_COLUMNS.forEach(column => {
+    let owner: { field: TemplateField; role?: ParticipantRole } | undefined;
+    fields.forEach(field => {
+      const roles = field.owner === "participant" ? PARTICIPANT_ROLES : [undefined];
+      roles.forEach(role => {
+        if (getFieldColumn(field, role) === column) owner = { field, role };
+      });
+    });
+
+    const change = createChange(column, owner?.field, column, owner?.role, before.columns[column], after.columns[column]);
+    if (owner) seen.add(`${owner.role ?? ""}:${owner.field.name}`);
+    if (change) changes.push(change);
+  });
+
+  const beforeValues = flattenFormData(before.form_data);
+  const afterValues = flattenFormData(after.form_data);
+  const paths = Array.from(new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]));
+
+  paths.forEach(path => {
+    const { role, name } = afterValues[path] || beforeValues[path];
+    if (seen.has(`${role ?? ""}:${name}`)) return;
+
+    const field = fields.find(f => f.name === name && (f.owner === "participant") === !!role);
+    const change = createChange(path, field, name, role, beforeValues[path]?.value, afterValues[path]?.value);
+    if (change) changes.push(change);
+  });
+
+  return changes;
+}
+
+// Pairs every revision with the version that replaced it: the next
+// revision, or the report as it is now for the latest one
+export function buildRevisionRounds(revisions: TpsRevision[], report: TpsReport): RevisionRound[] {
+  const sorted = [...revisions].sort((a, b) => a.revision - b.revision);
+
+  return sorted.map((revision, index) => {
+    const before: RevisionSnapshot = {
+      status: revision.status,
+      columns: revision.columns as Record<string, any>,
+      form_data: revision.form_data as TpsFormData
+    };
+    const next = sorted[index + 1];
+    const after: RevisionSnapshot = next
+      ? { status: next.status, columns: next.columns as Record<string, any>, form_data: next.form_data as TpsFormData }
+      : getRevisionSnapshot(report);
+
+    return {
+      revision: revision.revision,
+      user_id: revision.user_id,
+      created_at: revision.created_at,
+      status_from: before.status,
+      status_to: after.status,
+      changes: diffSnapshots(before, after)
+    };
+  });
+}
@@ -0,0 +1,231 @@
+import { TpsStatus, TpsReport, AvailabilityWindow } from "./schema";
+
+// Reports that hold their time slot: submitted, agreed on or done
+export const SCHEDULED_STATUSES: TpsStatus[] = [
+  TpsStatus.PENDING_REVIEW,
+  TpsStatus.PENDING_APPROVAL,
+  TpsStatus.COMPLETED
+];
+
+// Report columns that place it in time
+export const SCHEDULE_COLUMNS = ["date", "time_start", "time_end"] as const;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ScheduleRange {
+  date: string; // YYYY-MM-DD
+  time_start: string; // HH:MM
+  time_end: string;
+}
+
+export interface TimeRangeError {
+  field: "date" | "time_start" | "time_end";
+  message: string;
+}
+
+export type ScheduleConflict =
+  | {
+      kind: "report";
+      report_id: number;
+      status: string;
+      date: string;
+      time_start: string;
+      time_end: string;
+      message: string;
+    }
+  | {
+      kind: "unavailable";
+      window_id: number;
+      user_id: number;
+      label: string;
+      message: string;
+    };
+
+// Minutes since midnight, or null when the value isn't a 24-hour HH:MM time
+export function parseTime(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || "");
+  if (!match) return null;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Days since the epoch for a YYYY-MM-DD date, read as a calendar date
+// without any time zone
+export function parseDate(value: string | null | undefined): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || "");
+  if (!match) return null;
+
+  const time = Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  const date = new Date(time);
+  if (date.getUTCDate() !== parseInt(match[3])) return null;
+  return Math.round(time / (MINUTES_PER_DAY * 60000));
+}
+
+export function validateTimeRange(range: Partial<ScheduleRange>): TimeRangeError[] {
+  const errors: TimeRangeError[] = [];
+  const start = parseTime(range.time_start);
+  const end = parseTime(range.time_end);
+
+  if (parseDate(range.date) === null) {
+    errors.push({ field: "date", message: "Date must be a valid YYYY-MM-DD date" });
+  }
+  if (start === null) {
+    errors.push({ field: "time_start", message: "Start time must be a valid HH:MM time" });
+  }
+  if (end === null) {
+    errors.push({ field: "time_end", message: "End time must be a valid HH:MM time" });
+  }
+  if (start !== null && end !== null && end <= start) {
+    errors.push({ field: "time_end", message: "End time must be after the start time" });
+  }
+
+  return errors;
+}
+
+// Minutes since the epoch, so ranges on different days compare directly
+function toInterval(range: ScheduleRange): [number, number] | null {
+  const day = parseDate(range.date);
+  const start = parseTime(range.time_start);
+  const end = parseTime(range.time_end);
+  if (day === null || start === null || end === null || end <= start) return null;
+  return [day * MINUTES_PER_DAY + start, day * MINUTES_PER_DAY + end];
+}
+
+function overlaps(a: [number, number], b: [number, number]): boolean {
+  return a[0] < b[1] && b[0] < a[1];
+}
+
+function appliesOn(window: AvailabilityWindow, day: number): boolean {
+  const from = parseDate(window.start_date);
+  const until = parseDate(window.end_date);
+  if (from !== null && day < from) return false;
+  if (until !== null && day > until) return false;
+
+  if (window.days_of_week && window.days_of_week.length > 0) {
+    // The epoch was a Thursday
+    const weekday = (day + 4) % 7;
+    return window.days_of_week.includes(weekday);
+  }
+
+  // One-off windows need a start date, and without an end date last a day
+  return from !== null && (until !== null || day === from);
+}
+
+// The stretches a window blocks on the given day. Windows ending at or
+// before their start run past midnight into the next day.
+function getBlockedIntervals(window: AvailabilityWindow, day: number): [number, number][] {
+  if (!appliesOn(window, day)) return [];
+
+  const dayStart = day * MINUTES_PER_DAY;
+  const start = parseTime(window.time_start);
+  const end = parseTime(window.time_end);
+  if (start === null || end === null) {
+    return [[dayStart, dayStart + MINUTES_PER_DAY]];
+  }
+  if (end > start) {
+    return [[dayStart + start, dayStart + end]];
+  }
+  return [[dayStart + start, dayStart + MINUTES_PER_DAY + end]];
+}
+
+export function describeWindow(window: AvailabilityWindow): string {
+  const days = window.days_of_week && window.days_of_week.length > 0
+    ? window.days_of_week.length === 7
+      ? "every day"
+      : [...window.days_of_week].sort().map(day => WEEKDAY_LABELS[day]).join(", ")
+    : window.start_date === window.end_date || !window.end_date
+      ? window.start_date || ""
+      : `${window.start_date} to ${window.end_date}`;
+  const times = window.time_start && window.time_end
+    ? `${window.time_start}–${window.time_end}`
+    : "all day";
+  return `${days}, ${times}`;
+}
+
+// Other scheduled reports of the couple and either partner's unavailable
+// times that overlap the range. Ranges that don't parse have nothing to
+// compare, validateTimeRange reports them.
+export function findScheduleConflicts(
+  range: ScheduleRange & { id?: number },
+  reports: TpsReport[],
+  windows: AvailabilityWindow[],
+  userNames: Record<number, string> = {}
+): ScheduleConflict[] {
+  const interval = toInterval(range);
+  if (!interval) return [];
+
+  const conflicts: ScheduleConflict[] = [];
+
+  reports.forEach(report => {
+    if (report.id === range.id || !SCHEDULED_STATUSES.includes(report.status as TpsStatus)) return;
+
+    const other = toInterval(report);
+    if (other && overlaps(interval, other)) {
+      conflicts.push({
+        kind: "report",
+        report_id: report.id,
+        status: report.status,
+        date: report.date,
+        time_start: report.time_start,
+        time_end: report.time_end,
+        message: `Overlaps TPS report #${report.id} on ${report.date}, ${report.time_start}–${report.time_end}`
+      });
+    }
+  });
+
+  // A window from the day before can run past midnight into this one
+  const day = Math.floor(interval[0] / MINUTES_PER_DAY);
+  windows.forEach(window => {
+    const blocked = [...getBlockedIntervals(window, day - 1), ...getBlockedIntervals(window, day)];
+    if (blocked.some(other => overlaps(interval, other))) {
+      const name = userNames[window.user_id];
+      conflicts.push({
+        kind: "unavailable",
+        window_id: window.id,
+        user_id: window.user_id,
+        label: window.label,
+        message: `${name ? `${name} is unavailable` : "Unavailable"}: ${window.label} (${describeWindow(window)})`
+      });
+    }
+  });
+
+  return conflicts;
+}
+
+export function validateAvailabilityWindow(window: {
+  label?: string;
+  days_of_week?: number[] | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  time_start?: string | null;
+  time_end?: string | null;
+}): string[] {
+  const errors: string[] = [];
+  const weekly = !!window.days_of_week && window.days_of_week.length > 0;
+
+  if (!window.label?.trim()) errors.push("A label is required");
+  if (weekly && window.days_of_week!.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    errors.push("Days of the week must be 0 (Sunday) to 6 (Saturday)");
+  }
+  if (!weekly && parseDate(window.start_date) === null) {
+    errors.push("Pick the days of the week or a start date");
+  }
+  if (window.start_date && parseDate(window.start_date) === null) errors.push("Start date must be a valid YYYY-MM-DD date");
+  if (window.end_date && parseDate(window.end_date) === null) errors.push("End date must be a valid YYYY-MM-DD date");
+  if (parseDate(window.start_date) !== null && parseDate(window.end_date) !== null &&
+      parseDate(window.end_date)! < parseDate(window.start_date)!) {
+    errors.push("End date must not be before the start date");
+  }
+  if (!!window.time_start !== !!window.time_end) {
+    errors.push("Give both a start and an end time, or neither for the whole day");
+  }
+  if (window.time_start && parseTime(window.time_start) === null) errors.push("Start time must be a valid HH:MM time");
+  if (window.time_end && parseTime(window.time_end) === null) errors.push("End time must be a valid HH:MM time");
+
+  return errors;
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,7 +10,8 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   email: text("email").notNull(),
-  partner_id: integer("partner_id").references(() => users.id),
+  partner_id: integer("partner_id").references((): AnyPgColumn => users.id),
+  calendar_token: text("calendar_token").unique(), // Secret part of the user's calendar feed URL
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -20,14 +22,54 @@ export const insertUserSchema = createInsertSchema(users).pick({
   partner_id: true,
 });
 
+// PDF form templates. Reports keep the template they were created from, so
+// uploading a new version never changes how older reports render.
+export const templates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  version: text("version").notNull(),
+  file_path: text("file_path").notNull(),
+  uploaded_by: integer("uploaded_by").references((): AnyPgColumn => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTemplateSchema = createInsertSchema(templates).omit({
+  id: true,
+  created_at: true,
+});
+
+// Free-text template fields kept only in form_data. Search covers them along
+// with the notes and the other location.
+export const SEARCH_DETAIL_FIELDS = ["Affection_NetflixAndChill_Show_Value", "Alterations_Other", "Kids_Other"];
+
+type SearchColumns = {
+  creator_notes: AnyPgColumn;
+  receiver_notes: AnyPgColumn;
+  location_other: AnyPgColumn;
+  form_data: AnyPgColumn;
+};
+
+// Everything but the notes, as one text. Built from || rather than
+// concat_ws, which isn't immutable and so can't be indexed.
+export function getReportSearchDetails(table: SearchColumns): SQL {
+  const fields = SEARCH_DETAIL_FIELDS.map(name => sql`coalesce(${table.form_data}->'fields'->>${sql.raw(`'${name}'`)}, '')`);
+  return sql`coalesce(${table.location_other}, '') || ' ' || ${sql.join(fields, sql` || ' ' || `)}`;
+}
+
+// The document full-text search matches against, with the notes weighted
+// above the details. The GIN index below is on this same expression.
+export function getReportSearchDocument(table: SearchColumns): SQL {
+  return sql`setweight(to_tsvector('english', coalesce(${table.creator_notes}, '') || ' ' || coalesce(${table.receiver_notes}, '')), 'A') || setweight(to_tsvector('english', ${getReportSearchDetails(table)}), 'B')`;
+}
+
 // TPS Report schema
 export const tpsReports = pgTable("tps_reports", {
   id: serial("id").primaryKey(),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
-  creator_id: integer("creator_id").notNull().references(() => users.id),
-  receiver_id: integer("receiver_id").notNull().references(() => users.id),
-  status: text("status").notNull(), // draft, pending, approved, denied, aborted, completed
+  creator_id: integer("creator_id").notNull().references((): AnyPgColumn => users.id),
+  receiver_id: integer("receiver_id").notNull().references((): AnyPgColumn => users.id),
+  status: text("status").notNull(), // TpsStatus: draft, pending_review, pending_approval, completed, aborted, expired
   date: text("date").notNull(),
   time_start: text("time_start").notNull(),
   time_end: text("time_end").notNull(),
@@ -39,22 +81,49 @@ export const tpsReports = pgTable("tps_reports", {
   receiver_notes: text("receiver_notes"),
   creator_initials: text("creator_initials"),
   receiver_initials: text("receiver_initials"),
-  replicated_from_id: integer("replicated_from_id").references(() => tpsReports.id),
+  replicated_from_id: integer("replicated_from_id").references((): AnyPgColumn => tpsReports.id),
   pdf_path: text("pdf_path"), // Stores path to saved PDF file
-});
+  template_id: integer("template_id").references((): AnyPgColumn => templates.id),
+  template_version: text("template_version"),
+  counter_round: integer("counter_round").notNull().default(0), // Counter-proposals the creator has sent back so far
+  version: integer("version").notNull().default(1), // Bumped on every content change, clients send it back to detect stale edits
+}, (table) => [
+  index("tps_reports_search_idx").using("gin", getReportSearchDocument(table)),
+]);
 
 export const insertTpsReportSchema = createInsertSchema(tpsReports).omit({
   id: true,
   created_at: true,
   updated_at: true,
+  version: true,
+});
+
+// Snapshot of a report taken right before each change, so every round of
+// edits can be diffed against the version that came after it
+export const tpsRevisions = pgTable("tps_revisions", {
+  id: serial("id").primaryKey(),
+  tps_id: integer("tps_id").notNull().references((): AnyPgColumn => tpsReports.id),
+  revision: integer("revision").notNull(), // 1 for the first snapshot of a report
+  user_id: integer("user_id").references((): AnyPgColumn => users.id), // Who made the change that replaced this version
+  status: text("status").notNull(),
+  columns: jsonb("columns").notNull(), // Report columns as they were
+  form_data: jsonb("form_data").notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("tps_revisions_report_revision_idx").on(table.tps_id, table.revision),
+]);
+
+export const insertTpsRevisionSchema = createInsertSchema(tpsRevisions).omit({
+  id: true,
+  created_at: true,
 });
 
 // TPS report logs to track interactions
 export const tpsLogs = pgTable("tps_logs", {
   id: serial("id").primaryKey(),
-  tps_id: integer("tps_id").notNull().references(() => tpsReports.id),
-  user_id: integer("user_id").notNull().references(() => users.id),
-  action: text("action").notNull(), // created, viewed, updated, approved, denied, aborted, replicated
+  tps_id: integer("tps_id").notNull().references((): AnyPgColumn => tpsReports.id),
+  user_id: integer("user_id").notNull().references((): AnyPgColumn => users.id),
+  action: text("action").notNull(), // created, viewed, updated, countered, approved, denied, aborted, replicated, scheduled, reminded, expired
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   details: jsonb("details"), // Additional details about the action
 });
@@ -64,16 +133,108 @@ export const insertTpsLogSchema = createInsertSchema(tpsLogs).omit({
   timestamp: true,
 });
 
+// In-app notifications shown in the header bell, one per recipient
+export const userNotifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references((): AnyPgColumn => users.id),
+  tps_id: integer("tps_id").references((): AnyPgColumn => tpsReports.id),
+  event: text("event").notNull(), // Report status it moved to, or another NotificationEvent
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  read_at: timestamp("read_at"), // Unread while null
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserNotificationSchema = createInsertSchema(userNotifications).omit({
+  id: true,
+  read_at: true,
+  created_at: true,
+});
+
+// Browsers a user turned on Web Push for
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references((): AnyPgColumn => users.id),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  created_at: true,
+});
+
+// Times a user isn't available for a report, such as the kids' bedtime
+// every weeknight or a week of work travel
+export const availabilityWindows = pgTable("availability_windows", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references((): AnyPgColumn => users.id),
+  label: text("label").notNull(),
+  days_of_week: integer("days_of_week").array(), // 0 = Sunday; null for a one-off window
+  start_date: text("start_date"), // One-off windows run from start_date to end_date, weekly ones only within them when set
+  end_date: text("end_date"),
+  time_start: text("time_start"), // Both null for the whole day
+  time_end: text("time_end"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAvailabilityWindowSchema = createInsertSchema(availabilityWindows).omit({
+  id: true,
+  created_at: true,
+});
+
+// Recurring reports: ahead of each date the rule falls on, a draft is
+// copied from the source report for the creator to finish
+export const reportSchedules = pgTable("report_schedules", {
+  id: serial("id").primaryKey(),
+  creator_id: integer("creator_id").notNull().references((): AnyPgColumn => users.id),
+  source_report_id: integer("source_report_id").notNull().references((): AnyPgColumn => tpsReports.id),
+  rule: text("rule").notNull(), // RRULE-style, e.g. FREQ=WEEKLY;BYDAY=FR
+  start_date: text("start_date").notNull(), // First date the rule can fall on
+  time_start: text("time_start").notNull(),
+  time_end: text("time_end").notNull(),
+  lead_days: integer("lead_days").notNull().default(3), // How many days ahead the draft is created
+  active: boolean("active").notNull().default(true),
+  last_occurrence: text("last_occurrence"), // Latest date a draft was created for
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReportScheduleSchema = createInsertSchema(reportSchedules).omit({
+  id: true,
+  last_occurrence: true,
+  created_at: true,
+});
+
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type Template = typeof templates.$inferSelect;
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+
 export type TpsReport = typeof tpsReports.$inferSelect;
 export type InsertTpsReport = z.infer<typeof insertTpsReportSchema>;
 
+export type TpsRevision = typeof tpsRevisions.$inferSelect;
+export type InsertTpsRevision = z.infer<typeof insertTpsRevisionSchema>;
+
 export type TpsLog = typeof tpsLogs.$inferSelect;
 export type InsertTpsLog = z.infer<typeof insertTpsLogSchema>;
 
+export type UserNotification = typeof userNotifications.$inferSelect;
+export type InsertUserNotification = z.infer<typeof insertUserNotificationSchema>;
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+
+export type AvailabilityWindow = typeof availabilityWindows.$inferSelect;
+export type InsertAvailabilityWindow = z.infer<typeof insertAvailabilityWindowSchema>;
+
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+export type InsertReportSchedule = z.infer<typeof insertReportScheduleSchema>;
+
 // Form Data Types - Using a more generic approach for flexibility with different PDF forms
 export interface PdfFormField {
   name: string;
@@ -81,13 +242,22 @@ export interface PdfFormField {
   value: string | boolean | string[];
 }
 
+// Answers that belong to one participant, keyed by the template field name
+// without the participant's name prefix (e.g. "Initials" for "Mina_Initials")
+export interface ParticipantFormData {
+  fields: Record<string, any>;
+}
+
 export interface TpsFormData {
-  // Generic key-value store for form fields
+  // Generic key-value store for fields shared by both participants
   fields: Record<string, any>;
+  // Each participant's own fields, keyed by their role on the report
+  participants: {
+    creator: ParticipantFormData;
+    receiver: ParticipantFormData;
+  };
   // Separate metadata for display/processing needs that's not in the PDF
   metadata?: {
-    matt_notes?: string;
-    mina_notes?: string;
     location_display?: string;
     [key: string]: any;
   };
@@ -99,5 +269,6 @@ export enum TpsStatus {
   PENDING_REVIEW = "pending_review",
   PENDING_APPROVAL = "pending_approval",
   COMPLETED = "completed",
-  ABORTED = "aborted"
+  ABORTED = "aborted",
+  EXPIRED = "expired"
 }
@@ -0,0 +1,117 @@
+import { TpsFormData, TpsReport, SEARCH_DETAIL_FIELDS } from "./schema";
+
+export const SEARCH_RESULT_LIMIT = 20;
+
+// Marks around highlighted words in a snippet. ts_headline is asked for
+// these instead of HTML, so the client never renders markup from the notes.
+export const HIGHLIGHT_START = "⟦";
+export const HIGHLIGHT_END = "⟧";
+export const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export type SearchField = "creator_notes" | "receiver_notes" | "details";
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchSnippet {
+  field: SearchField;
+  parts: SnippetPart[];
+}
+
+// A match as storage finds it, before the route adds names
+export interface ReportSearchHit {
+  report: TpsReport;
+  rank: number;
+  snippets: SearchSnippet[];
+}
+
+export interface ReportSearchResult {
+  id: number;
+  date: string;
+  time_start: string;
+  status: string;
+  creator_id: number;
+  creator_name: string;
+  receiver_name: string;
+  snippets: SearchSnippet[];
+}
+
+// Splits a marked-up headline into plain and highlighted parts
+export function parseHeadline(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  headline.split(HIGHLIGHT_START).forEach((chunk, index) => {
+    const [marked, rest] = index === 0 ? [null, chunk] : chunk.split(HIGHLIGHT_END);
+    if (marked) parts.push({ text: marked, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  });
+  return parts;
+}
+
+// Words of a search, without websearch syntax like quotes and "or"
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase()
+    .split(/[\s"'(),.;:!?]+/)
+    .map(term => term.replace(/^-+/, ""))
+    .filter(term => term.length > 0 && term !== "or");
+}
+
+// The report's free text outside the notes, as the database indexes it
+export function getSearchDetails(report: Pick<TpsReport, "location_other" | "form_data">): string {
+  const fields = (report.form_data as TpsFormData)?.fields || {};
+  return [report.location_other, ...SEARCH_DETAIL_FIELDS.map(name => fields[name])]
+    .filter(value => typeof value === "string" && value)
+    .join(" ");
+}
+
+// A headline in the shape ts_headline gives, for storage without Postgres:
+// the text around the first match with every term marked
+export function highlightTerms(text: string, terms: string[], context = 60): string | null {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  if (!isFinite(first)) return null;
+
+  const start = Math.max(0, first - context);
+  const end = Math.min(text.length, first + context * 2);
+  let excerpt = text.slice(start, end);
+  terms.forEach(term => {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    excerpt = excerpt.replace(new RegExp(escaped, "gi"), match => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`);
+  });
+
+  return `${start > 0 ? "… " : ""}${excerpt}${end < text.length ? " …" : ""}`;
+}
+
+// Search over reports in memory, for storage that can't leave it to the
+// database. Every word has to appear somewhere, the way websearch_to_tsquery
+// joins them, though without stemming. Matches in the notes rank higher.
+export function searchReports(reports: TpsReport[], userId: number, query: string, limit: number): ReportSearchHit[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const hits: ReportSearchHit[] = [];
+  for (const report of reports) {
+    if (report.creator_id !== userId && report.receiver_id !== userId) continue;
+
+    const texts: Record<SearchField, string> = {
+      creator_notes: report.creator_notes || "",
+      receiver_notes: report.receiver_notes || "",
+      details: getSearchDetails(report)
+    };
+    const all = Object.values(texts).join(" ").toLowerCase();
+    if (!terms.every(term => all.includes(term))) continue;
+
+    const snippets: SearchSnippet[] = [];
+    let rank = 0;
+    (Object.keys(texts) as SearchField[]).forEach(field => {
+      const headline = highlightTerms(texts[field], terms);
+      if (!headline) return;
+      snippets.push({ field, parts: parseHeadline(headline) });
+      rank += field === "details" ? 1 : 2;
+    });
+    hits.push({ report, rank, snippets });
+  }
+
+  return hits.sort((a, b) => b.rank - a.rank || b.report.id - a.report.id).slice(0, limit);
+}
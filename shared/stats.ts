@@ -0,0 +1,163 @@
+import { TpsFormData, TpsLog, TpsReport, TpsStatus, User } from "./schema";
+import { TPS_TEMPLATE, getFieldValue, getOptionLabel, getTemplateField, isChecked } from "./form-template";
+import { addDays } from "./recurrence";
+
+export type InsightsPeriod = "week" | "month";
+
+export const INSIGHTS_PERIODS: InsightsPeriod[] = ["week", "month"];
+
+// How far back the per-period chart goes
+const MAX_BUCKETS: Record<InsightsPeriod, number> = { week: 26, month: 12 };
+
+export interface PeriodCount {
+  // Monday of the week, or YYYY-MM for a month
+  period: string;
+  total: number;
+  completed: number;
+  aborted: number;
+  expired: number;
+}
+
+export interface LabelCount {
+  label: string;
+  count: number;
+}
+
+export interface InitiatorCount extends LabelCount {
+  user_id: number;
+}
+
+export interface ReportInsights {
+  period: InsightsPeriod;
+  totals: { total: number; draft: number; pending: number; completed: number; aborted: number; expired: number };
+  per_period: PeriodCount[];
+  // Shares of the finished reports, from 0 to 1; null before any finished
+  completion_rate: number | null;
+  abort_rate: number | null;
+  // From creation to approval, over completed reports
+  average_completion_hours: number | null;
+  activities: LabelCount[];
+  locations: LabelCount[];
+  sounds: LabelCount[];
+  initiators: InitiatorCount[];
+}
+
+// Bucket a report's date falls in
+export function getPeriodKey(date: string, period: InsightsPeriod): string {
+  if (period === "month") return date.slice(0, 7);
+
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+function nextPeriodKey(key: string, period: InsightsPeriod): string {
+  if (period === "week") return addDays(key, 7);
+
+  const [year, month] = key.split("-").map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+function countBy(labels: string[]): LabelCount[] {
+  const counts = new Map<string, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+
+  return Array.from(counts, ([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+// Per-period counts from the earliest report on, with empty periods filled
+// in so the chart keeps an even axis
+function countPerPeriod(reports: TpsReport[], period: InsightsPeriod): PeriodCount[] {
+  if (reports.length === 0) return [];
+
+  const buckets = new Map<string, PeriodCount>();
+  const keys = reports.map(report => getPeriodKey(report.date, period)).sort();
+  for (let key = keys[0]; key <= keys[keys.length - 1]; key = nextPeriodKey(key, period)) {
+    buckets.set(key, { period: key, total: 0, completed: 0, aborted: 0, expired: 0 });
+  }
+
+  reports.forEach(report => {
+    const bucket = buckets.get(getPeriodKey(report.date, period))!;
+    bucket.total++;
+    if (report.status === TpsStatus.COMPLETED) bucket.completed++;
+    if (report.status === TpsStatus.ABORTED) bucket.aborted++;
+    if (report.status === TpsStatus.EXPIRED) bucket.expired++;
+  });
+
+  return Array.from(buckets.values()).slice(-MAX_BUCKETS[period]);
+}
+
+// Hours from a report's "created" log to the update that completed it
+function getCompletionHours(report: TpsReport, logs: TpsLog[]): number | null {
+  const timeOf = (log: TpsLog) => new Date(log.timestamp).getTime();
+  const created = logs.find(log => log.action === "created");
+  const completed = logs
+    .filter(log => log.action === "updated" && (log.details as any)?.status === TpsStatus.COMPLETED)
+    .sort((a, b) => timeOf(a) - timeOf(b))[0];
+  if (!completed) return null;
+
+  const start = created ? timeOf(created) : new Date(report.created_at).getTime();
+  return (timeOf(completed) - start) / (60 * 60 * 1000);
+}
+
+// Everything the insights page charts, over the reports a user is part of.
+// Drafts count towards the totals only, since they haven't been agreed on.
+export function computeReportInsights(
+  reports: TpsReport[],
+  logs: TpsLog[],
+  users: User[],
+  period: InsightsPeriod
+): ReportInsights {
+  const countStatus = (...statuses: string[]) => reports.filter(report => statuses.includes(report.status)).length;
+  const totals = {
+    total: reports.length,
+    draft: countStatus(TpsStatus.DRAFT),
+    pending: countStatus(TpsStatus.PENDING_REVIEW, TpsStatus.PENDING_APPROVAL),
+    completed: countStatus(TpsStatus.COMPLETED),
+    aborted: countStatus(TpsStatus.ABORTED),
+    expired: countStatus(TpsStatus.EXPIRED)
+  };
+  const finished = totals.completed + totals.aborted + totals.expired;
+
+  const logsByReport = new Map<number, TpsLog[]>();
+  logs.forEach(log => logsByReport.set(log.tps_id, [...(logsByReport.get(log.tps_id) || []), log]));
+
+  const completionHours = reports
+    .filter(report => report.status === TpsStatus.COMPLETED)
+    .map(report => getCompletionHours(report, logsByReport.get(report.id) || []))
+    .filter((hours): hours is number => hours !== null);
+
+  const submitted = reports.filter(report => report.status !== TpsStatus.DRAFT);
+  const activityFields = TPS_TEMPLATE.sections.find(section => section.id === "activities")?.fields
+    .filter(field => field.type === "checkbox") || [];
+  const locationField = getTemplateField("Location");
+  const soundField = getTemplateField("Sound");
+
+  const usersMap = new Map(users.map(user => [user.id, user]));
+  const initiators = countBy(reports.map(report => String(report.creator_id))).map(({ label, count }) => ({
+    user_id: parseInt(label),
+    label: usersMap.get(parseInt(label))?.name || "Unknown",
+    count
+  }));
+
+  return {
+    period,
+    totals,
+    per_period: countPerPeriod(reports, period),
+    completion_rate: finished > 0 ? totals.completed / finished : null,
+    abort_rate: finished > 0 ? totals.aborted / finished : null,
+    average_completion_hours: completionHours.length > 0
+      ? completionHours.reduce((sum, hours) => sum + hours, 0) / completionHours.length
+      : null,
+    activities: countBy(submitted.flatMap(report =>
+      activityFields.filter(field => isChecked(getFieldValue(report.form_data as TpsFormData, field))).map(field => field.label)
+    )),
+    locations: countBy(submitted.map(report =>
+      report.location_other && locationField && getOptionLabel(locationField, report.location) === "Other"
+        ? `Other (${report.location_other})`
+        : locationField ? getOptionLabel(locationField, report.location) : report.location
+    )),
+    sounds: countBy(submitted.map(report => soundField ? getOptionLabel(soundField, report.sound) : report.sound)),
+    initiators
+  };
+}
@@ -0,0 +1,180 @@
+import { TpsStatus, TpsReport } from "./schema";
+
+export type ParticipantRole = "creator" | "receiver";
+
+// Moves that carry more than a status change and go through their own
+// endpoint instead of a plain update
+export type ReportAction = "counter";
+
+// How many times the creator may send a report back with a counter-proposal
+// before it has to be approved or aborted as it stands
+export const MAX_COUNTER_ROUNDS = 3;
+
+export interface TpsTransition {
+  from: TpsStatus;
+  to: TpsStatus;
+  // Who is allowed to make this move. "system" moves are made by the
+  // server's background jobs, never through a request.
+  role: ParticipantRole | "system";
+  // Report columns that must be filled in once the move is made
+  requiredFields: (keyof TpsReport)[];
+  // Set when the move is only made through that action
+  action?: ReportAction;
+}
+
+// Every status change a report can go through. Moves to the same status are
+// edits in place (saving a draft, filling in a review) rather than transitions.
+export const TPS_TRANSITIONS: TpsTransition[] = [
+  { from: TpsStatus.DRAFT, to: TpsStatus.DRAFT, role: "creator", requiredFields: [] },
+  { from: TpsStatus.DRAFT, to: TpsStatus.PENDING_REVIEW, role: "creator", requiredFields: [] },
+  { from: TpsStatus.DRAFT, to: TpsStatus.ABORTED, role: "creator", requiredFields: [] },
+  { from: TpsStatus.PENDING_REVIEW, to: TpsStatus.PENDING_REVIEW, role: "receiver", requiredFields: [] },
+  { from: TpsStatus.PENDING_REVIEW, to: TpsStatus.PENDING_APPROVAL, role: "receiver", requiredFields: ["receiver_initials"] },
+  { from: TpsStatus.PENDING_REVIEW, to: TpsStatus.ABORTED, role: "receiver", requiredFields: [] },
+  { from: TpsStatus.PENDING_APPROVAL, to: TpsStatus.PENDING_REVIEW, role: "creator", requiredFields: [], action: "counter" },
+  { from: TpsStatus.PENDING_APPROVAL, to: TpsStatus.COMPLETED, role: "creator", requiredFields: ["creator_initials", "receiver_initials"] },
+  { from: TpsStatus.PENDING_APPROVAL, to: TpsStatus.ABORTED, role: "creator", requiredFields: [] },
+  { from: TpsStatus.PENDING_REVIEW, to: TpsStatus.EXPIRED, role: "system", requiredFields: [] },
+  { from: TpsStatus.PENDING_APPROVAL, to: TpsStatus.EXPIRED, role: "system", requiredFields: [] },
+];
+
+// Statuses a report can be created in
+export const TPS_INITIAL_STATUSES: TpsStatus[] = [TpsStatus.DRAFT, TpsStatus.PENDING_REVIEW];
+
+// Statuses waiting on one of the partners, which the server expires once
+// the report's time has passed
+export const EXPIRABLE_STATUSES: TpsStatus[] = TPS_TRANSITIONS
+  .filter(t => t.to === TpsStatus.EXPIRED)
+  .map(t => t.from);
+
+// Statuses a report can't leave. They can be replicated into a new draft.
+export const FINAL_STATUSES: TpsStatus[] = [TpsStatus.COMPLETED, TpsStatus.ABORTED, TpsStatus.EXPIRED];
+
+export function isFinalStatus(status: string): boolean {
+  return FINAL_STATUSES.includes(status as TpsStatus);
+}
+
+export type TpsTransitionErrorCode = "illegal_transition" | "wrong_role" | "missing_fields" | "round_limit";
+
+export class TpsTransitionError extends Error {
+  code: TpsTransitionErrorCode;
+  from: string;
+  to: string;
+  allowed: TpsStatus[];
+  missingFields: string[];
+
+  constructor(
+    code: TpsTransitionErrorCode,
+    message: string,
+    details: { from: string; to: string; allowed: TpsStatus[]; missingFields?: string[] }
+  ) {
+    super(message);
+    this.name = "TpsTransitionError";
+    this.code = code;
+    this.from = details.from;
+    this.to = details.to;
+    this.allowed = details.allowed;
+    this.missingFields = details.missingFields || [];
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      from: this.from,
+      to: this.to,
+      allowed: this.allowed,
+      missingFields: this.missingFields
+    };
+  }
+}
+
+export function findTransition(from: string, to: string): TpsTransition | undefined {
+  return TPS_TRANSITIONS.find(t => t.from === from && t.to === to);
+}
+
+export function getAllowedTransitions(from: string, role?: ParticipantRole, action?: ReportAction): TpsStatus[] {
+  return TPS_TRANSITIONS
+    .filter(t => t.from === from && (!role || t.role === role) && t.action === action)
+    .map(t => t.to);
+}
+
+export function canTransition(from: string, to: string, role: ParticipantRole): boolean {
+  return findTransition(from, to)?.role === role;
+}
+
+// Throws if a report in `from` can never move to `to`, whoever asks
+export function assertTransitionExists(from: string, to: string) {
+  if (!findTransition(from, to)) {
+    const allowed = getAllowedTransitions(from);
+    throw new TpsTransitionError(
+      "illegal_transition",
+      allowed.length === 0
+        ? `This report is already ${from} and can't be changed`
+        : `A report can't move from ${from} to ${to}`,
+      { from, to, allowed }
+    );
+  }
+}
+
+export function assertInitialStatus(status: string) {
+  if (!TPS_INITIAL_STATUSES.includes(status as TpsStatus)) {
+    throw new TpsTransitionError(
+      "illegal_transition",
+      `A report can't be created as ${status}`,
+      { from: "", to: status, allowed: TPS_INITIAL_STATUSES }
+    );
+  }
+}
+
+// Checks a requested update against the transition table: the move has to
+// exist, be made by the right participant through the right action, and
+// leave the required fields set
+export function assertTransition(
+  report: TpsReport,
+  to: string,
+  role: ParticipantRole,
+  data: Partial<TpsReport> = {},
+  action?: ReportAction
+) {
+  assertTransitionExists(report.status, to);
+
+  const transition = findTransition(report.status, to)!;
+  if (transition.action !== action) {
+    throw new TpsTransitionError(
+      "illegal_transition",
+      transition.action
+        ? `Moving a report from ${report.status} to ${to} is done with a ${transition.action}`
+        : `A ${action} can't move a report from ${report.status} to ${to}`,
+      { from: report.status, to, allowed: getAllowedTransitions(report.status, role, action) }
+    );
+  }
+
+  if (transition.role !== role) {
+    throw new TpsTransitionError(
+      "wrong_role",
+      transition.role === "system"
+        ? `Reports only become ${to} on their own`
+        : `Only the ${transition.role} can move a report from ${report.status} to ${to}`,
+      { from: report.status, to, allowed: getAllowedTransitions(report.status, role) }
+    );
+  }
+
+  const merged = { ...report, ...data };
+  const missingFields = transition.requiredFields.filter(field => !merged[field]);
+  if (missingFields.length > 0) {
+    throw new TpsTransitionError(
+      "missing_fields",
+      `Moving a report to ${to} requires ${missingFields.join(", ")}`,
+      { from: report.status, to, allowed: getAllowedTransitions(report.status, role), missingFields }
+    );
+  }
+
+  if (action === "counter" && report.counter_round >= MAX_COUNTER_ROUNDS) {
+    throw new TpsTransitionError(
+      "round_limit",
+      `This report has already been countered ${MAX_COUNTER_ROUNDS} times and can only be approved or aborted`,
+      { from: report.status, to, allowed: getAllowedTransitions(report.status, role) }
+    );
+  }
+}